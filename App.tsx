@@ -1,10 +1,15 @@
 
 import React, { useState, useEffect } from 'react';
-import { LayoutDashboard, Key, BarChart2, Search, Youtube } from 'lucide-react';
+import { LayoutDashboard, Key, BarChart2, Search, Youtube, FileCode, Coins, FlaskConical, Swords } from 'lucide-react';
 import ApiKeyModal from './components/ApiKeyModal';
+import QuotaMeter from './components/QuotaMeter';
 import ChannelAnalysis from './views/ChannelAnalysis';
+import ChannelCompare from './views/ChannelCompare';
 import KeywordAnalysis from './views/KeywordAnalysis';
 import OpportunityFinder from './views/OpportunityFinder';
+import TitleLab from './views/TitleLab';
+import PromptSettings from './views/PromptSettings';
+import UsageDashboard from './views/UsageDashboard';
 import { AppTab } from './types';
 import { decryptKey } from './utils';
 
@@ -34,8 +39,8 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const handleNavigateToAnalysis = (channelName: string) => {
-    setAutoSearchChannel(channelName);
+  const handleNavigateToAnalysis = (channelId: string) => {
+    setAutoSearchChannel(channelId);
     setActiveTab(AppTab.CHANNEL_ANALYSIS);
   };
 
@@ -63,6 +68,18 @@ const App: React.FC = () => {
             <LayoutDashboard size={20} />
             <span className="font-medium">채널 심층 분석</span>
           </button>
+
+          <button 
+            onClick={() => setActiveTab(AppTab.CHANNEL_COMPARE)}
+            className={`w-full text-left px-4 py-3 rounded-lg flex items-center gap-3 transition-all ${
+              activeTab === AppTab.CHANNEL_COMPARE 
+              ? 'bg-orange-600 text-white shadow-lg shadow-orange-600/20' 
+              : 'text-slate-400 hover:bg-slate-700 hover:text-white'
+            }`}
+          >
+            <Swords size={20} />
+            <span className="font-medium">채널 비교</span>
+          </button>
           
           <button 
             onClick={() => setActiveTab(AppTab.KEYWORD_ANALYSIS)}
@@ -87,9 +104,46 @@ const App: React.FC = () => {
             <Search size={20} />
             <span className="font-medium">공략 채널 찾기</span>
           </button>
+
+          <button 
+            onClick={() => setActiveTab(AppTab.TITLE_LAB)}
+            className={`w-full text-left px-4 py-3 rounded-lg flex items-center gap-3 transition-all ${
+              activeTab === AppTab.TITLE_LAB 
+              ? 'bg-amber-600 text-white shadow-lg shadow-amber-600/20' 
+              : 'text-slate-400 hover:bg-slate-700 hover:text-white'
+            }`}
+          >
+            <FlaskConical size={20} />
+            <span className="font-medium">제목 실험실</span>
+          </button>
+
+          <button 
+            onClick={() => setActiveTab(AppTab.PROMPT_SETTINGS)}
+            className={`w-full text-left px-4 py-3 rounded-lg flex items-center gap-3 transition-all ${
+              activeTab === AppTab.PROMPT_SETTINGS 
+              ? 'bg-slate-600 text-white shadow-lg shadow-slate-600/20' 
+              : 'text-slate-400 hover:bg-slate-700 hover:text-white'
+            }`}
+          >
+            <FileCode size={20} />
+            <span className="font-medium">프롬프트 설정</span>
+          </button>
+
+          <button 
+            onClick={() => setActiveTab(AppTab.USAGE_DASHBOARD)}
+            className={`w-full text-left px-4 py-3 rounded-lg flex items-center gap-3 transition-all ${
+              activeTab === AppTab.USAGE_DASHBOARD 
+              ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-600/20' 
+              : 'text-slate-400 hover:bg-slate-700 hover:text-white'
+            }`}
+          >
+            <Coins size={20} />
+            <span className="font-medium">AI 사용량</span>
+          </button>
         </div>
 
-        <div className="p-4 border-t border-slate-700">
+        <div className="p-4 border-t border-slate-700 space-y-3">
+          <QuotaMeter onClick={() => setIsKeyModalOpen(true)} />
           <button 
             onClick={() => setIsKeyModalOpen(true)}
             className="w-full bg-slate-700 hover:bg-slate-600 text-slate-300 py-2 px-4 rounded-lg text-sm flex items-center justify-center gap-2 transition-colors"
@@ -119,6 +173,10 @@ const App: React.FC = () => {
                     onClick={() => setActiveTab(AppTab.CHANNEL_ANALYSIS)}
                     className={`whitespace-nowrap px-4 py-2 rounded-full text-sm font-bold ${activeTab === AppTab.CHANNEL_ANALYSIS ? 'bg-red-600 text-white' : 'bg-slate-800 text-slate-400'}`}
                 >채널 분석</button>
+                <button 
+                    onClick={() => setActiveTab(AppTab.CHANNEL_COMPARE)}
+                    className={`whitespace-nowrap px-4 py-2 rounded-full text-sm font-bold ${activeTab === AppTab.CHANNEL_COMPARE ? 'bg-orange-600 text-white' : 'bg-slate-800 text-slate-400'}`}
+                >채널 비교</button>
                 <button 
                     onClick={() => setActiveTab(AppTab.KEYWORD_ANALYSIS)}
                     className={`whitespace-nowrap px-4 py-2 rounded-full text-sm font-bold ${activeTab === AppTab.KEYWORD_ANALYSIS ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400'}`}
@@ -127,6 +185,18 @@ const App: React.FC = () => {
                     onClick={() => setActiveTab(AppTab.OPPORTUNITY_FINDER)}
                     className={`whitespace-nowrap px-4 py-2 rounded-full text-sm font-bold ${activeTab === AppTab.OPPORTUNITY_FINDER ? 'bg-purple-600 text-white' : 'bg-slate-800 text-slate-400'}`}
                 >공략 채널</button>
+                <button 
+                    onClick={() => setActiveTab(AppTab.TITLE_LAB)}
+                    className={`whitespace-nowrap px-4 py-2 rounded-full text-sm font-bold ${activeTab === AppTab.TITLE_LAB ? 'bg-amber-600 text-white' : 'bg-slate-800 text-slate-400'}`}
+                >제목 실험실</button>
+                <button 
+                    onClick={() => setActiveTab(AppTab.PROMPT_SETTINGS)}
+                    className={`whitespace-nowrap px-4 py-2 rounded-full text-sm font-bold ${activeTab === AppTab.PROMPT_SETTINGS ? 'bg-slate-600 text-white' : 'bg-slate-800 text-slate-400'}`}
+                >프롬프트</button>
+                <button 
+                    onClick={() => setActiveTab(AppTab.USAGE_DASHBOARD)}
+                    className={`whitespace-nowrap px-4 py-2 rounded-full text-sm font-bold ${activeTab === AppTab.USAGE_DASHBOARD ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-400'}`}
+                >AI 사용량</button>
             </div>
 
             {/* View Render */}
@@ -138,6 +208,7 @@ const App: React.FC = () => {
                     onSearchComplete={() => setAutoSearchChannel(null)} 
                   />
                 )}
+                {activeTab === AppTab.CHANNEL_COMPARE && <ChannelCompare apiKey={apiKey} />}
                 {activeTab === AppTab.KEYWORD_ANALYSIS && (
                   <KeywordAnalysis 
                     apiKey={apiKey} 
@@ -150,6 +221,9 @@ const App: React.FC = () => {
                     onAnalyzeChannel={handleNavigateToAnalysis} 
                   />
                 )}
+                {activeTab === AppTab.TITLE_LAB && <TitleLab apiKey={apiKey} />}
+                {activeTab === AppTab.PROMPT_SETTINGS && <PromptSettings />}
+                {activeTab === AppTab.USAGE_DASHBOARD && <UsageDashboard />}
             </div>
         </div>
       </main>
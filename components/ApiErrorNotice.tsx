@@ -0,0 +1,30 @@
+import React from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import { describeError } from '../services/youtubeErrors';
+
+interface Props {
+  error: unknown;
+  onDismiss?: () => void;
+}
+
+const ApiErrorNotice: React.FC<Props> = ({ error, onDismiss }) => {
+  const { title, action, detail } = describeError(error);
+
+  return (
+    <div className="bg-red-900/20 border border-red-500/30 rounded-xl p-4 flex gap-3 animate-fade-in">
+      <AlertCircle className="text-red-400 shrink-0 mt-0.5" size={20} />
+      <div className="flex-1 min-w-0">
+        <h4 className="font-bold text-red-300 text-sm">{title}</h4>
+        <p className="text-slate-300 text-sm mt-1">{action}</p>
+        {detail && <p className="text-slate-500 text-xs mt-2 font-mono break-all">{detail}</p>}
+      </div>
+      {onDismiss && (
+        <button onClick={onDismiss} className="text-slate-500 hover:text-white self-start">
+          <X size={16} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ApiErrorNotice;
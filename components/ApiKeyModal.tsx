@@ -1,8 +1,14 @@
 
 import React, { useState, useEffect } from 'react';
-import { Key, Lock, CheckCircle, AlertCircle, X, Trash2, AlertTriangle, Sparkles } from 'lucide-react';
+import { Key, Lock, CheckCircle, AlertCircle, X, Trash2, AlertTriangle, Sparkles, Gauge, Database, Cpu, Languages } from 'lucide-react';
 import { validateApiKey } from '../services/youtubeService';
 import { validateGeminiApiKey } from '../services/geminiService';
+import { getQuotaBudget, setQuotaBudget, getQuotaUsage } from '../services/quotaService';
+import { getCacheStats, clearCache, CACHE_RESOURCE_LABELS, CACHE_TTLS } from '../services/cacheService';
+import { getLLMSettings, setLLMSettings, getOpenAIApiKey, setOpenAIApiKey, validateLLMProvider, LLM_PROVIDER_LABELS, DEFAULT_LLM_ENDPOINTS, DEFAULT_LLM_MODELS } from '../services/llmProviders';
+import GenerationSettingsPanel from './GenerationSettingsPanel';
+import { getReportLanguage, setReportLanguage, REPORT_LANGUAGE_LABELS } from '../services/reportLanguage';
+import { QuotaBudgetMode, CacheStats, CacheResource, LLMProviderId, ReportLanguage } from '../types';
 import { encryptKey, decryptKey } from '../utils';
 
 interface Props {
@@ -24,6 +30,24 @@ const ApiKeyModal: React.FC<Props> = ({ isOpen, onClose, onKeySet }) => {
   const [geminiHasStored, setGeminiHasStored] = useState(false);
   const [geminiConfirmDelete, setGeminiConfirmDelete] = useState(false);
 
+  // Quota Budget States
+  const [quotaLimit, setQuotaLimit] = useState('');
+  const [quotaMode, setQuotaMode] = useState<QuotaBudgetMode>('warn');
+  const [quotaSaved, setQuotaSaved] = useState(false);
+
+  // Response Cache States
+  const [cacheStats, setCacheStats] = useState<CacheStats[]>([]);
+
+  // AI Provider States
+  const [llmProvider, setLlmProvider] = useState<LLMProviderId>('gemini');
+  const [llmEndpoint, setLlmEndpoint] = useState('');
+  const [llmModel, setLlmModel] = useState('');
+  const [openaiKey, setOpenaiKey] = useState('');
+  const [llmStatus, setLlmStatus] = useState<'idle' | 'validating' | 'success' | 'error'>('idle');
+
+  // Report Language State
+  const [reportLanguage, setReportLanguageState] = useState<ReportLanguage>('ko');
+
   useEffect(() => {
     if (isOpen) {
       // Load YouTube Key
@@ -49,6 +73,26 @@ const ApiKeyModal: React.FC<Props> = ({ isOpen, onClose, onKeySet }) => {
       }
       setGeminiStatus('idle');
       setGeminiConfirmDelete(false);
+
+      // Load Quota Budget
+      const budget = getQuotaBudget();
+      setQuotaLimit(String(budget.limit));
+      setQuotaMode(budget.mode);
+      setQuotaSaved(false);
+
+      // Load Cache Stats
+      getCacheStats().then(setCacheStats);
+
+      // Load AI Provider
+      const llm = getLLMSettings();
+      setLlmProvider(llm.provider);
+      setLlmEndpoint(llm.endpoint);
+      setLlmModel(llm.model);
+      setOpenaiKey(getOpenAIApiKey());
+      setLlmStatus('idle');
+
+      // Load Report Language
+      setReportLanguageState(getReportLanguage());
     }
   }, [isOpen]);
 
@@ -98,6 +142,47 @@ const ApiKeyModal: React.FC<Props> = ({ isOpen, onClose, onKeySet }) => {
     setGeminiConfirmDelete(false);
   };
 
+  const handleSaveQuota = () => {
+    const limit = parseInt(quotaLimit);
+    if (!limit || limit <= 0) return;
+    setQuotaBudget({ limit, mode: quotaMode });
+    setQuotaSaved(true);
+    setTimeout(() => setQuotaSaved(false), 1500);
+  };
+
+  const handleClearCache = async (resource?: CacheResource) => {
+    await clearCache(resource);
+    setCacheStats(await getCacheStats());
+  };
+
+  const handleSelectProvider = (provider: LLMProviderId) => {
+    setLlmProvider(provider);
+    setLlmEndpoint(DEFAULT_LLM_ENDPOINTS[provider]);
+    setLlmModel(DEFAULT_LLM_MODELS[provider]);
+    setLlmStatus('idle');
+  };
+
+  const handleSaveProvider = async () => {
+    const settings = { provider: llmProvider, endpoint: llmEndpoint.trim(), model: llmModel.trim() };
+    setLlmStatus('validating');
+    const isValid = await validateLLMProvider(settings, llmProvider === 'gemini' ? geminiKey : openaiKey);
+    if (isValid) {
+      setLlmStatus('success');
+      setLLMSettings(settings);
+      if (llmProvider === 'openai') setOpenAIApiKey(openaiKey.trim());
+      setTimeout(() => setLlmStatus('idle'), 1500);
+    } else {
+      setLlmStatus('error');
+    }
+  };
+
+  const handleSelectLanguage = (language: ReportLanguage) => {
+    setReportLanguage(language);
+    setReportLanguageState(language);
+  };
+
+  const formatTtl = (ms: number) => ms >= 24 * 60 * 60 * 1000 ? `${ms / (24 * 60 * 60 * 1000)}일` : `${ms / (60 * 60 * 1000)}시간`;
+
   if (!isOpen) return null;
 
   return (
@@ -173,6 +258,205 @@ const ApiKeyModal: React.FC<Props> = ({ isOpen, onClose, onKeySet }) => {
             </div>
           </div>
 
+          {/* Quota Budget Section */}
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700">
+            <div className="flex items-center gap-2 mb-3">
+               <div className="bg-green-500/10 p-1.5 rounded-lg"><Gauge className="text-green-500" size={16}/></div>
+               <h3 className="font-bold text-slate-200">일일 할당량 예산</h3>
+            </div>
+
+            <p className="text-xs text-slate-400 mb-3">
+              오늘 사용량: {getQuotaUsage().used.toLocaleString()} 유닛 (기본 한도 10,000 / 검색 1회 100 유닛)
+            </p>
+
+            <div className="space-y-3">
+               <div className="flex gap-2">
+                 <input 
+                    type="number" 
+                    min={1}
+                    value={quotaLimit}
+                    onChange={(e) => setQuotaLimit(e.target.value)}
+                    className="flex-1 bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                    placeholder="10000"
+                 />
+                 <div className="flex bg-slate-800 rounded-lg p-1 border border-slate-600">
+                    {[
+                        { val: 'warn', label: '경고' },
+                        { val: 'block', label: '차단' }
+                    ].map(opt => (
+                        <button 
+                            key={opt.val}
+                            type="button"
+                            onClick={() => setQuotaMode(opt.val as QuotaBudgetMode)}
+                            className={`px-3 py-1 text-xs font-bold rounded transition-colors ${quotaMode === opt.val ? 'bg-green-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {opt.label}
+                        </button>
+                    ))}
+                 </div>
+               </div>
+
+               {quotaSaved && (
+                  <div className="text-green-400 text-xs flex items-center gap-1"><CheckCircle size={12}/> 저장되었습니다.</div>
+               )}
+
+               <button 
+                  type="button" 
+                  onClick={handleSaveQuota}
+                  disabled={!parseInt(quotaLimit)}
+                  className="w-full bg-green-600 hover:bg-green-700 text-white rounded-lg py-2 text-sm font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+               >
+                  예산 저장
+               </button>
+            </div>
+          </div>
+
+          {/* Response Cache Section */}
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700">
+            <div className="flex items-center justify-between mb-3">
+               <div className="flex items-center gap-2">
+                  <div className="bg-purple-500/10 p-1.5 rounded-lg"><Database className="text-purple-500" size={16}/></div>
+                  <h3 className="font-bold text-slate-200">응답 캐시</h3>
+               </div>
+               <button 
+                  type="button" 
+                  onClick={() => handleClearCache()}
+                  disabled={!cacheStats.some(stat => stat.count > 0)}
+                  className="text-xs px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-red-400 rounded-lg disabled:opacity-50"
+               >
+                  전체 삭제
+               </button>
+            </div>
+
+            <p className="text-xs text-slate-400 mb-3">
+              같은 요청은 보관 기간 동안 저장된 응답을 사용하여 할당량을 아낍니다.
+            </p>
+
+            <div className="space-y-1">
+               {cacheStats.map(stat => (
+                  <div key={stat.resource} className="flex items-center justify-between text-xs bg-slate-800 rounded-lg px-3 py-2">
+                     <div>
+                        <span className="text-slate-200 font-bold">{CACHE_RESOURCE_LABELS[stat.resource]}</span>
+                        <span className="text-slate-500 ml-2">보관 {formatTtl(CACHE_TTLS[stat.resource])}</span>
+                     </div>
+                     <div className="flex items-center gap-3">
+                        <span className="font-mono text-slate-400">{stat.count}건 · {(stat.bytes / 1024).toFixed(1)}KB</span>
+                        <button 
+                           type="button" 
+                           onClick={() => handleClearCache(stat.resource)}
+                           disabled={stat.count === 0}
+                           className="text-slate-500 hover:text-red-400 disabled:opacity-30"
+                           title="이 항목 캐시 삭제"
+                        >
+                           <Trash2 size={12} />
+                        </button>
+                     </div>
+                  </div>
+               ))}
+            </div>
+          </div>
+
+          {/* AI Provider Section */}
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700">
+            <div className="flex items-center gap-2 mb-3">
+               <div className="bg-indigo-500/10 p-1.5 rounded-lg"><Cpu className="text-indigo-500" size={16}/></div>
+               <h3 className="font-bold text-slate-200">AI 제공자</h3>
+            </div>
+
+            <p className="text-xs text-slate-400 mb-3">
+              채널·키워드·기회 분석과 영상 요약에 사용할 모델 서버를 선택합니다.
+            </p>
+
+            <div className="space-y-3">
+               <div className="flex bg-slate-800 rounded-lg p-1 border border-slate-600">
+                  {(Object.keys(LLM_PROVIDER_LABELS) as LLMProviderId[]).map(provider => (
+                      <button 
+                          key={provider}
+                          type="button"
+                          onClick={() => handleSelectProvider(provider)}
+                          className={`flex-1 px-3 py-1 text-xs font-bold rounded transition-colors ${llmProvider === provider ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                          {LLM_PROVIDER_LABELS[provider]}
+                      </button>
+                  ))}
+               </div>
+
+               {llmProvider !== 'gemini' && (
+                  <input 
+                     type="text" 
+                     value={llmEndpoint}
+                     onChange={(e) => setLlmEndpoint(e.target.value)}
+                     className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                     placeholder={DEFAULT_LLM_ENDPOINTS[llmProvider]}
+                  />
+               )}
+               {llmProvider === 'openai' && (
+                  <input 
+                     type="password" 
+                     value={openaiKey}
+                     onChange={(e) => setOpenaiKey(e.target.value)}
+                     className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                     placeholder="API 키 (로컬 서버는 비워두세요)"
+                  />
+               )}
+               <input 
+                  type="text" 
+                  value={llmModel}
+                  onChange={(e) => setLlmModel(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveProvider()}
+                  className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  placeholder={DEFAULT_LLM_MODELS[llmProvider]}
+               />
+
+               {llmStatus === 'error' && (
+                  <div className="text-red-400 text-xs flex items-center gap-1"><AlertCircle size={12}/> 연결에 실패했습니다. 주소, 키, 모델 이름을 확인해주세요.</div>
+               )}
+               {llmStatus === 'success' && (
+                  <div className="text-green-400 text-xs flex items-center gap-1"><CheckCircle size={12}/> 저장되었습니다.</div>
+               )}
+
+               <button 
+                  type="button" 
+                  onClick={handleSaveProvider}
+                  disabled={llmStatus === 'validating' || (llmProvider === 'gemini' && !geminiKey)}
+                  className="w-full bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg py-2 text-sm font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+               >
+                  {llmStatus === 'validating' ? '연결 확인 중...' : '연결 확인 후 저장'}
+               </button>
+               {llmProvider === 'gemini' && (
+                  <p className="text-xs text-slate-500">Gemini는 아래에 등록한 API 키를 사용합니다.</p>
+               )}
+            </div>
+          </div>
+
+          {/* Report Language Section */}
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700">
+            <div className="flex items-center gap-2 mb-3">
+               <div className="bg-teal-500/10 p-1.5 rounded-lg"><Languages className="text-teal-500" size={16}/></div>
+               <h3 className="font-bold text-slate-200">리포트 언어</h3>
+            </div>
+
+            <p className="text-xs text-slate-400 mb-3">
+              AI 리포트와 TXT 내보내기에 사용할 언어입니다. 검색 국가 설정과는 별개로 적용됩니다.
+            </p>
+
+            <div className="flex bg-slate-800 rounded-lg p-1 border border-slate-600">
+               {(Object.keys(REPORT_LANGUAGE_LABELS) as ReportLanguage[]).map(language => (
+                   <button 
+                       key={language}
+                       type="button"
+                       onClick={() => handleSelectLanguage(language)}
+                       className={`flex-1 px-3 py-1 text-xs font-bold rounded transition-colors ${reportLanguage === language ? 'bg-teal-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                   >
+                       {REPORT_LANGUAGE_LABELS[language]}
+                   </button>
+               ))}
+            </div>
+          </div>
+
+          {/* Per-Analysis Generation Settings */}
+          <GenerationSettingsPanel isOpen={isOpen} provider={llmProvider} defaultModel={llmModel.trim() || DEFAULT_LLM_MODELS[llmProvider]} />
+
           {/* Gemini API Key Section */}
           <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700">
             <div className="flex items-center gap-2 mb-3">
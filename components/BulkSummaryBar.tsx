@@ -0,0 +1,50 @@
+import React from 'react';
+import { Brain, X, Loader2 } from 'lucide-react';
+import { BulkSummaryProgress } from '../hooks/useVideoSummaries';
+
+interface Props {
+  pendingCount: number; // Visible videos that still have no summary
+  progress: BulkSummaryProgress | null;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+// "Summarize all visible" button with the progress of the running (or last) bulk run
+const BulkSummaryBar: React.FC<Props> = ({ pendingCount, progress, onStart, onCancel }) => {
+  const running = !!progress?.running;
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="flex items-center gap-3 flex-wrap">
+      {running ? (
+        <button onClick={onCancel} className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded-lg text-sm flex items-center gap-2 transition-colors">
+          <X size={14} /> 요약 중단
+        </button>
+      ) : (
+        <button
+          onClick={onStart}
+          disabled={pendingCount === 0}
+          className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors disabled:opacity-50"
+          title={pendingCount === 0 ? '보이는 영상이 모두 요약되었습니다.' : undefined}
+        >
+          <Brain size={14} /> 보이는 영상 모두 요약 ({pendingCount})
+        </button>
+      )}
+      {progress && (
+        <div className="flex items-center gap-2 min-w-[180px]">
+          <div className="flex-1 h-2 bg-slate-700 rounded-full overflow-hidden">
+            <div className="h-full bg-purple-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <span className="text-xs text-slate-400 whitespace-nowrap flex items-center gap-1">
+            {running && <Loader2 size={12} className="animate-spin" />}
+            {progress.done}/{progress.total}
+            {progress.failed > 0 && <span className="text-red-400"> · 실패 {progress.failed}</span>}
+            {!running && progress.done < progress.total && ' · 중단됨'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkSummaryBar;
@@ -1,19 +1,38 @@
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, LineChart, Line, CartesianGrid, PieChart, Pie, Cell, Legend } from 'recharts';
-import { YouTubeVideo } from '../types';
+import type { DotProps } from 'recharts';
+import type { Payload } from 'recharts/types/component/DefaultTooltipContent';
+import { YouTubeVideo, ScoringPreset } from '../types';
 import { formatNumber, parseDuration } from '../utils';
+import { scoreVideos, describeScoringFormula, DEFAULT_SCORING_PRESET } from '../services/popularityScore';
 
 interface Props {
   videos: YouTubeVideo[];
-  popularityData?: any[];
+  scoring?: ScoringPreset; // Popularity score setup; the active one from the settings panel
+  scores?: Record<string, number>; // Scores the view already computed with `scoring`, by video ID
+  highlightedIds?: string[]; // Drawn in the highlight color, e.g. videos cited as report evidence
 }
 
-export const ViewsChart: React.FC<Props> = ({ videos }) => {
+const HIGHLIGHT_COLOR = '#facc15';
+
+interface ViewsPoint {
+  id: string;
+  name: string;
+  views: number;
+  title: string;
+  fullDate: string;
+}
+
+// What recharts passes to a custom `dot` render function for each point
+type ViewsDotProps = DotProps & { index: number; payload: ViewsPoint };
+
+export const ViewsChart: React.FC<Props> = ({ videos, highlightedIds = [] }) => {
   // Sort by date for trend line
-  const data = [...videos]
+  const data: ViewsPoint[] = [...videos]
     .sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime())
     .map(v => ({
+      id: v.id,
       name: v.publishedAt.split('T')[0].substring(5), // MM-DD
       views: v.viewCount,
       title: v.title,
@@ -34,31 +53,59 @@ export const ViewsChart: React.FC<Props> = ({ videos }) => {
             formatter={(value: number) => [formatNumber(value), '조회수']}
             labelFormatter={(label, payload) => payload[0]?.payload.title || label}
           />
-          <Line type="monotone" dataKey="views" stroke="#ef4444" strokeWidth={3} dot={{ r: 3, fill: '#ef4444' }} activeDot={{ r: 6, fill: '#fff' }} />
+          <Line
+            type="monotone"
+            dataKey="views"
+            stroke="#ef4444"
+            strokeWidth={3}
+            dot={({ cx, cy, index, payload }: ViewsDotProps) => highlightedIds.includes(payload.id)
+              ? <circle key={index} cx={cx} cy={cy} r={6} fill={HIGHLIGHT_COLOR} stroke="#fff" strokeWidth={2} />
+              : <circle key={index} cx={cx} cy={cy} r={3} fill="#ef4444" />}
+            activeDot={{ r: 6, fill: '#fff' }}
+          />
         </LineChart>
       </ResponsiveContainer>
     </div>
   );
 };
 
-export const PopularityScoreChart: React.FC<Props> = ({ popularityData }) => {
-  if (!popularityData) return null;
+// Top 20 videos by popularity score, scored against every video passed in
+export const PopularityScoreChart: React.FC<Props> = ({ videos, scoring = DEFAULT_SCORING_PRESET, scores, highlightedIds = [] }) => {
+  const data = useMemo(() => {
+    const videoScores = scores ?? scoreVideos(videos, scoring);
+    return [...videos]
+      .sort((a, b) => videoScores[b.id] - videoScores[a.id])
+      .slice(0, 20)
+      .map(v => ({
+        id: v.id,
+        name: v.publishedAt.split('T')[0],
+        title: v.title,
+        score: videoScores[v.id]
+      }));
+  }, [videos, scoring, scores]);
 
   return (
-    <div className="h-72 w-full">
-      <ResponsiveContainer width="100%" height="100%">
-        <BarChart data={popularityData.slice(0, 20)} margin={{ top: 5, right: 0, bottom: 5, left: 0 }}>
-          <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-          <XAxis dataKey="name" stroke="#94a3b8" fontSize={10} tick={false} />
-          <YAxis stroke="#94a3b8" fontSize={12} width={30} />
-          <Tooltip 
-            cursor={{fill: '#334155', opacity: 0.4}}
-            contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: '8px', color: '#f1f5f9' }}
-            labelFormatter={(label, payload) => payload[0]?.payload.title || label}
-          />
-          <Bar dataKey="score" fill="#ef4444" radius={[4, 4, 0, 0]} name="인기 점수" />
-        </BarChart>
-      </ResponsiveContainer>
+    <div className="w-full">
+      <div className="h-72 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} margin={{ top: 5, right: 0, bottom: 5, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            <XAxis dataKey="name" stroke="#94a3b8" fontSize={10} tick={false} />
+            <YAxis stroke="#94a3b8" fontSize={12} width={30} domain={[0, 100]} />
+            <Tooltip 
+              cursor={{fill: '#334155', opacity: 0.4}}
+              contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: '8px', color: '#f1f5f9' }}
+              labelFormatter={(label, payload) => payload[0]?.payload.title || label}
+            />
+            <Bar dataKey="score" fill="#ef4444" radius={[4, 4, 0, 0]} name="인기 점수">
+              {data.map((entry, index) => (
+                <Cell key={`cell-${index}`} fill={highlightedIds.includes(entry.id) ? HIGHLIGHT_COLOR : '#ef4444'} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-[11px] text-slate-500 font-mono mt-2">{describeScoringFormula(scoring)}</p>
     </div>
   );
 };
@@ -136,3 +183,92 @@ export const VideoFormatChart: React.FC<Props> = ({ videos }) => {
     </div>
   );
 };
+
+export interface ComparisonSeries {
+  name: string;
+  color: string;
+  videos: YouTubeVideo[];
+}
+
+interface ComparisonProps {
+  series: ComparisonSeries[];
+}
+
+interface ComparisonPoint {
+  time: number;
+  views: number;
+  title: string;
+}
+
+// Views over time with one line per channel. The X axis is numeric time so channels with
+// different upload dates share it; views use a log scale so a large channel doesn't flatten the rest.
+export const ComparisonViewsChart: React.FC<ComparisonProps> = ({ series }) => {
+  const lines = series.map(s => ({
+    ...s,
+    data: [...s.videos]
+      .sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime())
+      .map((v): ComparisonPoint => ({ time: new Date(v.publishedAt).getTime(), views: Math.max(v.viewCount, 1), title: v.title }))
+  }));
+
+  return (
+    <div className="h-72 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            stroke="#94a3b8"
+            fontSize={12}
+            tickMargin={10}
+            tickFormatter={(val) => new Date(val).toISOString().substring(2, 7)} // YY-MM
+          />
+          <YAxis scale="log" domain={['auto', 'auto']} stroke="#94a3b8" fontSize={12} tickFormatter={(val) => formatNumber(val)} width={50} allowDataOverflow />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: '8px', color: '#f1f5f9' }}
+            labelStyle={{ color: '#94a3b8', marginBottom: '5px' }}
+            formatter={(value: number, name: string, item: Payload<number, string>) => [`${formatNumber(value)} · ${(item.payload as ComparisonPoint | undefined)?.title || ''}`, name]}
+            labelFormatter={(label) => new Date(label).toISOString().split('T')[0]}
+          />
+          {lines.map(line => (
+            <Line key={line.name} data={line.data} dataKey="views" name={line.name} type="monotone" stroke={line.color} strokeWidth={2} dot={{ r: 2, fill: line.color }} activeDot={{ r: 5, fill: '#fff' }} />
+          ))}
+          <Legend />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+// Each channel's videos sorted by views, so the curves show how much a channel leans on a few hits
+export const ComparisonRankChart: React.FC<ComparisonProps> = ({ series }) => {
+  const length = Math.max(0, ...series.map(s => s.videos.length));
+  const sorted = series.map(s => [...s.videos].sort((a, b) => b.viewCount - a.viewCount));
+  const data = Array.from({ length }, (_, i) => ({
+    rank: i + 1,
+    ...Object.fromEntries(series.map((s, j) => [s.name, sorted[j][i] ? Math.max(sorted[j][i].viewCount, 1) : undefined]))
+  }));
+
+  return (
+    <div className="h-72 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+          <XAxis dataKey="rank" stroke="#94a3b8" fontSize={12} tickMargin={10} />
+          <YAxis scale="log" domain={['auto', 'auto']} stroke="#94a3b8" fontSize={12} tickFormatter={(val) => formatNumber(val)} width={50} allowDataOverflow />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', borderRadius: '8px', color: '#f1f5f9' }}
+            labelStyle={{ color: '#94a3b8', marginBottom: '5px' }}
+            formatter={(value: number, name: string) => [formatNumber(value), name]}
+            labelFormatter={(label) => `조회수 ${label}위`}
+          />
+          {series.map(s => (
+            <Line key={s.name} dataKey={s.name} type="monotone" stroke={s.color} strokeWidth={2} dot={false} connectNulls={false} />
+          ))}
+          <Legend />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+interface Props {
+  fields?: string[];
+  prefix?: string; // Only list fields under this path, e.g. the section a tab renders
+}
+
+// Lists report fields the AI did not deliver, which were replaced with empty values
+const DefaultedFieldsNotice: React.FC<Props> = ({ fields, prefix }) => {
+  const shown = (fields || []).filter(field => !prefix || field === prefix || field.startsWith(`${prefix}.`));
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-900/20 border border-yellow-500/30 rounded-xl p-4 flex gap-3 mb-4 animate-fade-in">
+      <AlertTriangle className="text-yellow-400 shrink-0 mt-0.5" size={18} />
+      <div className="flex-1 min-w-0">
+        <h4 className="font-bold text-yellow-300 text-sm">일부 항목이 AI 응답에 없어 빈 값으로 표시됩니다</h4>
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {shown.map(field => (
+            <span key={field} className="text-xs font-mono px-2 py-0.5 rounded bg-slate-900/60 text-yellow-200 border border-yellow-500/20">
+              {field}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DefaultedFieldsNotice;
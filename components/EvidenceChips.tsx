@@ -0,0 +1,42 @@
+import React from 'react';
+import { Link2 } from 'lucide-react';
+import { YouTubeVideo } from '../types';
+
+interface Props {
+  ids?: string[];
+  videos: YouTubeVideo[];
+  highlightedIds: string[];
+  onSelect: (ids: string[]) => void; // One chip selects its video; the label selects them all
+}
+
+// Supporting videos the AI cited for a report item, shown under the item's text
+const EvidenceChips: React.FC<Props> = ({ ids, videos, highlightedIds, onSelect }) => {
+  const cited = (ids || []).map(id => videos.find(v => v.id === id)).filter((v): v is YouTubeVideo => !!v);
+  if (cited.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-3">
+      <button
+        onClick={() => onSelect(cited.map(v => v.id))}
+        className="text-[11px] font-bold text-slate-500 hover:text-yellow-300 flex items-center gap-1 transition-colors"
+        title="근거 영상을 모두 목록과 차트에서 강조합니다"
+      >
+        <Link2 size={12} /> 근거 영상 {cited.length}
+      </button>
+      {cited.map(video => (
+        <button
+          key={video.id}
+          onClick={() => onSelect([video.id])}
+          className={`text-[11px] max-w-[200px] flex items-center gap-1.5 pl-0.5 pr-2 py-0.5 rounded-full border transition-colors
+            ${highlightedIds.includes(video.id) ? 'bg-yellow-500/20 border-yellow-500/60 text-yellow-200' : 'bg-slate-800 border-slate-600 text-slate-300 hover:border-yellow-500/40'}`}
+          title={video.title}
+        >
+          <img src={video.thumbnail} alt="" className="w-7 h-4 rounded-full object-cover shrink-0" />
+          <span className="truncate">{video.title}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default EvidenceChips;
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, CheckCircle } from 'lucide-react';
+import { getGenerationSettings, setGenerationSettings, ANALYSIS_KIND_LABELS, SUGGESTED_MODELS } from '../services/llmProviders';
+import { AnalysisKind, GenerationSettings, LLMProviderId } from '../types';
+
+interface Props {
+  isOpen: boolean;
+  provider: LLMProviderId;
+  defaultModel: string;
+}
+
+type NumericField = 'temperature' | 'maxOutputTokens' | 'thinkingBudget';
+
+const GenerationSettingsPanel: React.FC<Props> = ({ isOpen, provider, defaultModel }) => {
+  const [settings, setSettings] = useState<Record<AnalysisKind, GenerationSettings>>(getGenerationSettings);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSettings(getGenerationSettings());
+      setSaved(false);
+    }
+  }, [isOpen]);
+
+  const updateField = (kind: AnalysisKind, patch: Partial<GenerationSettings>) => {
+    setSettings(prev => ({ ...prev, [kind]: { ...prev[kind], ...patch } }));
+  };
+
+  // An empty input clears the field so the provider default applies
+  const updateNumber = (kind: AnalysisKind, field: NumericField, value: string) => {
+    const parsed = parseFloat(value);
+    updateField(kind, { [field]: value === '' || isNaN(parsed) ? undefined : parsed });
+  };
+
+  const handleSave = () => {
+    setGenerationSettings(settings);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 1500);
+  };
+
+  const numberInputClass = "w-full bg-slate-800 border border-slate-600 rounded-lg px-2 py-1.5 text-white text-xs focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700">
+      <div className="flex items-center gap-2 mb-3">
+         <div className="bg-indigo-500/10 p-1.5 rounded-lg"><SlidersHorizontal className="text-indigo-500" size={16}/></div>
+         <h3 className="font-bold text-slate-200">분석별 모델 설정</h3>
+      </div>
+
+      <p className="text-xs text-slate-400 mb-3">
+        비워둔 항목은 제공자 기본값을 사용합니다 (기본 모델: {defaultModel}).
+        {provider !== 'gemini' && ' 사고 예산은 Gemini 2.5 모델에만 적용됩니다.'}
+      </p>
+
+      <datalist id="generation-model-suggestions">
+        {SUGGESTED_MODELS[provider].map(model => <option key={model} value={model} />)}
+      </datalist>
+
+      <div className="space-y-3">
+         {(Object.keys(ANALYSIS_KIND_LABELS) as AnalysisKind[]).map(kind => (
+            <div key={kind} className="bg-slate-800 rounded-lg p-3 space-y-2">
+               <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-bold text-slate-200 whitespace-nowrap">{ANALYSIS_KIND_LABELS[kind]}</span>
+                  <input
+                     type="text"
+                     list="generation-model-suggestions"
+                     value={settings[kind].model}
+                     onChange={(e) => updateField(kind, { model: e.target.value })}
+                     className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded-lg px-2 py-1.5 text-white text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+                     placeholder={defaultModel}
+                  />
+               </div>
+               <div className="grid grid-cols-3 gap-2">
+                  <label className="text-[10px] text-slate-500 space-y-1">
+                     <span>온도 (0~2)</span>
+                     <input type="number" min={0} max={2} step={0.1} value={settings[kind].temperature ?? ''} onChange={(e) => updateNumber(kind, 'temperature', e.target.value)} className={numberInputClass} placeholder="기본" />
+                  </label>
+                  <label className="text-[10px] text-slate-500 space-y-1">
+                     <span>최대 출력 토큰</span>
+                     <input type="number" min={1} step={256} value={settings[kind].maxOutputTokens ?? ''} onChange={(e) => updateNumber(kind, 'maxOutputTokens', e.target.value)} className={numberInputClass} placeholder="기본" />
+                  </label>
+                  <label className="text-[10px] text-slate-500 space-y-1">
+                     <span>사고 예산 (-1 자동)</span>
+                     <input type="number" min={-1} step={256} value={settings[kind].thinkingBudget ?? ''} onChange={(e) => updateNumber(kind, 'thinkingBudget', e.target.value)} className={numberInputClass} placeholder="기본" />
+                  </label>
+               </div>
+            </div>
+         ))}
+
+         {saved && (
+            <div className="text-green-400 text-xs flex items-center gap-1"><CheckCircle size={12}/> 저장되었습니다.</div>
+         )}
+
+         <button
+            type="button"
+            onClick={handleSave}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg py-2 text-sm font-bold"
+         >
+            모델 설정 저장
+         </button>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationSettingsPanel;
@@ -0,0 +1,40 @@
+import React from 'react';
+
+interface Props {
+  label: string;
+  value: string; // Formatted reading shown under the arc
+  ratio: number; // 0 to 1, how far the arc is filled
+  hint: string;
+  higherIsBetter?: boolean; // Concentration metrics read as bad when high, so they default to false
+}
+
+const RADIUS = 40;
+const ARC_LENGTH = Math.PI * RADIUS;
+
+// Semicircle gauge for a single market metric, coloured green/yellow/red by thirds
+const MetricGauge: React.FC<Props> = ({ label, value, ratio, hint, higherIsBetter = false }) => {
+  const filled = Math.min(1, Math.max(0, ratio));
+  const goodness = higherIsBetter ? filled : 1 - filled;
+  const color = goodness >= 0.66 ? '#34d399' : goodness >= 0.33 ? '#facc15' : '#f87171';
+
+  return (
+    <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 text-center" title={hint}>
+      <svg viewBox="0 0 100 56" className="w-full max-w-[120px] mx-auto">
+        <path d="M 10 50 A 40 40 0 0 1 90 50" fill="none" stroke="#334155" strokeWidth="8" strokeLinecap="round" />
+        <path
+          d="M 10 50 A 40 40 0 0 1 90 50"
+          fill="none"
+          stroke={color}
+          strokeWidth="8"
+          strokeLinecap="round"
+          strokeDasharray={`${filled * ARC_LENGTH} ${ARC_LENGTH}`}
+        />
+      </svg>
+      <div className="text-lg font-bold text-white -mt-1">{value}</div>
+      <div className="text-xs font-bold text-slate-400 mt-0.5">{label}</div>
+      <div className="text-[10px] text-slate-500 mt-0.5">{hint}</div>
+    </div>
+  );
+};
+
+export default MetricGauge;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { ListOrdered, X, Loader2, AlertTriangle, Copy, Download, RefreshCw, Megaphone, Image, Scissors, Zap } from 'lucide-react';
+import { YouTubeVideo, VideoOutline } from '../types';
+import { generateVideoOutline } from '../services/geminiService';
+import { isAbortError } from '../services/requestExecutor';
+import { useAbortController } from '../hooks/useAbortController';
+import DefaultedFieldsNotice from './DefaultedFieldsNotice';
+import { downloadMarkdown, formatOutlineToMarkdown, formatPromptVersions } from '../utils';
+
+interface Props {
+  title: string;
+  reference?: YouTubeVideo; // Set when planning from a video in the lists rather than a suggested title
+  benchmarkVideos: YouTubeVideo[]; // Top performers whose structure the outline follows
+  onClose: () => void;
+}
+
+// Generates a production outline as soon as it opens; closing cancels a request still in flight
+const OutlineModal: React.FC<Props> = ({ title, reference, benchmarkVideos, onClose }) => {
+  const [outline, setOutline] = useState<VideoOutline | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const task = useAbortController();
+
+  const generate = async () => {
+    const controller = task.start();
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await generateVideoOutline(title, benchmarkVideos, { reference, signal: controller.signal });
+      if (task.isCurrent(controller)) setOutline(result);
+    } catch (err) {
+      if (!isAbortError(err) && task.isCurrent(controller)) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (task.isCurrent(controller)) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    generate();
+  }, []);
+
+  const handleCopy = () => {
+    if (!outline) return;
+    navigator.clipboard.writeText(formatOutlineToMarkdown(outline));
+    alert('기획안이 Markdown으로 복사되었습니다.');
+  };
+
+  const handleDownload = () => {
+    if (!outline) return;
+    downloadMarkdown(formatOutlineToMarkdown(outline), `${outline.title.slice(0, 40)}_outline`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-3xl w-full p-6 relative max-h-[90vh] overflow-y-auto custom-scrollbar">
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-white">
+          <X size={24} />
+        </button>
+
+        <div className="flex items-center gap-3 mb-1 pr-8">
+          <ListOrdered className="text-teal-400 shrink-0" size={24} />
+          <h2 className="text-xl font-bold text-white leading-snug">{outline?.title || title}</h2>
+        </div>
+        <p className="text-xs text-slate-400 mb-5 ml-9">
+          {reference ? `참고 영상: ${reference.title}` : '추천 제목으로 만든 영상 기획안'}
+          {outline?.model && ` · 생성 모델: ${outline.model}`}
+          {outline?.promptVersions && ` · 프롬프트: ${formatPromptVersions(outline.promptVersions)}`}
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-500/10 border border-red-500/30 rounded-lg px-4 py-3 text-sm text-red-300 flex items-center gap-2">
+            <AlertTriangle size={16} className="shrink-0" /> {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex flex-col items-center justify-center py-16 gap-4 text-slate-400">
+            <Loader2 size={32} className="animate-spin text-teal-400" />
+            <p className="text-sm">상위 영상 패턴을 바탕으로 기획안을 작성하고 있습니다...</p>
+            <button onClick={onClose} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-white flex items-center gap-2 transition-colors">
+              <X size={14} /> 취소
+            </button>
+          </div>
+        ) : outline && (
+          <div className="space-y-5 animate-fade-in">
+            <DefaultedFieldsNotice fields={outline.defaultedFields} />
+
+            <div className="bg-slate-900/50 p-5 rounded-xl border-l-4 border-teal-500">
+              <h4 className="font-bold text-teal-300 mb-2 flex items-center gap-2"><Zap size={16} /> 첫 15초 훅</h4>
+              <p className="text-slate-300 text-sm leading-relaxed whitespace-pre-wrap">{outline.hook}</p>
+            </div>
+
+            <div className="bg-slate-900/50 p-5 rounded-xl border border-slate-700/50">
+              <h4 className="font-bold text-slate-200 mb-3 flex items-center gap-2"><ListOrdered size={16} /> 챕터 구성</h4>
+              <ol className="space-y-3">
+                {(outline.chapters || []).map((chapter, i) => (
+                  <li key={i} className="flex gap-3 text-sm">
+                    <span className="font-mono text-teal-400 w-12 shrink-0">{chapter.timestamp}</span>
+                    <div>
+                      <div className="font-bold text-slate-200">{chapter.title}</div>
+                      <p className="text-slate-400 mt-0.5">{chapter.summary}</p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="bg-slate-900/50 p-5 rounded-xl border border-slate-700/50">
+                <h4 className="font-bold text-purple-300 mb-3 flex items-center gap-2"><Megaphone size={16} /> CTA 배치</h4>
+                <ul className="space-y-2">
+                  {(outline.ctas || []).map((cta, i) => (
+                    <li key={i} className="flex gap-3 text-sm">
+                      <span className="font-mono text-purple-400 w-12 shrink-0">{cta.timestamp}</span>
+                      <span className="text-slate-300">{cta.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div className="bg-slate-900/50 p-5 rounded-xl border border-slate-700/50">
+                <h4 className="font-bold text-yellow-300 mb-3 flex items-center gap-2"><Image size={16} /> 썸네일 문구</h4>
+                <ul className="space-y-2">
+                  {(outline.thumbnailText || []).map((text, i) => (
+                    <li key={i} className="text-sm text-slate-200 bg-slate-800/60 px-3 py-2 rounded-lg font-bold">{text}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+
+            <div className="bg-slate-900/50 p-5 rounded-xl border border-slate-700/50">
+              <h4 className="font-bold text-red-300 mb-2 flex items-center gap-2"><Scissors size={16} /> 쇼츠 아이디어</h4>
+              <p className="text-slate-300 text-sm leading-relaxed">{outline.shortsIdea}</p>
+            </div>
+          </div>
+        )}
+
+        {!loading && (
+          <div className="flex gap-2 mt-6 pt-4 border-t border-slate-700">
+            <button onClick={generate} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm flex items-center gap-2">
+              <RefreshCw size={14} /> 다시 생성
+            </button>
+            <button onClick={handleCopy} disabled={!outline} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm flex items-center gap-2 disabled:opacity-50 ml-auto">
+              <Copy size={14} /> 복사
+            </button>
+            <button onClick={handleDownload} disabled={!outline} className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+              <Download size={14} /> Markdown 다운로드
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutlineModal;
@@ -0,0 +1,47 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge } from 'lucide-react';
+import { getQuotaUsage, getQuotaBudget, subscribeQuota } from '../services/quotaService';
+
+interface Props {
+  onClick?: () => void;
+}
+
+const QuotaMeter: React.FC<Props> = ({ onClick }) => {
+  const [usage, setUsage] = useState(getQuotaUsage);
+  const [budget, setBudget] = useState(getQuotaBudget);
+
+  useEffect(() => {
+    return subscribeQuota(() => {
+      setUsage(getQuotaUsage());
+      setBudget(getQuotaBudget());
+    });
+  }, []);
+
+  const ratio = budget.limit > 0 ? usage.used / budget.limit : 0;
+  const barColor = ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-green-500';
+  const breakdown = Object.entries(usage.byEndpoint)
+    .map(([endpoint, units]) => `${endpoint}: ${units}`)
+    .join('\n');
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={breakdown ? `엔드포인트별 사용량\n${breakdown}` : '오늘 사용량 없음'}
+      className="w-full text-left bg-slate-900/50 hover:bg-slate-900 border border-slate-700 rounded-lg p-3 transition-colors"
+    >
+      <div className="flex justify-between items-center text-xs mb-2">
+        <span className="text-slate-400 flex items-center gap-1"><Gauge size={12} /> YouTube 할당량</span>
+        <span className="font-mono text-slate-300">{usage.used.toLocaleString()} / {budget.limit.toLocaleString()}</span>
+      </div>
+      <div className="w-full h-1.5 bg-slate-700 rounded-full overflow-hidden">
+        <div className={`h-full rounded-full ${barColor}`} style={{ width: `${Math.min(100, ratio * 100)}%` }}></div>
+      </div>
+      <div className="text-[10px] text-slate-500 mt-1.5">
+        {budget.mode === 'block' ? '예산 초과 시 차단' : '예산 초과 시 경고'} · 태평양 시간 자정 초기화
+      </div>
+    </button>
+  );
+};
+
+export default QuotaMeter;
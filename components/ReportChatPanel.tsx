@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MessageSquare, Send, X, AlertTriangle, Trash2, User, Bot } from 'lucide-react';
+import { AnalysisReport, YouTubeVideo, ChatMessage } from '../types';
+import { askAboutReport } from '../services/geminiService';
+import { isAbortError } from '../services/requestExecutor';
+import { useAbortController } from '../hooks/useAbortController';
+
+interface Props {
+  subject: string; // Channel title or search keyword the report is about
+  report: AnalysisReport;
+  videos: YouTubeVideo[];
+  suggestions: string[]; // Starter questions shown while the conversation is empty
+  exportFormats: string; // Formats the host view exports the report (and so the chat) in, e.g. "JSON·TXT"
+  onChange: (chat: ChatMessage[]) => void;
+}
+
+// Multi-turn follow-up questions about a finished report. A question and its answer are added to
+// the report together, so a cancelled or failed turn never leaves an unanswered question in the history.
+const ReportChatPanel: React.FC<Props> = ({ subject, report, videos, suggestions, exportFormats, onChange }) => {
+  const [input, setInput] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [streamedAnswer, setStreamedAnswer] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const task = useAbortController();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const history = report.chat || [];
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [history.length, pendingQuestion, streamedAnswer]);
+
+  const handleSend = async (text: string) => {
+    const question = text.trim();
+    if (!question || pendingQuestion) return;
+    const controller = task.start();
+    setPendingQuestion(question);
+    setStreamedAnswer('');
+    setError(null);
+    setInput('');
+    try {
+      const asked: ChatMessage = { role: 'user', content: question, createdAt: new Date().toISOString() };
+      const answer = await askAboutReport(subject, report, videos, history, question, {
+        signal: controller.signal,
+        onText: text => task.isCurrent(controller) && setStreamedAnswer(text),
+      });
+      if (task.isCurrent(controller)) onChange([...history, asked, answer]);
+    } catch (err) {
+      if (isAbortError(err) || !task.isCurrent(controller)) return;
+      setError(err instanceof Error ? err.message : String(err));
+      setInput(question);
+    } finally {
+      if (task.isCurrent(controller)) {
+        setPendingQuestion(null);
+        setStreamedAnswer('');
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    task.abort();
+    setInput(pendingQuestion || '');
+    setPendingQuestion(null);
+    setStreamedAnswer('');
+  };
+
+  const handleClear = () => {
+    if (!confirm('대화 기록을 모두 지울까요?')) return;
+    onChange([]);
+  };
+
+  const renderMessage = (role: ChatMessage['role'], content: string, key: React.Key, model?: string) => (
+    <div key={key} className={`flex gap-3 ${role === 'user' ? 'flex-row-reverse' : ''}`}>
+      <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${role === 'user' ? 'bg-blue-600' : 'bg-purple-600'}`}>
+        {role === 'user' ? <User size={16} /> : <Bot size={16} />}
+      </div>
+      <div className={`max-w-[80%] px-4 py-3 rounded-xl text-sm leading-relaxed whitespace-pre-wrap ${role === 'user' ? 'bg-blue-600/20 border border-blue-500/30 text-blue-100' : 'bg-slate-900/60 border border-slate-700/50 text-slate-200'}`}>
+        {content}
+        {model && <div className="text-[10px] text-slate-500 mt-2">{model}</div>}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-800 rounded-2xl border border-slate-700 p-6 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2 text-white">
+            <MessageSquare className="text-blue-400" size={20} /> 리포트에 질문하기
+          </h3>
+          <p className="text-xs text-slate-400 mt-1">리포트와 영상 목록을 근거로 이어서 답변합니다. 대화는 리포트와 함께 저장되어 {exportFormats}로 내보내집니다.</p>
+        </div>
+        <button
+          onClick={handleClear}
+          disabled={history.length === 0 || !!pendingQuestion}
+          className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg text-xs text-slate-300 flex items-center gap-1 transition-colors disabled:opacity-50 shrink-0"
+        >
+          <Trash2 size={12} /> 대화 지우기
+        </button>
+      </div>
+
+      {(history.length > 0 || pendingQuestion) && (
+        <div ref={scrollRef} className="space-y-4 max-h-[480px] overflow-y-auto custom-scrollbar pr-1">
+          {history.map((message, i) => renderMessage(message.role, message.content, i, message.model))}
+          {pendingQuestion && renderMessage('user', pendingQuestion, 'pending-question')}
+          {pendingQuestion && renderMessage('assistant', streamedAnswer || '답변을 작성하고 있습니다...', 'pending-answer')}
+        </div>
+      )}
+
+      {history.length === 0 && !pendingQuestion && (
+        <div className="flex flex-wrap gap-2">
+          {suggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => handleSend(suggestion)}
+              className="px-3 py-1.5 bg-slate-900/60 hover:bg-slate-700 border border-slate-700 rounded-full text-xs text-slate-300 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-lg px-4 py-3 text-sm text-red-300 flex items-center gap-2">
+          <AlertTriangle size={16} className="shrink-0" /> {error}
+        </div>
+      )}
+
+      <div className="flex gap-2 items-end">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              handleSend(input);
+            }
+          }}
+          rows={2}
+          placeholder="예: 중기에 조회수가 떨어진 이유는? (Shift+Enter로 줄바꿈)"
+          className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none resize-none custom-scrollbar"
+        />
+        {pendingQuestion ? (
+          <button onClick={handleCancel} className="px-4 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-white flex items-center gap-2 transition-colors">
+            <X size={16} /> 취소
+          </button>
+        ) : (
+          <button
+            onClick={() => handleSend(input)}
+            disabled={!input.trim()}
+            className="px-4 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-bold text-white flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <Send size={16} /> 질문
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportChatPanel;
@@ -0,0 +1,26 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { subscribeRetries, RetryStatus } from '../services/requestExecutor';
+
+// Shows while any YouTube or AI request is backing off before another attempt
+const RetryIndicator: React.FC = () => {
+  const [retries, setRetries] = useState<RetryStatus[]>([]);
+
+  useEffect(() => subscribeRetries(setRetries), []);
+
+  if (!retries.length) return null;
+  const latest = retries[retries.length - 1];
+
+  return (
+    <div className="bg-yellow-900/20 border border-yellow-500/30 text-yellow-300 text-sm px-4 py-2 rounded-lg flex items-center gap-2 animate-fade-in">
+      <RefreshCw size={14} className="animate-spin shrink-0" />
+      <span>
+        {latest.executor} 요청이 일시적으로 실패하여 재시도 중입니다 ({latest.attempt}/{latest.maxAttempts})…
+        <span className="text-yellow-500/70 ml-1">{Math.ceil(latest.delayMs / 1000)}초 후</span>
+      </span>
+      {retries.length > 1 && <span className="text-xs text-yellow-500/70 ml-auto">외 {retries.length - 1}건</span>}
+    </div>
+  );
+};
+
+export default RetryIndicator;
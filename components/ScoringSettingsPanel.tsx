@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, Save, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { ScoreNormalization, ScoringPreset, ScoringWeights } from '../types';
+import {
+  NORMALIZATION_LABELS,
+  getScoringPresets,
+  saveScoringPreset,
+  deleteScoringPreset,
+  setActiveScoring,
+  isBuiltInPreset,
+  describeScoringFormula,
+} from '../services/popularityScore';
+
+interface Props {
+  scoring: ScoringPreset;
+  onChange: (scoring: ScoringPreset) => void;
+}
+
+const WEIGHT_FIELDS: { key: keyof ScoringWeights; label: string }[] = [
+  { key: 'views', label: '조회수' },
+  { key: 'likes', label: '좋아요' },
+  { key: 'comments', label: '댓글' },
+];
+
+const sameSetup = (a: ScoringPreset, b: ScoringPreset) =>
+  a.normalization === b.normalization &&
+  a.ageAdjusted === b.ageAdjusted &&
+  WEIGHT_FIELDS.every(({ key }) => a.weights[key] === b.weights[key]);
+
+// Popularity score formula with preset picker and tuning controls. Every change becomes the active
+// setup for all views; saving keeps it as a named preset.
+const ScoringSettingsPanel: React.FC<Props> = ({ scoring, onChange }) => {
+  const [presets, setPresets] = useState<ScoringPreset[]>(getScoringPresets);
+  const [open, setOpen] = useState(false);
+
+  const selected = presets.find(p => p.name === scoring.name && sameSetup(p, scoring));
+
+  const apply = (next: ScoringPreset) => {
+    setActiveScoring(next);
+    onChange(next);
+  };
+
+  const updateWeight = (key: keyof ScoringWeights, value: number) => {
+    apply({ ...scoring, weights: { ...scoring.weights, [key]: value } });
+  };
+
+  const handleSave = () => {
+    const name = prompt('프리셋 이름을 입력하세요.', selected && !isBuiltInPreset(selected.name) ? selected.name : '')?.trim();
+    if (!name) return;
+    try {
+      const next = { ...scoring, name };
+      setPresets(saveScoringPreset(next));
+      apply(next);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected || !confirm(`'${selected.name}' 프리셋을 삭제할까요?`)) return;
+    setPresets(deleteScoringPreset(selected.name));
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-700/50 px-4 py-3 text-xs">
+      <div className="flex items-start gap-3">
+        <SlidersHorizontal size={14} className="text-red-400 mt-0.5 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="text-slate-300 font-bold">{selected ? selected.name : '사용자 설정 (저장 안 됨)'}</div>
+          <div className="text-slate-500 font-mono mt-0.5 break-words">{describeScoringFormula(scoring)}</div>
+        </div>
+        <button onClick={() => setOpen(prev => !prev)} className="text-slate-400 hover:text-white flex items-center gap-1 whitespace-nowrap transition-colors">
+          점수 설정 {open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 pt-3 border-t border-slate-700/50 grid grid-cols-1 md:grid-cols-3 gap-4 animate-fade-in">
+          <div className="space-y-2">
+            <label className="block text-slate-500 space-y-1">
+              <span>프리셋</span>
+              <select
+                value={selected?.name || ''}
+                onChange={(e) => {
+                  const preset = presets.find(p => p.name === e.target.value);
+                  if (preset) apply(preset);
+                }}
+                className="w-full bg-slate-800 border border-slate-600 rounded-lg px-2 py-1.5 text-white outline-none focus:ring-2 focus:ring-red-500"
+              >
+                {!selected && <option value="">사용자 설정</option>}
+                {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+              </select>
+            </label>
+            <div className="flex gap-2">
+              <button onClick={handleSave} className="flex-1 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-200 flex items-center justify-center gap-1 transition-colors">
+                <Save size={12} /> 프리셋으로 저장
+              </button>
+              {selected && !isBuiltInPreset(selected.name) && (
+                <button onClick={handleDelete} className="px-2 py-1.5 bg-slate-700 hover:bg-red-900/50 rounded-lg text-slate-400 hover:text-red-300 transition-colors" title="프리셋 삭제">
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-slate-500 space-y-1">
+              <span>정규화 방식</span>
+              <select
+                value={scoring.normalization}
+                onChange={(e) => apply({ ...scoring, normalization: e.target.value as ScoreNormalization })}
+                className="w-full bg-slate-800 border border-slate-600 rounded-lg px-2 py-1.5 text-white outline-none focus:ring-2 focus:ring-red-500"
+              >
+                {(Object.keys(NORMALIZATION_LABELS) as ScoreNormalization[]).map(method => (
+                  <option key={method} value={method}>{NORMALIZATION_LABELS[method]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-slate-300 cursor-pointer select-none" title="업로드 후 지난 일수로 나눠 오래된 영상이 누적 수치만으로 이기지 않게 합니다">
+              <input type="checkbox" checked={scoring.ageAdjusted} onChange={(e) => apply({ ...scoring, ageAdjusted: e.target.checked })} className="accent-red-500" />
+              일평균으로 환산 (업로드 기간 보정)
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            {WEIGHT_FIELDS.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 text-slate-400">
+                <span className="w-12 shrink-0">{label}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={scoring.weights[key]}
+                  onChange={(e) => updateWeight(key, Number(e.target.value))}
+                  className="flex-1 accent-red-500"
+                />
+                <span className="w-8 text-right font-mono text-slate-200">{scoring.weights[key]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoringSettingsPanel;
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Image, Loader2, X, AlertTriangle, Type, Smile, Palette, LayoutGrid, CheckSquare } from 'lucide-react';
+import { YouTubeVideo, ThumbnailReport, ThumbnailFinding } from '../types';
+import { analyzeThumbnails } from '../services/geminiService';
+import { isAbortError } from '../services/requestExecutor';
+import { useAbortController } from '../hooks/useAbortController';
+import DefaultedFieldsNotice from './DefaultedFieldsNotice';
+import { formatNumber, formatPromptVersions } from '../utils';
+
+interface Props {
+  subject: string; // Channel title or search keyword, used in the prompt and the usage log
+  videos: YouTubeVideo[];
+  result?: ThumbnailReport;
+  onResult: (result: ThumbnailReport) => void;
+}
+
+const SAMPLE_SIZES = [3, 5, 8];
+
+const FINDINGS: { key: 'textOverlay' | 'faces' | 'colorPalette' | 'composition'; title: string; icon: React.ReactNode }[] = [
+  { key: 'textOverlay', title: '텍스트 오버레이', icon: <Type size={16} /> },
+  { key: 'faces', title: '얼굴 · 표정', icon: <Smile size={16} /> },
+  { key: 'colorPalette', title: '색감', icon: <Palette size={16} /> },
+  { key: 'composition', title: '구도', icon: <LayoutGrid size={16} /> },
+];
+
+// On-demand vision pass over the best and worst performing thumbnails, shown under a report
+const ThumbnailAnalysisSection: React.FC<Props> = ({ subject, videos, result, onResult }) => {
+  const [sampleSize, setSampleSize] = useState(5);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const task = useAbortController();
+
+  const videoById = new Map<string, YouTubeVideo>(videos.map(v => [v.id, v]));
+
+  const handleRun = async () => {
+    const controller = task.start();
+    setRunning(true);
+    setError(null);
+    try {
+      onResult(await analyzeThumbnails(subject, videos, { sampleSize, signal: controller.signal }));
+    } catch (err) {
+      if (!isAbortError(err) && task.isCurrent(controller)) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (task.isCurrent(controller)) setRunning(false);
+    }
+  };
+
+  const handleCancel = () => {
+    task.abort();
+    setRunning(false);
+  };
+
+  const renderStrip = (label: string, ids: string[] | undefined, accent: string) => (
+    <div>
+      <div className={`text-xs font-bold mb-2 ${accent}`}>{label}</div>
+      <div className="flex gap-2 overflow-x-auto pb-1 custom-scrollbar">
+        {(ids || []).map(id => {
+          const video = videoById.get(id);
+          if (!video) return null;
+          return (
+            <a key={id} href={`https://www.youtube.com/watch?v=${id}`} target="_blank" rel="noreferrer" className="shrink-0 w-32" title={video.title}>
+              <img src={video.thumbnail} alt="" className="w-32 aspect-video object-cover rounded-md border border-slate-700" />
+              <div className="text-[10px] text-slate-400 mt-1">{formatNumber(video.viewCount)}회</div>
+            </a>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const renderFinding = (title: string, icon: React.ReactNode, finding?: ThumbnailFinding) => (
+    <div key={title} className="bg-slate-900/50 p-5 rounded-xl border border-slate-700/50">
+      <h4 className="font-bold text-slate-200 mb-3 flex items-center gap-2">{icon} {title}</h4>
+      <div className="space-y-3 text-sm">
+        <div>
+          <span className="text-green-400 font-bold text-xs block mb-1">TOP</span>
+          <p className="text-slate-300">{finding?.topPattern}</p>
+        </div>
+        <div>
+          <span className="text-red-400 font-bold text-xs block mb-1">BOTTOM</span>
+          <p className="text-slate-400">{finding?.bottomPattern}</p>
+        </div>
+        <div>
+          <span className="text-blue-400 font-bold text-xs block mb-1">조회수와의 관계</span>
+          <p className="text-slate-300">{finding?.viewImpact}</p>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-800 rounded-2xl border border-slate-700 p-6 space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2 text-white">
+            <Image className="text-pink-400" size={20} /> 썸네일 비전 분석
+          </h3>
+          <p className="text-xs text-slate-400 mt-1">
+            조회수 상위·하위 영상의 썸네일을 이미지 입력이 가능한 AI 모델에 보내 비교합니다.
+            {result?.model && ` · 생성 모델: ${result.model}`}
+            {result?.promptVersions && ` · 프롬프트: ${formatPromptVersions(result.promptVersions)}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={sampleSize}
+            onChange={(e) => setSampleSize(Number(e.target.value))}
+            disabled={running}
+            className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-1.5 text-xs text-white outline-none"
+          >
+            {SAMPLE_SIZES.map(size => <option key={size} value={size}>상위·하위 각 {size}개</option>)}
+          </select>
+          {running ? (
+            <button onClick={handleCancel} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg text-xs text-white flex items-center gap-1 transition-colors">
+              <X size={12} /> 취소
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={videos.length < 2}
+              className="px-3 py-1.5 bg-pink-600 hover:bg-pink-700 rounded-lg text-xs font-bold text-white flex items-center gap-1 transition-colors disabled:opacity-50"
+            >
+              <Image size={12} /> {result ? '다시 분석' : '썸네일 분석'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-lg px-4 py-3 text-sm text-red-300 flex items-center gap-2">
+          <AlertTriangle size={16} className="shrink-0" /> {error}
+        </div>
+      )}
+
+      {running ? (
+        <div className="flex items-center justify-center gap-2 py-10 text-slate-400 text-sm">
+          <Loader2 size={18} className="animate-spin" /> 썸네일을 불러와 분석하고 있습니다...
+        </div>
+      ) : result && (
+        <div className="space-y-5 animate-fade-in">
+          <DefaultedFieldsNotice fields={result.defaultedFields} />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderStrip('조회수 상위', result.topVideoIds, 'text-green-400')}
+            {renderStrip('조회수 하위', result.bottomVideoIds, 'text-red-400')}
+          </div>
+          <div className="bg-slate-900/50 p-5 rounded-xl border border-slate-700/50">
+            <h4 className="font-bold text-pink-300 mb-2">🖼️ 핵심 차이</h4>
+            <p className="text-slate-300 text-sm leading-relaxed">{result.summary}</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {FINDINGS.map(({ key, title, icon }) => renderFinding(title, icon, result[key]))}
+          </div>
+          <div className="bg-slate-900/50 p-5 rounded-xl border border-slate-700/50">
+            <h4 className="font-bold text-yellow-400 mb-3">다음 썸네일 개선안</h4>
+            <ul className="space-y-2">
+              {(result.recommendations || []).map((item, i) => (
+                <li key={i} className="flex gap-2 text-sm text-slate-300 items-start">
+                  <CheckSquare size={14} className="mt-0.5 text-yellow-600 shrink-0" />
+                  <span>{item}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThumbnailAnalysisSection;
@@ -0,0 +1,68 @@
+import React, { useState, useRef } from 'react';
+import { Captions, X } from 'lucide-react';
+import { VideoTranscript } from '../types';
+import { getTranscript, importTranscript, removeTranscript, formatTimestamp } from '../services/transcriptService';
+
+interface Props {
+  videoId: string;
+  onChange: (transcript: VideoTranscript | null) => void; // After a file was attached or removed
+}
+
+// Attaches an .srt or .vtt file to a video card so its summary is based on what is actually said
+const TranscriptImportButton: React.FC<Props> = ({ videoId, onChange }) => {
+  const [transcript, setTranscript] = useState<VideoTranscript | null>(() => getTranscript(videoId));
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importTranscript(videoId, file);
+      setTranscript(imported);
+      onChange(imported);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRemove = () => {
+    if (!confirm('첨부한 자막을 삭제할까요?')) return;
+    try {
+      removeTranscript(videoId);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    setTranscript(null);
+    onChange(null);
+  };
+
+  const lastSegment = transcript?.segments[transcript.segments.length - 1];
+
+  return (
+    <>
+      <input ref={inputRef} type="file" accept=".srt,.vtt" className="hidden" onChange={handleFile} />
+      {transcript ? (
+        <div className="flex items-center gap-1 text-[11px] text-emerald-300 bg-emerald-900/20 border border-emerald-700/40 rounded-lg px-2 py-1.5" title={transcript.fileName}>
+          <Captions size={12} className="shrink-0" />
+          <span className="truncate flex-1">자막 {transcript.segments.length}구간 · {formatTimestamp(lastSegment?.end || 0)}</span>
+          <button onClick={() => inputRef.current?.click()} className="text-emerald-400 hover:text-white shrink-0">교체</button>
+          <button onClick={handleRemove} className="text-slate-500 hover:text-red-400 shrink-0" title="자막 삭제">
+            <X size={12} />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="w-full text-xs py-1.5 bg-slate-700/50 hover:bg-slate-600 rounded-lg text-slate-400 hover:text-slate-200 flex items-center justify-center gap-1 transition-colors"
+          title="SRT 또는 VTT 자막을 첨부하면 실제 내용을 바탕으로 요약합니다"
+        >
+          <Captions size={12} /> 자막 첨부 (SRT/VTT)
+        </button>
+      )}
+    </>
+  );
+};
+
+export default TranscriptImportButton;
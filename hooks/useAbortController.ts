@@ -0,0 +1,29 @@
+import { useRef, useEffect, useCallback } from 'react';
+
+// One cancellable task slot per view. start() aborts whatever was running and hands out a
+// fresh controller; the in-flight task is also aborted when the view unmounts.
+export const useAbortController = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current;
+  }, []);
+
+  // Reuses the running controller so several concurrent tasks (e.g. per-video summaries)
+  // share one slot and are cancelled together
+  const ensure = useCallback(() => controllerRef.current ?? start(), [start]);
+
+  const abort = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  // False once a newer task replaced this one, so stale results can be dropped
+  const isCurrent = useCallback((controller: AbortController) => controllerRef.current === controller, []);
+
+  return { start, ensure, abort, isCurrent };
+};
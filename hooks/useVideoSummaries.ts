@@ -0,0 +1,121 @@
+import { useState, useEffect, useRef } from 'react';
+import { YouTubeVideo } from '../types';
+import { summarizeVideo, getCachedSummaries } from '../services/geminiService';
+import { isAbortError } from '../services/requestExecutor';
+import { useAbortController } from './useAbortController';
+
+export interface BulkSummaryProgress {
+  done: number; // Finished so far, including failures
+  failed: number;
+  total: number;
+  running: boolean;
+}
+
+// Videos summarized at once by a bulk run. The AI executor caps concurrency across the app as
+// well, so this mostly keeps a long run from crowding out other requests.
+const BULK_SUMMARY_CONCURRENCY = 2;
+
+// Per-video AI summaries for a list view. Cached summaries from earlier sessions are restored as
+// soon as the list arrives; single and bulk requests share one task slot so reset() stops both.
+export const useVideoSummaries = (videos: YouTubeVideo[]) => {
+  const [summaries, setSummaries] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState<Record<string, boolean>>({});
+  const [progress, setProgress] = useState<BulkSummaryProgress | null>(null);
+  const task = useAbortController();
+  const bulkQueuedIds = useRef<string[]>([]); // Flagged by the running bulk run, cleared on cancel
+
+  const videoIds = videos.map(v => v.id).join(',');
+  useEffect(() => {
+    if (!videoIds) return;
+    let cancelled = false;
+    getCachedSummaries(videoIds.split(',')).then(cached => {
+      if (!cancelled) setSummaries(prev => ({ ...cached, ...prev }));
+    });
+    return () => { cancelled = true; };
+  }, [videoIds]);
+
+  const setLoadingFor = (ids: string[], value: boolean) => {
+    setLoading(prev => ({ ...prev, ...Object.fromEntries(ids.map(id => [id, value])) }));
+  };
+
+  // force replaces an existing summary, e.g. after subtitles were attached to the video
+  const summarize = async (video: YouTubeVideo, force = false) => {
+    if ((!force && summaries[video.id]) || loading[video.id]) return;
+
+    const { signal } = task.ensure();
+    if (force) forget(video.id);
+    setLoadingFor([video.id], true);
+    try {
+      const summary = await summarizeVideo(video, { signal });
+      setSummaries(prev => ({ ...prev, [video.id]: summary }));
+    } catch (e) {
+      if (!isAbortError(e)) alert('요약 생성 실패');
+    } finally {
+      setLoadingFor([video.id], false);
+    }
+  };
+
+  // Queues every target without a summary and works through it with a fixed number of workers
+  const summarizeAll = async (targets: YouTubeVideo[]) => {
+    if (progress?.running) return;
+    const queue = targets.filter(v => !summaries[v.id] && !loading[v.id]);
+    if (queue.length === 0) return;
+
+    const controller = task.ensure();
+    const queuedIds = queue.map(v => v.id);
+    bulkQueuedIds.current = queuedIds;
+    setLoadingFor(queuedIds, true);
+    setProgress({ done: 0, failed: 0, total: queue.length, running: true });
+
+    const worker = async () => {
+      for (let video = queue.shift(); video && !controller.signal.aborted; video = queue.shift()) {
+        const id = video.id;
+        try {
+          const summary = await summarizeVideo(video, { signal: controller.signal });
+          setSummaries(prev => ({ ...prev, [id]: summary }));
+          setProgress(prev => prev && { ...prev, done: prev.done + 1 });
+        } catch (e) {
+          if (isAbortError(e)) return;
+          setProgress(prev => prev && { ...prev, done: prev.done + 1, failed: prev.failed + 1 });
+        } finally {
+          // A cancelled run's flags were cleared by cancel(); a newer run may own them by now
+          if (task.isCurrent(controller)) setLoadingFor([id], false);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: BULK_SUMMARY_CONCURRENCY }, worker));
+
+    if (task.isCurrent(controller)) {
+      setLoadingFor(queuedIds, false);
+      setProgress(prev => prev && { ...prev, running: false });
+      bulkQueuedIds.current = [];
+    }
+  };
+
+  // Drops one video's summary so its card offers summarizing again
+  const forget = (videoId: string) => {
+    setSummaries(prev => {
+      const { [videoId]: removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Clears the cancelled run's flags right away so a new run can queue those videos again
+  const cancel = () => {
+    task.abort();
+    setLoadingFor(bulkQueuedIds.current, false);
+    bulkQueuedIds.current = [];
+    setProgress(prev => prev && { ...prev, running: false });
+  };
+
+  // Drops everything for a new list; cached summaries come back through the effect above
+  const reset = () => {
+    task.abort();
+    bulkQueuedIds.current = [];
+    setSummaries({});
+    setLoading({});
+    setProgress(null);
+  };
+
+  return { summaries, loading, progress, summarize, summarizeAll, forget, cancel, reset };
+};
@@ -0,0 +1,131 @@
+import { CacheResource, CacheStats } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Metadata that rarely changes is kept long; anything carrying view/like counts is kept short.
+// AI summaries cost a model call each and only depend on a video's title and description.
+export const CACHE_TTLS: Record<CacheResource, number> = {
+  channelMeta: 7 * DAY,
+  channelStats: 6 * HOUR,
+  playlistItems: 1 * HOUR,
+  videos: 1 * HOUR,
+  search: 6 * HOUR,
+  videoCategories: 7 * DAY,
+  videoSummaries: 30 * DAY,
+};
+
+export const CACHE_RESOURCE_LABELS: Record<CacheResource, string> = {
+  channelMeta: '채널 메타데이터',
+  channelStats: '채널 통계',
+  playlistItems: '업로드 목록',
+  videos: '영상 통계',
+  search: '검색 결과',
+  videoCategories: '카테고리',
+  videoSummaries: '영상 AI 요약',
+};
+
+const DB_NAME = 'tubestrategy-cache';
+const STORE_NAME = 'responses';
+
+interface CacheEntry {
+  key: string;
+  resource: CacheResource;
+  data: unknown;
+  storedAt: number;
+  expiresAt: number;
+  bytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('resource', 'resource');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. storage blocked in private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// The cache is an optimisation only: every failure degrades to a miss or a no-op
+export const getCached = async <T>(key: string): Promise<T | null> => {
+  try {
+    const entry = await runTransaction<CacheEntry | undefined>('readonly', store => store.get(key));
+    if (!entry || entry.expiresAt < Date.now()) return null;
+    return entry.data as T;
+  } catch (e) {
+    console.warn('Cache read failed', e);
+    return null;
+  }
+};
+
+export const setCached = async (key: string, resource: CacheResource, data: unknown): Promise<void> => {
+  try {
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key,
+      resource,
+      data,
+      storedAt: now,
+      expiresAt: now + CACHE_TTLS[resource],
+      bytes: JSON.stringify(data).length,
+    };
+    await runTransaction('readwrite', store => store.put(entry));
+  } catch (e) {
+    console.warn('Cache write failed', e);
+  }
+};
+
+export const getCacheStats = async (): Promise<CacheStats[]> => {
+  const stats = new Map<CacheResource, CacheStats>(
+    (Object.keys(CACHE_TTLS) as CacheResource[]).map(resource => [resource, { resource, count: 0, bytes: 0, oldestAt: null }])
+  );
+  try {
+    const entries = await runTransaction<CacheEntry[]>('readonly', store => store.getAll());
+    entries.forEach(entry => {
+      const stat = stats.get(entry.resource);
+      if (!stat) return;
+      stat.count++;
+      stat.bytes += entry.bytes;
+      stat.oldestAt = stat.oldestAt === null ? entry.storedAt : Math.min(stat.oldestAt, entry.storedAt);
+    });
+  } catch (e) {
+    console.warn('Cache inspection failed', e);
+  }
+  return Array.from(stats.values());
+};
+
+// Clears one resource group, or everything when no resource is given
+export const clearCache = async (resource?: CacheResource): Promise<void> => {
+  try {
+    if (!resource) {
+      await runTransaction('readwrite', store => store.clear());
+      return;
+    }
+    const keys = await runTransaction<IDBValidKey[]>('readonly', store => store.index('resource').getAllKeys(resource));
+    await Promise.all(keys.map(key => runTransaction('readwrite', store => store.delete(key))));
+  } catch (e) {
+    console.warn('Cache clear failed', e);
+  }
+};
@@ -1,76 +1,199 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { YouTubeChannel, YouTubeVideo, AnalysisReport, OpportunityReport } from "../types";
-import { decryptKey } from "../utils";
-
-const getGenAI = () => {
-  const storedKey = localStorage.getItem('gemini_api_key');
-  if (!storedKey) {
-    throw new Error("Gemini API 키가 설정되지 않았습니다. 설정 메뉴에서 키를 등록해주세요.");
-  }
-  return new GoogleGenAI({ apiKey: decryptKey(storedKey) });
+import { Type, ApiError, Schema } from "@google/genai";
+import { YouTubeChannel, YouTubeVideo, AnalysisReport, OpportunityReport, ThumbnailReport, TitleBenchmark, TitleVariantSet, VideoOutline, ChatMessage, VideoTranscript, TranscriptAnalysis, ComparisonReport, AnalysisKind, GenerationSettings, PromptTemplateId, ReportLanguage, TokenUsage } from "../types";
+import { createRequestExecutor, isAbortError } from "./requestExecutor";
+import { getActiveTemplate, renderTemplate } from "./promptTemplates";
+import { getReportLanguage, getSchemaDescriber, LANGUAGE_DIRECTIVES } from "./reportLanguage";
+import { validateAgainstSchema, applySchemaDefaults, SchemaIssue } from "./reportValidation";
+import { recordUsage } from "./usageService";
+import { getCached, setCached } from "./cacheService";
+import { getTranscript, formatTimestamp } from "./transcriptService";
+import { parseDuration, formatTranscriptAnalysis } from "../utils";
+import { computeMarketMetrics, computeChannelMetrics } from "./marketMetrics";
+import { getActiveProvider, getGenerationSettings, validateLLMProvider, LLMProvider, LLMRequest, LLMImage, LLMHttpError, LLMStreamInterruptedError, DEFAULT_LLM_MODELS } from "./llmProviders";
+
+// Retries rate limits, server errors and dropped connections; bad requests and auth errors fail at once
+const executor = createRequestExecutor({
+  name: 'AI',
+  maxConcurrent: 2,
+  isRetryable: error => error instanceof ApiError || error instanceof LLMHttpError
+    ? error.status === 429 || error.status >= 500
+    : error instanceof TypeError,
+});
+
+export interface AIRequestOptions {
+  signal?: AbortSignal; // Aborting cancels the request and any pending retry with an AbortError
+}
+
+export interface ChannelReportOptions extends AIRequestOptions {
+  // Receives the report parsed so far and the top-level sections that are fully written
+  onPartial?: (report: Partial<AnalysisReport>, completedSections: (keyof AnalysisReport)[]) => void;
+}
+
+export interface ThumbnailAnalysisOptions extends AIRequestOptions {
+  sampleSize?: number; // Thumbnails taken from each end of the view ranking
+}
+
+export interface OutlineOptions extends AIRequestOptions {
+  reference?: YouTubeVideo; // Existing video to plan a new take on; omitted for suggested titles
+}
+
+export interface ReportChatOptions extends AIRequestOptions {
+  onText?: (text: string) => void; // Receives the answer written so far while it streams
+}
+
+interface BuiltPrompt {
+  prompt: string;
+  systemPrompt: string;
+  promptVersions: Partial<Record<PromptTemplateId, number>>;
+}
+
+// Renders the active version of a template together with the system persona, remembering both versions
+const buildPrompt = (id: PromptTemplateId, variables: Record<string, string | number>, language: ReportLanguage): BuiltPrompt => {
+  const system = getActiveTemplate('system');
+  const template = getActiveTemplate(id);
+  return {
+    prompt: renderTemplate(template.body, variables),
+    systemPrompt: `${system.body}\n\n${LANGUAGE_DIRECTIVES[language]}`,
+    promptVersions: { system: system.version, [id]: template.version },
+  };
 };
 
-const SYSTEM_INSTRUCTION = `
-당신은 세계 최고의 유튜브 전략 컨설턴트 'TubeMaster AI'입니다. 
-데이터를 기반으로 매우 구체적이고 실현 가능한 전략을 한국어로 제시해야 합니다.
-뻔한 조언(예: "꾸준히 올리세요")은 절대 금지입니다. 
-데이터에서 발견된 구체적인 패턴(성공한 썸네일 스타일, 제목 패턴, 영상 길이 등)을 바탕으로 통찰력을 제공하세요.
-`;
+// Upper bound on videos listed in the channel prompt. Deep fetches are sampled evenly over time
+// so the early uploads still reach the model instead of being truncated away.
+const MAX_PROMPT_VIDEOS = 300;
 
-export const validateGeminiApiKey = async (apiKey: string): Promise<boolean> => {
+const sampleAcrossTimeline = <T>(items: T[], limit: number): T[] => {
+  if (items.length <= limit) return items;
+  const step = (items.length - 1) / (limit - 1);
+  return Array.from({ length: limit }, (_, i) => items[Math.round(i * step)]);
+};
+
+// Per-analysis settings with the model resolved, so reports can record exactly what produced them
+const resolveGeneration = (provider: LLMProvider, kind: AnalysisKind): GenerationSettings => {
+  const generation = getGenerationSettings()[kind];
+  return { ...generation, model: generation.model.trim() || provider.model };
+};
+
+const buildRepairPrompt = (report: unknown, issues: SchemaIssue[]) => `
+    아래 JSON 응답이 요구된 스키마와 맞지 않습니다.
+
+    [문제 항목]
+    ${issues.map(issue => `- ${issue.path}: ${issue.problem}`).join('\n')}
+
+    [원본 JSON]
+    ${JSON.stringify(report)}
+
+    문제 항목만 바로잡고 나머지 내용은 그대로 유지한 전체 JSON을 다시 작성해줘.
+  `;
+
+// Validates a parsed report against its responseSchema and asks the model once to fix the listed
+// problems. Anything still invalid falls back to an empty value and is listed in defaultedFields.
+const ensureSchema = async <T extends object>(
+  provider: LLMProvider,
+  request: Omit<LLMRequest, 'prompt'>,
+  report: T,
+  schema: Schema
+): Promise<T & { defaultedFields?: string[] }> => {
+  const issues = validateAgainstSchema(report, schema);
+  if (issues.length === 0) return report;
+  console.warn("AI response failed schema validation:", issues);
+
+  let best: unknown = report;
   try {
-    const ai = new GoogleGenAI({ apiKey });
-    // 가벼운 테스트 요청
-    await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: 'ping',
-    });
-    return true;
+    const repaired = await executor.run(() => provider.generateJSON<T>({
+      ...request,
+      prompt: buildRepairPrompt(report, issues),
+      responseSchema: schema
+    }), request.signal);
+    if (validateAgainstSchema(repaired, schema).length < issues.length) best = repaired;
   } catch (error) {
-    console.error("Gemini Key Validation Error:", error);
-    return false;
+    if (isAbortError(error) || request.signal?.aborted) throw error;
+    console.error("AI repair request failed:", error);
   }
+
+  const filled: string[] = [];
+  const result = applySchemaDefaults(best, schema, '', filled) as T;
+  return filled.length > 0 ? { ...result, defaultedFields: filled } : result;
 };
 
-export const analyzeChannelGrowth = async (channel: YouTubeChannel, videos: YouTubeVideo[]): Promise<AnalysisReport> => {
-  const genAI = getGenAI();
-  const model = "gemini-2.5-flash";
+// Logs each call's token counts against the analysis type and the channel, keyword or video it was about
+const trackUsage = (provider: LLMProvider, generation: GenerationSettings, kind: AnalysisKind, subject: string) => {
+  return (usage: TokenUsage) => recordUsage({ provider: provider.id, model: generation.model, kind, subject }, usage);
+};
+
+export const validateGeminiApiKey = (apiKey: string): Promise<boolean> => {
+  return validateLLMProvider({ provider: 'gemini', endpoint: '', model: DEFAULT_LLM_MODELS.gemini }, apiKey);
+};
+
+// Keeps only evidence IDs of videos the model was actually shown; anything else was made up.
+// Also runs on streamed partials, where any section may still be missing or half-written.
+const dropUnknownEvidence = <T extends Partial<AnalysisReport>>(report: T, knownIds: Set<string>): T => {
+  const filter = <S extends { evidenceVideoIds?: string[] }>(item: S): S => item && Array.isArray(item.evidenceVideoIds)
+    ? { ...item, evidenceVideoIds: [...new Set(item.evidenceVideoIds.map(id => String(id).trim()))].filter(id => knownIds.has(id)) }
+    : item;
+  const { growthProcess, diagnosis, benchmarking } = report;
+  return {
+    ...report,
+    ...(growthProcess && { growthProcess: {
+      early: filter(growthProcess.early),
+      mid: filter(growthProcess.mid),
+      latest: filter(growthProcess.latest),
+    } }),
+    ...(diagnosis && { diagnosis: {
+      content: filter(diagnosis.content),
+      engagement: filter(diagnosis.engagement),
+      monetization: filter(diagnosis.monetization),
+      branding: filter(diagnosis.branding),
+    } }),
+    ...(benchmarking && { benchmarking: filter(benchmarking) }),
+  };
+};
+
+export const analyzeChannelGrowth = async (channel: YouTubeChannel, videos: YouTubeVideo[], options: ChannelReportOptions = {}): Promise<AnalysisReport> => {
+  const provider = getActiveProvider();
+  const generation = resolveGeneration(provider, 'channel');
+  const language = getReportLanguage();
+  const describe = getSchemaDescriber(language);
   
   // Sort videos by date
   const sortedVideos = [...videos].sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime());
+  const promptVideos = sampleAcrossTimeline(sortedVideos, MAX_PROMPT_VIDEOS);
+  const promptVideoIds = new Set(promptVideos.map(v => v.id));
   
   // Prepare data summary for prompt to save tokens
-  const videoSummary = sortedVideos.map(v => 
-    `[${v.publishedAt.split('T')[0]}] ${v.title} (Views: ${v.viewCount}, Likes: ${v.likeCount}, Duration: ${v.duration})`
+  const videoSummary = promptVideos.map(v => 
+    `[${v.publishedAt.split('T')[0]}] (ID: ${v.id}) ${v.title} (Views: ${v.viewCount}, Likes: ${v.likeCount}, Duration: ${v.duration})`
   ).join('\n');
 
-  const prompt = `
-    다음 유튜브 채널을 심층 분석하여 전문가 수준의 컨설팅 보고서를 작성해줘.
-    
-    [채널 정보]
-    이름: ${channel.title}
-    구독자: ${channel.subscriberCount}
-    총 조회수: ${channel.viewCount}
-    국가: ${channel.country || '미확인'}
-    
-    [최근 영상 50개 데이터]
-    ${videoSummary}
-    
-    각 항목은 매우 구체적이어야 하며, 실질적인 솔루션을 포함해야 합니다.
-  `;
+  const { prompt, systemPrompt, promptVersions } = buildPrompt('channel', {
+    channelStats: [
+      `이름: ${channel.title}`,
+      `구독자: ${channel.subscriberCount}`,
+      `총 조회수: ${channel.viewCount}`,
+      `국가: ${channel.country || '미확인'}`,
+    ].join('\n'),
+    videoCount: sortedVideos.length,
+    sampleCount: promptVideos.length,
+    periodStart: sortedVideos[0]?.publishedAt.split('T')[0] || '-',
+    periodEnd: sortedVideos[sortedVideos.length - 1]?.publishedAt.split('T')[0] || '-',
+    videoSummary,
+  }, language);
 
   // Define Schema for strict JSON output
+  const evidenceSchema = { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('channel.evidence') };
+
   const growthStageSchema = {
     type: Type.OBJECT,
     properties: {
-      period: { type: Type.STRING, description: "분석 기간 (예: 2023.01 ~ 2023.06)" },
-      summary: { type: Type.STRING, description: "성과 요약 (한줄)" },
-      strategy: { type: Type.STRING, description: "주요 전략 및 컨셉 분석" },
-      quantitative: { type: Type.STRING, description: "정량적 성과 분석" },
-      contentDepth: { type: Type.STRING, description: "콘텐츠 및 시청자 심층 분석" },
+      period: { type: Type.STRING, description: describe('growth.period') },
+      summary: { type: Type.STRING, description: describe('growth.summary') },
+      strategy: { type: Type.STRING, description: describe('growth.strategy') },
+      quantitative: { type: Type.STRING, description: describe('growth.quantitative') },
+      contentDepth: { type: Type.STRING, description: describe('growth.contentDepth') },
+      evidenceVideoIds: evidenceSchema,
     },
-    required: ["period", "summary", "strategy", "quantitative", "contentDepth"]
+    required: ["period", "summary", "strategy", "quantitative", "contentDepth", "evidenceVideoIds"]
   };
 
   const diagnosisSchema = {
@@ -78,14 +201,15 @@ export const analyzeChannelGrowth = async (channel: YouTubeChannel, videos: YouT
     properties: {
       problem: { type: Type.STRING },
       solution: { type: Type.STRING },
+      evidenceVideoIds: evidenceSchema,
     },
-    required: ["problem", "solution"]
+    required: ["problem", "solution", "evidenceVideoIds"]
   };
 
   const schema = {
     type: Type.OBJECT,
     properties: {
-      summary: { type: Type.STRING, description: "채널의 현재 상태와 핵심 문제를 3줄로 요약" },
+      summary: { type: Type.STRING, description: describe('channel.summary') },
       growthProcess: {
         type: Type.OBJECT,
         properties: {
@@ -108,190 +232,721 @@ export const analyzeChannelGrowth = async (channel: YouTubeChannel, videos: YouT
       benchmarking: {
         type: Type.OBJECT,
         properties: {
-          concept: { type: Type.STRING, description: "이 채널을 이길 수 있는 새로운 채널 컨셉 제안" },
-          direction: { type: Type.STRING, description: "경쟁 우위를 점할 수 있는 콘텐츠 방향성" },
-          detailedOperation: { type: Type.STRING, description: "상세 운영 방법 (업로드, 썸네일, 편집 스타일 등)" },
-          roadmap: { type: Type.ARRAY, items: { type: Type.STRING }, description: "3개월 집중 성장 로드맵 (월별)" },
-          titles: { type: Type.ARRAY, items: { type: Type.STRING }, description: "성공 보장 영상 제목 10선" },
-          kpis: { type: Type.ARRAY, items: { type: Type.STRING }, description: "핵심 성과 지표 4가지" },
-          risks: { type: Type.STRING, description: "리스크 관리 전략" },
-          revenue: { type: Type.STRING, description: "수익 모델 다각화 전략" },
+          concept: { type: Type.STRING, description: describe('channel.concept') },
+          direction: { type: Type.STRING, description: describe('channel.direction') },
+          detailedOperation: { type: Type.STRING, description: describe('channel.detailedOperation') },
+          roadmap: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('channel.roadmap') },
+          titles: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('channel.titles') },
+          kpis: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('channel.kpis') },
+          risks: { type: Type.STRING, description: describe('channel.risks') },
+          revenue: { type: Type.STRING, description: describe('channel.revenue') },
+          evidenceVideoIds: evidenceSchema,
         },
-        required: ["concept", "direction", "detailedOperation", "roadmap", "titles", "kpis", "risks", "revenue"]
+        required: ["concept", "direction", "detailedOperation", "roadmap", "titles", "kpis", "risks", "revenue", "evidenceVideoIds"]
       }
     },
     required: ["summary", "growthProcess", "diagnosis", "benchmarking"]
   };
 
+  const request = {
+    systemPrompt,
+    generation,
+    signal: options.signal,
+    onUsage: trackUsage(provider, generation, 'channel', channel.title)
+  };
+
   try {
-    const response = await genAI.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        systemInstruction: SYSTEM_INSTRUCTION
-      }
-    });
-    
-    // With responseSchema, the output is guaranteed to be valid JSON structure (if the model adheres to it)
-    return JSON.parse(response.text) as AnalysisReport;
+    // Keys are written in order, so every key before the last one present is already closed
+    const report = await executor.run(() => provider.streamJSON<AnalysisReport>({
+      ...request,
+      prompt,
+      responseSchema: schema
+    }, partial => options.onPartial?.(
+      { ...dropUnknownEvidence(partial, promptVideoIds), model: generation.model, promptVersions, language },
+      (Object.keys(partial) as (keyof AnalysisReport)[]).slice(0, -1)
+    )), options.signal);
+    const checked = await ensureSchema(provider, request, report, schema);
+    return { ...dropUnknownEvidence(checked, promptVideoIds), model: generation.model, promptVersions, language };
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.error("AI API Error:", error);
+    if (error instanceof LLMStreamInterruptedError) {
+      throw new Error("AI 분석이 중간에 끊겼습니다. 이미 생성된 섹션만 표시됩니다.");
+    }
     throw new Error("AI 분석 생성 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.");
   }
 };
 
-export const analyzeKeywordMarket = async (keyword: string, videos: YouTubeVideo[]): Promise<AnalysisReport> => {
-  const genAI = getGenAI();
-  const model = "gemini-2.5-flash";
+export const analyzeKeywordMarket = async (keyword: string, videos: YouTubeVideo[], options: AIRequestOptions = {}): Promise<AnalysisReport> => {
+  const provider = getActiveProvider();
+  const generation = resolveGeneration(provider, 'keyword');
+  const language = getReportLanguage();
+  const describe = getSchemaDescriber(language);
 
   const topVideos = videos.slice(0, 20).map(v => 
     `Title: ${v.title}, Channel: ${v.channelTitle}, Views: ${v.viewCount}, Duration: ${v.duration}`
   ).join('\n');
 
-  const prompt = `
-    키워드 '${keyword}'에 대한 유튜브 시장 분석을 수행해줘.
-    
-    [상위 인기 영상 데이터]
-    ${topVideos}
-  `;
+  const { prompt, systemPrompt, promptVersions } = buildPrompt('keyword', { keyword, topVideos }, language);
 
   const schema = {
     type: Type.OBJECT,
     properties: {
-      summary: { type: Type.STRING, description: "시장 트렌드 요약" },
-      marketAnalysis: { type: Type.STRING, description: "시장 주도 채널 및 콘텐츠 분석" },
-      strengths: { type: Type.ARRAY, items: { type: Type.STRING }, description: "성공 요인/강점" },
-      weaknesses: { type: Type.ARRAY, items: { type: Type.STRING }, description: "시장 빈틈/약점" },
-      opportunities: { type: Type.ARRAY, items: { type: Type.STRING }, description: "기회 요인" },
-      actionPlan: { type: Type.ARRAY, items: { type: Type.STRING }, description: "필승 전략" },
+      summary: { type: Type.STRING, description: describe('keyword.summary') },
+      marketAnalysis: { type: Type.STRING, description: describe('keyword.marketAnalysis') },
+      strengths: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('keyword.strengths') },
+      weaknesses: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('keyword.weaknesses') },
+      opportunities: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('keyword.opportunities') },
+      actionPlan: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('keyword.actionPlan') },
     },
     required: ["summary", "marketAnalysis", "strengths", "weaknesses", "opportunities", "actionPlan"]
   };
 
-  try {
-    const response = await genAI.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        systemInstruction: SYSTEM_INSTRUCTION
-      }
-    });
+  const request = {
+    systemPrompt,
+    generation,
+    signal: options.signal,
+    onUsage: trackUsage(provider, generation, 'keyword', keyword)
+  };
 
-    return JSON.parse(response.text) as AnalysisReport;
+  try {
+    const report = await executor.run(() => provider.generateJSON<AnalysisReport>({
+      ...request,
+      prompt,
+      responseSchema: schema
+    }), options.signal);
+    return { ...(await ensureSchema(provider, request, report, schema)), model: generation.model, promptVersions, language };
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.error("AI API Error:", error);
     throw new Error("시장 분석 생성 중 오류가 발생했습니다.");
   }
 };
 
-export const analyzeTopicOpportunity = async (topic: string, videos: any[]): Promise<OpportunityReport> => {
-  const genAI = getGenAI();
-  const model = "gemini-2.5-flash";
+export const analyzeTopicOpportunity = async (topic: string, videos: YouTubeVideo[], channels: YouTubeChannel[], options: AIRequestOptions = {}): Promise<OpportunityReport> => {
+  const provider = getActiveProvider();
+  const generation = resolveGeneration(provider, 'opportunity');
+  const language = getReportLanguage();
+  const describe = getSchemaDescriber(language);
 
-  // Calculate local stats
-  const totalViews = videos.reduce((acc, v) => acc + parseInt(v.viewCount || '0'), 0);
-  const avgViews = videos.length > 0 ? totalViews / videos.length : 0;
-  
-  const sortedViews = [...videos].map(v => parseInt(v.viewCount || '0')).sort((a, b) => a - b);
-  const medianViews = sortedViews.length > 0 ? sortedViews[Math.floor(sortedViews.length / 2)] : 0;
+  const metrics = computeMarketMetrics(videos, channels);
 
-  const channelCounts: {[key: string]: number} = {};
+  const channelViews: {[key: string]: number} = {};
   videos.forEach(v => {
-    channelCounts[v.channelTitle] = (channelCounts[v.channelTitle] || 0) + 1;
+    channelViews[v.channelTitle] = (channelViews[v.channelTitle] || 0) + v.viewCount;
   });
-  const uniqueChannels = Object.keys(channelCounts).length;
-  const topChannels = Object.entries(channelCounts).sort((a, b) => b[1] - a[1]).slice(0, 5);
-  
-  const statsSummary = `
-    - 총 분석 영상 수: ${videos.length}개
-    - 평균 조회수: ${Math.round(avgViews)}회
-    - 중간값 조회수: ${medianViews}회
-    - 참여 채널 수: ${uniqueChannels}개
-    - 상위 3개 채널 점유율: ${topChannels.map(c => `${c[0]}(${c[1]}개)`).join(', ')}
-  `;
+  const topChannels = Object.entries(channelViews).sort((a, b) => b[1] - a[1]).slice(0, 5);
 
-  const prompt = `
-    주제 '${topic}'에 대한 유튜브 시장 기회를 분석해줘.
-    
-    [시장 데이터 통계]
-    ${statsSummary}
-    
-    다음 3가지 관점에서 분석하고 최종적으로 Red Ocean인지 Blue Ocean인지 판단해.
-    1. 조회수 분포: 소수 독식 vs 고른 분산
-    2. 채널 집중도: 독과점 여부
-    3. 채널 활성도: 경쟁 강도
-  `;
+  // Reference bands are given alongside the numbers so the model interprets rather than estimates
+  const statsSummary = [
+    `- 총 분석 영상 수: ${metrics.videoCount}개`,
+    `- 평균 조회수: ${Math.round(metrics.avgViews)}회`,
+    `- 중간값 조회수: ${Math.round(metrics.medianViews)}회`,
+    `- 참여 채널 수: ${metrics.channelCount}개`,
+    `- 조회수 지니계수: ${metrics.viewGini.toFixed(2)} (0 = 고르게 분산, 1 = 한 영상이 독식)`,
+    `- 상위 10% 영상의 조회수 점유율: ${(metrics.top10ViewShare * 100).toFixed(1)}%`,
+    `- 채널 조회수 점유율 HHI: ${Math.round(metrics.channelHHI)} (1500 미만 = 분산, 1500~2500 = 중간 집중, 2500 초과 = 고집중)`,
+    `- 상위 채널의 개설 이후 평균 업로드 빈도: 주 ${metrics.topChannelLifetimeUploadsPerWeek.toFixed(1)}회 (최근 빈도가 아닌 전체 영상 수 ÷ 채널 운영 기간)`,
+    `- 조회수 상위 채널: ${topChannels.map(c => `${c[0]}(${c[1]}회)`).join(', ')}`,
+  ].join('\n');
+
+  const { prompt, systemPrompt, promptVersions } = buildPrompt('opportunity', { topic, statsSummary }, language);
 
   const schema = {
     type: Type.OBJECT,
     properties: {
       type: { type: Type.STRING, enum: ["RED_OCEAN", "BLUE_OCEAN"] },
-      score: { type: Type.NUMBER, description: "기회 점수 (0-100)" },
-      summary: { type: Type.STRING, description: "시장 요약" },
-      reason: { type: Type.STRING, description: "판단 근거" },
-      viewDistribution: { type: Type.STRING, description: "조회수 분포 분석" },
-      channelConcentration: { type: Type.STRING, description: "채널 집중도 분석" },
-      channelActivity: { type: Type.STRING, description: "채널 활성도 분석" },
-      strategy: { type: Type.STRING, description: "차별화 진입 전략" },
-      keywords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "추천 키워드" },
+      score: { type: Type.NUMBER, description: describe('opportunity.score') },
+      summary: { type: Type.STRING, description: describe('opportunity.summary') },
+      reason: { type: Type.STRING, description: describe('opportunity.reason') },
+      viewDistribution: { type: Type.STRING, description: describe('opportunity.viewDistribution') },
+      channelConcentration: { type: Type.STRING, description: describe('opportunity.channelConcentration') },
+      channelActivity: { type: Type.STRING, description: describe('opportunity.channelActivity') },
+      strategy: { type: Type.STRING, description: describe('opportunity.strategy') },
+      keywords: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('opportunity.keywords') },
     },
     required: ["type", "score", "summary", "reason", "viewDistribution", "channelConcentration", "channelActivity", "strategy", "keywords"]
   };
 
-  try {
-    const response = await genAI.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        systemInstruction: SYSTEM_INSTRUCTION
-      }
-    });
+  const request = {
+    systemPrompt,
+    generation,
+    signal: options.signal,
+    onUsage: trackUsage(provider, generation, 'opportunity', topic)
+  };
 
-    return JSON.parse(response.text) as OpportunityReport;
+  try {
+    const report = await executor.run(() => provider.generateJSON<OpportunityReport>({
+      ...request,
+      prompt,
+      responseSchema: schema
+    }), options.signal);
+    return { ...(await ensureSchema(provider, request, report, schema)), model: generation.model, promptVersions, language, metrics };
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.error("AI API Error:", error);
     throw new Error("기회 분석 중 오류가 발생했습니다.");
   }
 };
 
-export const summarizeVideo = async (video: YouTubeVideo): Promise<string> => {
-  const genAI = getGenAI();
-  const model = "gemini-2.5-flash";
-  const prompt = `
-    다음 유튜브 영상의 메타데이터를 바탕으로 영상을 요약하고 분석해줘.
-    
-    [영상 정보]
-    제목: ${video.title}
-    설명: ${video.description || '없음'}
-    태그: ${video.tags.join(', ')}
-    조회수: ${video.viewCount}
-    
-    3문장으로 답변해:
-    1. 핵심 콘텐츠 내용 요약
-    2. 이 영상이 인기 있는(또는 없는) 이유 추론
-    3. 벤치마킹 포인트
-    
-    형식: "- 내용: ...\n- 분석: ...\n- 벤치마킹: ..."
-    간결하게 작성해.
-  `;
+// Summaries are cached per language, since the same video is summarized again after switching.
+// Importing a subtitle file changes the key, so the metadata-only summary is not served afterwards.
+const summaryCacheKey = (videoId: string, language: ReportLanguage) => {
+  const transcript = getTranscript(videoId);
+  return `summary:${language}:${videoId}${transcript ? `:${transcript.importedAt}` : ''}`;
+};
+
+// Summaries written in earlier sessions for the given videos, keyed by video ID
+export const getCachedSummaries = async (videoIds: string[]): Promise<Record<string, string>> => {
+  const language = getReportLanguage();
+  const entries = await Promise.all(videoIds.map(async id => [id, await getCached<string>(summaryCacheKey(id, language))] as const));
+  return Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => !!entry[1]));
+};
+
+// Summarizes from the imported subtitles when the video has them, otherwise from title, description and tags
+export const summarizeVideo = async (video: YouTubeVideo, options: AIRequestOptions = {}): Promise<string> => {
+  const language = getReportLanguage();
+  const cacheKey = summaryCacheKey(video.id, language);
+  const cached = await getCached<string>(cacheKey);
+  if (cached) return cached;
+
+  const transcript = getTranscript(video.id);
+  if (transcript) {
+    const summary = formatTranscriptAnalysis(await analyzeTranscript(video, transcript, options));
+    await setCached(cacheKey, 'videoSummaries', summary);
+    return summary;
+  }
+
+  const provider = getActiveProvider();
+  const generation = resolveGeneration(provider, 'summary');
+  const { prompt, systemPrompt } = buildPrompt('summary', {
+    title: video.title,
+    description: video.description || '없음',
+    tags: video.tags.join(', '),
+    viewCount: video.viewCount,
+  }, language);
+
+  const request = {
+    systemPrompt,
+    generation,
+    signal: options.signal,
+    onUsage: trackUsage(provider, generation, 'summary', video.title)
+  };
+
+  try {
+    const summary = (await executor.run(() => provider.generateText({
+      ...request,
+      prompt
+    }), options.signal)).trim();
+    if (!summary) throw new Error("Empty summary");
+    await setCached(cacheKey, 'videoSummaries', summary);
+    return summary;
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.error("AI API Error:", error);
+    throw new Error("영상 요약 생성 중 오류가 발생했습니다.");
+  }
+};
+
+// Seconds treated as the hook, and the window subtitle cues are merged into for the full transcript
+const HOOK_SECONDS = 30;
+const TRANSCRIPT_WINDOW_SECONDS = 30;
+// Character budget for the full transcript; longer ones are sampled evenly across the video
+const MAX_TRANSCRIPT_CHARS = 12000;
+
+const formatHookSegments = (transcript: VideoTranscript): string =>
+  transcript.segments
+    .filter(segment => segment.start < HOOK_SECONDS)
+    .map(segment => `[${formatTimestamp(segment.start)}] ${segment.text}`)
+    .join('\n');
+
+const formatTranscriptWindows = (transcript: VideoTranscript): string => {
+  const windows = new Map<number, string[]>();
+  transcript.segments.forEach(segment => {
+    const index = Math.floor(segment.start / TRANSCRIPT_WINDOW_SECONDS);
+    windows.set(index, [...(windows.get(index) || []), segment.text]);
+  });
+  const lines = Array.from(windows.entries()).map(([index, texts]) => `[${formatTimestamp(index * TRANSCRIPT_WINDOW_SECONDS)}] ${texts.join(' ')}`);
+  const totalChars = lines.reduce((sum, line) => sum + line.length, 0);
+  if (totalChars <= MAX_TRANSCRIPT_CHARS) return lines.join('\n');
+  return sampleAcrossTimeline(lines, Math.max(2, Math.floor(lines.length * MAX_TRANSCRIPT_CHARS / totalChars))).join('\n');
+};
+
+// Content summary, hook analysis and chapter breakdown grounded in an imported subtitle file
+export const analyzeTranscript = async (video: YouTubeVideo, transcript: VideoTranscript, options: AIRequestOptions = {}): Promise<TranscriptAnalysis> => {
+  const provider = getActiveProvider();
+  const generation = resolveGeneration(provider, 'transcript');
+  const language = getReportLanguage();
+  const describe = getSchemaDescriber(language);
+
+  const { prompt, systemPrompt, promptVersions } = buildPrompt('transcript', {
+    title: video.title,
+    viewCount: video.viewCount,
+    duration: formatTimestamp(parseDuration(video.duration)),
+    hookSegments: formatHookSegments(transcript) || '없음',
+    transcript: formatTranscriptWindows(transcript),
+  }, language);
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      summary: { type: Type.STRING, description: describe('transcript.summary') },
+      hook: { type: Type.STRING, description: describe('transcript.hook') },
+      chapters: {
+        type: Type.ARRAY,
+        description: describe('transcript.chapters'),
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            timestamp: { type: Type.STRING, description: describe('outline.timestamp') },
+            title: { type: Type.STRING, description: describe('outline.chapterTitle') },
+            summary: { type: Type.STRING, description: describe('outline.chapterSummary') },
+          },
+          required: ["timestamp", "title", "summary"]
+        }
+      },
+    },
+    required: ["summary", "hook", "chapters"]
+  };
+
+  const request = {
+    systemPrompt,
+    generation,
+    signal: options.signal,
+    onUsage: trackUsage(provider, generation, 'transcript', video.title)
+  };
+
+  try {
+    const analysis = await executor.run(() => provider.generateJSON<TranscriptAnalysis>({
+      ...request,
+      prompt,
+      responseSchema: schema
+    }), options.signal);
+    return { ...(await ensureSchema(provider, request, analysis, schema)), model: generation.model, promptVersions, language };
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.error("AI API Error:", error);
+    throw new Error("자막 분석 중 오류가 발생했습니다.");
+  }
+};
+
+const COMPARE_PROMPT_TOP_VIDEOS = 5;
+
+// Channel and the videos loaded for it, as compared side by side
+export interface ComparedChannel {
+  channel: YouTubeChannel;
+  videos: YouTubeVideo[];
+}
+
+// Head-to-head verdict for two to four channels. Metrics are computed here so the model argues
+// from the same numbers the cards show; the first channel is treated as the user's own.
+export const compareChannels = async (entries: ComparedChannel[], options: AIRequestOptions = {}): Promise<ComparisonReport> => {
+  const provider = getActiveProvider();
+  const generation = resolveGeneration(provider, 'compare');
+  const language = getReportLanguage();
+  const describe = getSchemaDescriber(language);
+  const titles = entries.map(e => e.channel.title);
+
+  const { prompt, systemPrompt, promptVersions } = buildPrompt('compare', {
+    channelCount: entries.length,
+    channelStats: entries.map(({ channel, videos }, i) => {
+      const m = computeChannelMetrics(channel, videos);
+      return [
+        `[${i + 1}] ${channel.title}${i === 0 ? ' (우리 채널)' : ''}`,
+        `- 구독자: ${m.subscriberCount}`,
+        `- 분석 영상 수: ${m.videoCount}`,
+        `- 평균 조회수: ${Math.round(m.avgViews)}`,
+        `- 평균 업로드 간격: ${m.uploadIntervalDays.toFixed(1)}일`,
+        `- 쇼츠 비율: ${(m.shortsRatio * 100).toFixed(0)}%`,
+        `- 참여율 (좋아요+댓글)/조회수: ${(m.engagementRate * 100).toFixed(2)}%`,
+      ].join('\n');
+    }).join('\n\n'),
+    topVideos: entries.map(({ channel, videos }, i) => [
+      `[${i + 1}] ${channel.title}`,
+      ...[...videos].sort((a, b) => b.viewCount - a.viewCount).slice(0, COMPARE_PROMPT_TOP_VIDEOS)
+        .map(v => `- ${v.title} (조회수 ${v.viewCount}, 길이 ${v.duration})`),
+    ].join('\n')).join('\n\n'),
+  }, language);
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      summary: { type: Type.STRING, description: describe('compare.summary') },
+      categories: {
+        type: Type.ARRAY,
+        description: describe('compare.categories'),
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            category: { type: Type.STRING, description: describe('compare.category') },
+            winner: { type: Type.STRING, enum: titles, description: describe('compare.winner') },
+            reason: { type: Type.STRING, description: describe('compare.reason') },
+          },
+          required: ["category", "winner", "reason"]
+        }
+      },
+      channels: {
+        type: Type.ARRAY,
+        description: describe('compare.channels'),
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            channel: { type: Type.STRING, enum: titles, description: describe('compare.channel') },
+            wins: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('compare.wins') },
+            gaps: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('compare.gaps') },
+          },
+          required: ["channel", "wins", "gaps"]
+        }
+      },
+      actionPlan: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('compare.actionPlan') },
+    },
+    required: ["summary", "categories", "channels", "actionPlan"]
+  };
+
+  const request = {
+    systemPrompt,
+    generation,
+    signal: options.signal,
+    onUsage: trackUsage(provider, generation, 'compare', titles.join(' vs '))
+  };
+
+  try {
+    const report = await executor.run(() => provider.generateJSON<ComparisonReport>({
+      ...request,
+      prompt,
+      responseSchema: schema
+    }), options.signal);
+    return { ...(await ensureSchema(provider, request, report, schema)), model: generation.model, promptVersions, language };
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.error("AI API Error:", error);
+    throw new Error("채널 비교 분석 중 오류가 발생했습니다.");
+  }
+};
+
+const DEFAULT_THUMBNAIL_SAMPLE_SIZE = 5;
+const TITLE_PROMPT_TOP_VIDEOS = 20;
+const OUTLINE_PROMPT_TOP_VIDEOS = 10;
+
+// Thumbnails are sent inline, so each one is downloaded and base64-encoded in the browser
+const fetchImage = async (url: string, signal?: AbortSignal): Promise<LLMImage> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Thumbnail request failed: ${response.status}`);
+  const blob = await response.blob();
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return { mimeType: blob.type || 'image/jpeg', data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+};
+
+// Compares the thumbnails of the most- and least-viewed videos; needs a model that accepts images
+export const analyzeThumbnails = async (subject: string, videos: YouTubeVideo[], options: ThumbnailAnalysisOptions = {}): Promise<ThumbnailReport> => {
+  const provider = getActiveProvider();
+  const generation = resolveGeneration(provider, 'thumbnail');
+  const language = getReportLanguage();
+  const describe = getSchemaDescriber(language);
+
+  const ranked = [...videos].filter(v => v.thumbnail).sort((a, b) => b.viewCount - a.viewCount);
+  const sampleSize = Math.min(options.sampleSize || DEFAULT_THUMBNAIL_SAMPLE_SIZE, Math.floor(ranked.length / 2));
+  if (sampleSize === 0) throw new Error("썸네일을 비교하려면 영상이 2개 이상 필요합니다.");
+
+  const candidates = [
+    ...ranked.slice(0, sampleSize).map(video => ({ video, group: 'top' as const })),
+    ...ranked.slice(ranked.length - sampleSize).map(video => ({ video, group: 'bottom' as const })),
+  ];
+  const loaded = await Promise.allSettled(candidates.map(c => fetchImage(c.video.thumbnail, options.signal)));
+  options.signal?.throwIfAborted();
+
+  // Thumbnails that failed to download are dropped; the numbering follows the images actually sent
+  const sent = candidates
+    .map((c, i) => ({ ...c, image: loaded[i].status === 'fulfilled' ? loaded[i].value : null }))
+    .filter((c): c is typeof c & { image: LLMImage } => c.image !== null);
+  const top = sent.filter(c => c.group === 'top');
+  const bottom = sent.filter(c => c.group === 'bottom');
+  if (top.length === 0 || bottom.length === 0) throw new Error("썸네일 이미지를 불러오지 못했습니다.");
+
+  const { prompt, systemPrompt, promptVersions } = buildPrompt('thumbnail', {
+    subject,
+    topCount: top.length,
+    bottomCount: bottom.length,
+    imageList: sent.map((c, i) =>
+      `이미지 ${i + 1} [${c.group === 'top' ? '상위' : '하위'}] ${c.video.title} (조회수 ${c.video.viewCount})`
+    ).join('\n'),
+  }, language);
+
+  const finding = (key: 'thumbnail.textOverlay' | 'thumbnail.faces' | 'thumbnail.colorPalette' | 'thumbnail.composition'): Schema => ({
+    type: Type.OBJECT,
+    description: describe(key),
+    properties: {
+      topPattern: { type: Type.STRING, description: describe('thumbnail.topPattern') },
+      bottomPattern: { type: Type.STRING, description: describe('thumbnail.bottomPattern') },
+      viewImpact: { type: Type.STRING, description: describe('thumbnail.viewImpact') },
+    },
+    required: ["topPattern", "bottomPattern", "viewImpact"]
+  });
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      summary: { type: Type.STRING, description: describe('thumbnail.summary') },
+      textOverlay: finding('thumbnail.textOverlay'),
+      faces: finding('thumbnail.faces'),
+      colorPalette: finding('thumbnail.colorPalette'),
+      composition: finding('thumbnail.composition'),
+      recommendations: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('thumbnail.recommendations') },
+    },
+    required: ["summary", "textOverlay", "faces", "colorPalette", "composition", "recommendations"]
+  };
+
+  const request = {
+    systemPrompt,
+    generation,
+    signal: options.signal,
+    onUsage: trackUsage(provider, generation, 'thumbnail', subject)
+  };
 
   try {
-    const response = await genAI.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "text/plain", // Free text for this one
-        systemInstruction: SYSTEM_INSTRUCTION
+    const report = await executor.run(() => provider.generateJSON<ThumbnailReport>({
+      ...request,
+      prompt,
+      images: sent.map(c => c.image),
+      responseSchema: schema
+    }), options.signal);
+    return {
+      ...(await ensureSchema(provider, request, report, schema)),
+      topVideoIds: top.map(c => c.video.id),
+      bottomVideoIds: bottom.map(c => c.video.id),
+      model: generation.model,
+      promptVersions,
+      language
+    };
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.error("AI API Error:", error);
+    throw new Error("썸네일 분석 중 오류가 발생했습니다. 이미지 입력을 지원하는 모델인지 확인해주세요.");
+  }
+};
+
+// Generates title candidates with an AI click-appeal rating; the market fit is scored locally afterwards
+export const generateTitleVariants = async (
+  input: string,
+  benchmark: TitleBenchmark,
+  topVideos: YouTubeVideo[],
+  count: number,
+  options: AIRequestOptions = {}
+): Promise<TitleVariantSet> => {
+  const provider = getActiveProvider();
+  const generation = resolveGeneration(provider, 'title');
+  const language = getReportLanguage();
+  const describe = getSchemaDescriber(language);
+
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const { prompt, systemPrompt, promptVersions } = buildPrompt('title', {
+    input,
+    keyword: benchmark.keyword,
+    count,
+    benchmarkSummary: [
+      `- 제목 길이: ${benchmark.lengthRange[0]}~${benchmark.lengthRange[1]}자 (중간값 ${benchmark.medianLength}자)`,
+      `- 숫자 사용: ${percent(benchmark.numberShare)}`,
+      `- 괄호 사용: ${percent(benchmark.bracketShare)}`,
+      `- 이모지 사용: ${percent(benchmark.emojiShare)}`,
+      `- 반복 키워드: ${benchmark.topKeywords.join(', ') || '없음'}`,
+    ].join('\n'),
+    topTitles: [...topVideos]
+      .sort((a, b) => b.viewCount - a.viewCount)
+      .slice(0, TITLE_PROMPT_TOP_VIDEOS)
+      .map(v => `- ${v.title} (조회수 ${v.viewCount})`)
+      .join('\n'),
+  }, language);
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      variants: {
+        type: Type.ARRAY,
+        description: describe('title.variants'),
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING, description: describe('title.title') },
+            clickAppeal: { type: Type.NUMBER, description: describe('title.clickAppeal') },
+            rationale: { type: Type.STRING, description: describe('title.rationale') },
+          },
+          required: ["title", "clickAppeal", "rationale"]
+        }
       }
-    });
-    return response.text;
+    },
+    required: ["variants"]
+  };
+
+  const request = {
+    systemPrompt,
+    generation,
+    signal: options.signal,
+    onUsage: trackUsage(provider, generation, 'title', input)
+  };
+
+  try {
+    const result = await executor.run(() => provider.generateJSON<TitleVariantSet>({
+      ...request,
+      prompt,
+      responseSchema: schema
+    }), options.signal);
+    return { ...(await ensureSchema(provider, request, result, schema)), model: generation.model, promptVersions, language };
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.error("AI API Error:", error);
+    throw new Error("제목 후보 생성 중 오류가 발생했습니다.");
+  }
+};
+
+// Plans a video for a title, following the structure of the given top performers
+export const generateVideoOutline = async (
+  title: string,
+  benchmarkVideos: YouTubeVideo[],
+  options: OutlineOptions = {}
+): Promise<VideoOutline> => {
+  const provider = getActiveProvider();
+  const generation = resolveGeneration(provider, 'outline');
+  const language = getReportLanguage();
+  const describe = getSchemaDescriber(language);
+  const { reference } = options;
+  const referenceTranscript = reference && getTranscript(reference.id);
+
+  const topVideos = [...benchmarkVideos].sort((a, b) => b.viewCount - a.viewCount).slice(0, OUTLINE_PROMPT_TOP_VIDEOS);
+  const durations = topVideos.map(v => parseDuration(v.duration)).sort((a, b) => a - b);
+  const medianSeconds = durations.length > 0 ? durations[Math.floor(durations.length / 2)] : 600;
+
+  const { prompt, systemPrompt, promptVersions } = buildPrompt('outline', {
+    title,
+    source: reference
+      ? [
+          `참고 영상을 바탕으로 새롭게 기획하는 영상입니다. 참고 영상의 성공 요소는 살리되 그대로 베끼지 마세요.`,
+          `- 제목: ${reference.title}`,
+          `- 조회수: ${reference.viewCount}`,
+          `- 길이: ${reference.duration}`,
+          `- 설명: ${(reference.description || '없음').slice(0, 300)}`,
+          ...(referenceTranscript ? [`- 첫 30초 자막:\n${formatHookSegments(referenceTranscript)}`] : []),
+        ].join('\n')
+      : '채널 리포트가 추천한 영상 제목입니다.',
+    targetLength: `${Math.floor(medianSeconds / 60)}분 ${medianSeconds % 60}초`,
+    topVideos: topVideos.map(v => `- ${v.title} (조회수 ${v.viewCount}, 길이 ${v.duration})`).join('\n') || '없음',
+  }, language);
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING, description: describe('outline.title') },
+      hook: { type: Type.STRING, description: describe('outline.hook') },
+      chapters: {
+        type: Type.ARRAY,
+        description: describe('outline.chapters'),
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            timestamp: { type: Type.STRING, description: describe('outline.timestamp') },
+            title: { type: Type.STRING, description: describe('outline.chapterTitle') },
+            summary: { type: Type.STRING, description: describe('outline.chapterSummary') },
+          },
+          required: ["timestamp", "title", "summary"]
+        }
+      },
+      ctas: {
+        type: Type.ARRAY,
+        description: describe('outline.ctas'),
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            timestamp: { type: Type.STRING, description: describe('outline.timestamp') },
+            message: { type: Type.STRING, description: describe('outline.ctaMessage') },
+          },
+          required: ["timestamp", "message"]
+        }
+      },
+      thumbnailText: { type: Type.ARRAY, items: { type: Type.STRING }, description: describe('outline.thumbnailText') },
+      shortsIdea: { type: Type.STRING, description: describe('outline.shortsIdea') },
+    },
+    required: ["title", "hook", "chapters", "ctas", "thumbnailText", "shortsIdea"]
+  };
+
+  const request = {
+    systemPrompt,
+    generation,
+    signal: options.signal,
+    onUsage: trackUsage(provider, generation, 'outline', title)
+  };
+
+  try {
+    const outline = await executor.run(() => provider.generateJSON<VideoOutline>({
+      ...request,
+      prompt,
+      responseSchema: schema
+    }), options.signal);
+    return {
+      ...(await ensureSchema(provider, request, outline, schema)),
+      referenceVideoId: reference?.id,
+      model: generation.model,
+      promptVersions,
+      language
+    };
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.error("AI API Error:", error);
+    throw new Error("영상 기획안 생성 중 오류가 발생했습니다.");
+  }
+};
+
+// Answers a follow-up question about a finished report. The report and its video list go into the
+// system prompt so every turn sees the same context; earlier turns are replayed as chat history.
+export const askAboutReport = async (
+  subject: string,
+  report: AnalysisReport,
+  videos: YouTubeVideo[],
+  history: ChatMessage[],
+  question: string,
+  options: ReportChatOptions = {}
+): Promise<ChatMessage> => {
+  const provider = getActiveProvider();
+  const generation = resolveGeneration(provider, 'chat');
+  const language = getReportLanguage();
+
+  // Only the findings are context; the chat itself is replayed as turns and the rest is bookkeeping
+  const { chat, model, defaultedFields, promptVersions, language: reportLanguage, ...findings } = report;
+  const sortedVideos = [...videos].sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime());
+  const promptVideos = sampleAcrossTimeline(sortedVideos, MAX_PROMPT_VIDEOS);
+
+  const built = buildPrompt('chat', {
+    subject,
+    reportJson: JSON.stringify(findings, null, 2),
+    videoCount: promptVideos.length,
+    videoList: promptVideos.map(v =>
+      `[${v.id}] ${v.publishedAt.split('T')[0]} | ${v.title} | 조회 ${v.viewCount} | 좋아요 ${v.likeCount} | 댓글 ${v.commentCount} | ${v.duration}`
+    ).join('\n') || '없음',
+  }, language);
+
+  const request = {
+    systemPrompt: `${built.systemPrompt}\n\n${built.prompt}`,
+    history: history.map(({ role, content }) => ({ role, content })),
+    generation,
+    signal: options.signal,
+    onUsage: trackUsage(provider, generation, 'chat', subject)
+  };
+
+  try {
+    const answer = await executor.run(() => provider.streamText({
+      ...request,
+      prompt: question
+    }, text => options.onText?.(text)), options.signal);
+    return { role: 'assistant', content: answer.trim(), createdAt: new Date().toISOString(), model: generation.model };
   } catch (error) {
-    return "요약 생성 실패";
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.error("AI API Error:", error);
+    if (error instanceof LLMStreamInterruptedError) {
+      throw new Error("답변이 중간에 끊겼습니다. 다시 질문해주세요.");
+    }
+    throw new Error("답변 생성 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.");
   }
 };
@@ -0,0 +1,505 @@
+import { GoogleGenAI, Schema } from "@google/genai";
+import { LLMProviderId, LLMSettings, AnalysisKind, GenerationSettings, TokenUsage } from "../types";
+import { encryptKey, decryptKey } from "../utils";
+
+// Base64-encoded image sent after the prompt text, for providers and models with vision input
+export interface LLMImage {
+  mimeType: string;
+  data: string;
+}
+
+// Earlier turn of a conversation, replayed before the prompt so the model sees the whole exchange
+export interface LLMChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  prompt: string;
+  history?: LLMChatTurn[];
+  images?: LLMImage[];
+  systemPrompt?: string;
+  generation?: GenerationSettings;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void; // Called once per completed call with the provider's token counts
+}
+
+export interface LLMJsonRequest extends LLMRequest {
+  responseSchema: Schema; // Written with the Gemini Type enum; converted to JSON Schema for other providers
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  model: string;
+  generateText: (request: LLMRequest) => Promise<string>;
+  // Streams plain text, reporting everything received so far
+  streamText: (request: LLMRequest, onText: (text: string) => void) => Promise<string>;
+  generateJSON: <T>(request: LLMJsonRequest) => Promise<T>;
+  // Streams the response, reporting the parseable prefix as it grows
+  streamJSON: <T>(request: LLMJsonRequest, onPartial: (partial: Partial<T>) => void) => Promise<T>;
+}
+
+// Non-2xx response from an HTTP provider. Carries the status so the executor can decide on retries.
+export class LLMHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'LLMHttpError';
+  }
+}
+
+// A stream that broke after delivering output. Not retried, so callers keep what already arrived.
+export class LLMStreamInterruptedError extends Error {
+  constructor(public cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'LLMStreamInterruptedError';
+  }
+}
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI 호환',
+  ollama: 'Ollama (로컬)',
+};
+
+export const DEFAULT_LLM_ENDPOINTS: Record<LLMProviderId, string> = {
+  gemini: '',
+  openai: 'https://api.openai.com/v1',
+  ollama: 'http://localhost:11434',
+};
+
+export const DEFAULT_LLM_MODELS: Record<LLMProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1',
+};
+
+export const ANALYSIS_KIND_LABELS: Record<AnalysisKind, string> = {
+  channel: '채널 컨설팅 리포트',
+  keyword: '키워드 시장 분석',
+  opportunity: '시장 기회 분석',
+  summary: '영상 요약',
+  thumbnail: '썸네일 분석',
+  title: '제목 실험실',
+  outline: '영상 기획안',
+  chat: '리포트 후속 질문',
+  transcript: '자막 기반 요약',
+  compare: '채널 비교',
+};
+
+// Suggestions for the model inputs; any name the provider accepts can be typed in
+export const SUGGESTED_MODELS: Record<LLMProviderId, string[]> = {
+  gemini: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+  openai: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+  ollama: ['llama3.1', 'qwen2.5', 'gemma2'],
+};
+
+const SETTINGS_STORAGE_KEY = 'llm_settings';
+const GENERATION_STORAGE_KEY = 'llm_generation_settings';
+const GEMINI_KEY_STORAGE_KEY = 'gemini_api_key';
+const OPENAI_KEY_STORAGE_KEY = 'openai_api_key';
+
+export const getLLMSettings = (): LLMSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null') as LLMSettings | null;
+    if (stored && stored.provider in DEFAULT_LLM_MODELS) return stored;
+  } catch (e) {
+    // Fall through to the default provider
+  }
+  return { provider: 'gemini', endpoint: '', model: DEFAULT_LLM_MODELS.gemini };
+};
+
+export const setLLMSettings = (settings: LLMSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getGenerationSettings = (): Record<AnalysisKind, GenerationSettings> => {
+  const defaults: Record<AnalysisKind, GenerationSettings> = {
+    channel: { model: '' },
+    keyword: { model: '' },
+    opportunity: { model: '' },
+    summary: { model: '' },
+    thumbnail: { model: '' },
+    title: { model: '' },
+    outline: { model: '' },
+    chat: { model: '' },
+    transcript: { model: '' },
+    compare: { model: '' },
+  };
+  try {
+    const stored = JSON.parse(localStorage.getItem(GENERATION_STORAGE_KEY) || 'null');
+    if (stored) return { ...defaults, ...stored };
+  } catch (e) {
+    // Fall through to provider defaults
+  }
+  return defaults;
+};
+
+export const setGenerationSettings = (settings: Record<AnalysisKind, GenerationSettings>) => {
+  localStorage.setItem(GENERATION_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getOpenAIApiKey = (): string => {
+  const stored = localStorage.getItem(OPENAI_KEY_STORAGE_KEY);
+  return stored ? decryptKey(stored) : '';
+};
+
+export const setOpenAIApiKey = (key: string) => {
+  if (key) localStorage.setItem(OPENAI_KEY_STORAGE_KEY, encryptKey(key));
+  else localStorage.removeItem(OPENAI_KEY_STORAGE_KEY);
+};
+
+// Gemini's schema uses upper-case type names ("OBJECT"); JSON Schema wants them lower-case
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, prop]) => [name, toJsonSchema(prop)])
+    );
+    result.required = schema.required || [];
+  }
+  return result;
+};
+
+// Local and OpenAI-compatible models sometimes wrap JSON in a markdown fence despite the schema
+const stripFence = (text: string) => text.replace(/^\s*```(?:json)?\s*/, '').replace(/\s*```\s*$/, '');
+
+const parseJSON = <T>(text: string): T => JSON.parse(stripFence(text)) as T;
+
+// Closes any open string, array and object so a truncated JSON prefix becomes parseable
+const closeJSON = (fragment: string): string => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const char of fragment) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') inString = true;
+    else if (char === '{') closers.push('}');
+    else if (char === '[') closers.push(']');
+    else if (char === '}' || char === ']') closers.pop();
+  }
+  let closed = fragment;
+  if (inString) closed = (escaped ? closed.slice(0, -1) : closed) + '"';
+  return closed.replace(/[\s,]*$/, '') + closers.reverse().join('');
+};
+
+// Best-effort parse of a streamed JSON prefix. A dangling key, colon or half-written literal is
+// dropped by cutting back to the previous separator until the closed prefix parses.
+export const parsePartialJSON = <T>(text: string): T | undefined => {
+  const source = stripFence(text);
+  let end = source.length;
+  while (end > 0) {
+    try {
+      return JSON.parse(closeJSON(source.slice(0, end))) as T;
+    } catch (e) {
+      end = Math.max(
+        source.lastIndexOf(',', end - 1),
+        source.lastIndexOf('{', end - 2) + 1,
+        source.lastIndexOf('[', end - 2) + 1
+      );
+    }
+  }
+  return undefined;
+};
+
+const postRequest = async (url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new LLMHttpError(response.status, `${response.status} ${detail.slice(0, 300)}`);
+  }
+  return response;
+};
+
+const postJSON = async (url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) => {
+  return (await postRequest(url, body, headers, signal)).json();
+};
+
+// Feeds each complete line of a streamed response body to onLine
+const readLines = async (response: Response, onLine: (line: string) => void) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    lines.forEach(line => line.trim() && onLine(line.trim()));
+  }
+  if (buffer.trim()) onLine(buffer.trim());
+};
+
+const toMessages = ({ prompt, systemPrompt, history = [] }: LLMRequest) => [
+  ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+  ...history.map(turn => ({ role: turn.role, content: turn.content })),
+  { role: 'user', content: prompt },
+];
+
+// OpenAI takes images as content parts with data URLs
+const toOpenAIMessages = (request: LLMRequest) => {
+  if (!request.images?.length) return toMessages(request);
+  const messages: { role: string; content: unknown }[] = toMessages(request);
+  messages[messages.length - 1].content = [
+    { type: 'text', text: request.prompt },
+    ...request.images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+  ];
+  return messages;
+};
+
+// Ollama takes bare base64 strings on the message
+const toOllamaMessages = (request: LLMRequest) => {
+  if (!request.images?.length) return toMessages(request);
+  const messages: { role: string; content: string; images?: string[] }[] = toMessages(request);
+  messages[messages.length - 1].images = request.images.map(image => image.data);
+  return messages;
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Token counts as reported by each provider's response
+const geminiUsage = (metadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number }): TokenUsage | undefined => metadata && {
+  promptTokens: metadata.promptTokenCount || 0,
+  outputTokens: metadata.candidatesTokenCount || 0,
+  thinkingTokens: metadata.thoughtsTokenCount || 0,
+};
+
+// `usage` object of an OpenAI-compatible chat completion; reasoning tokens are counted inside completion_tokens
+interface OpenAIUsageResponse {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+// Counters on an Ollama /api/chat response; only the final (done) message carries them
+interface OllamaUsageResponse {
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+const openAIUsage = (usage?: OpenAIUsageResponse): TokenUsage | undefined => usage && {
+  promptTokens: usage.prompt_tokens || 0,
+  outputTokens: (usage.completion_tokens || 0) - (usage.completion_tokens_details?.reasoning_tokens || 0),
+  thinkingTokens: usage.completion_tokens_details?.reasoning_tokens || 0,
+};
+
+const ollamaUsage = (data: OllamaUsageResponse): TokenUsage | undefined => data.done ? {
+  promptTokens: data.prompt_eval_count || 0,
+  outputTokens: data.eval_count || 0,
+  thinkingTokens: 0,
+} : undefined;
+
+const reportUsage = (request: LLMRequest, usage?: TokenUsage) => {
+  if (usage) request.onUsage?.(usage);
+};
+
+type Generate = (request: LLMRequest, responseSchema?: Schema) => Promise<string>;
+type Stream = (request: LLMRequest, responseSchema: Schema | undefined, onText: (text: string) => void) => Promise<string>;
+
+// Shared JSON handling on top of a provider's raw text calls
+const buildProvider = (id: LLMProviderId, model: string, generate: Generate, stream: Stream): LLMProvider => ({
+  id,
+  model,
+  generateText: request => generate(request),
+  streamText: async (request, onText) => {
+    let received = false;
+    try {
+      return await stream(request, undefined, text => {
+        received = true;
+        onText(text);
+      });
+    } catch (error) {
+      if (received && !request.signal?.aborted) throw new LLMStreamInterruptedError(error);
+      throw error;
+    }
+  },
+  generateJSON: async <T>(request: LLMJsonRequest) => parseJSON<T>(await generate(request, request.responseSchema)),
+  streamJSON: async <T>(request: LLMJsonRequest, onPartial: (partial: Partial<T>) => void) => {
+    let received = false;
+    try {
+      const text = await stream(request, request.responseSchema, accumulated => {
+        const partial = parsePartialJSON<Partial<T>>(accumulated);
+        if (!partial) return;
+        received = true;
+        onPartial(partial);
+      });
+      return parseJSON<T>(text);
+    } catch (error) {
+      // Retrying would restart from nothing and discard what the caller already rendered
+      if (received && !request.signal?.aborted) throw new LLMStreamInterruptedError(error);
+      throw error;
+    }
+  },
+});
+
+const createGeminiProvider = (apiKey: string, model: string): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  const toParams = (request: LLMRequest, responseSchema?: Schema) => {
+    const { generation } = request;
+    return {
+      model: generation?.model || model,
+      contents: request.images?.length || request.history?.length
+        ? [
+            // Gemini calls the assistant side "model"
+            ...(request.history || []).map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.content }] })),
+            { role: 'user', parts: [{ text: request.prompt }, ...(request.images || []).map(image => ({ inlineData: image }))] },
+          ]
+        : request.prompt,
+      config: {
+        responseMimeType: responseSchema ? "application/json" : "text/plain",
+        responseSchema,
+        systemInstruction: request.systemPrompt,
+        temperature: generation?.temperature,
+        maxOutputTokens: generation?.maxOutputTokens,
+        ...(generation?.thinkingBudget !== undefined && { thinkingConfig: { thinkingBudget: generation.thinkingBudget } }),
+        abortSignal: request.signal
+      }
+    };
+  };
+  // With responseSchema, the output is guaranteed to be valid JSON structure (if the model adheres to it)
+  const generate: Generate = async (request, responseSchema) => {
+    const response = await ai.models.generateContent(toParams(request, responseSchema));
+    reportUsage(request, geminiUsage(response.usageMetadata));
+    return response.text || '';
+  };
+  // Every chunk carries running totals, so the last one holds the final counts
+  const stream: Stream = async (request, responseSchema, onText) => {
+    let text = '';
+    let usage: TokenUsage | undefined;
+    for await (const chunk of await ai.models.generateContentStream(toParams(request, responseSchema))) {
+      text += chunk.text || '';
+      usage = geminiUsage(chunk.usageMetadata) || usage;
+      onText(text);
+    }
+    reportUsage(request, usage);
+    return text;
+  };
+  return buildProvider('gemini', model, generate, stream);
+};
+
+const createOpenAIProvider = (endpoint: string, apiKey: string, model: string): LLMProvider => {
+  const url = `${trimSlash(endpoint)}/chat/completions`;
+  const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  const toBody = (request: LLMRequest, responseSchema?: Schema) => {
+    const { generation } = request;
+    return {
+      model: generation?.model || model,
+      messages: toOpenAIMessages(request),
+      temperature: generation?.temperature,
+      max_tokens: generation?.maxOutputTokens,
+      ...(responseSchema && {
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(responseSchema) } }
+      }),
+    };
+  };
+  const generate: Generate = async (request, responseSchema) => {
+    const data = await postJSON(url, toBody(request, responseSchema), headers, request.signal);
+    reportUsage(request, openAIUsage(data.usage));
+    return (data.choices?.[0]?.message?.content as string) || '';
+  };
+  // Server-sent events: "data: {json}" lines ending with "data: [DONE]"; usage arrives in a final chunk
+  const stream: Stream = async (request, responseSchema, onText) => {
+    const body = { ...toBody(request, responseSchema), stream: true, stream_options: { include_usage: true } };
+    const response = await postRequest(url, body, headers, request.signal);
+    let text = '';
+    let usage: TokenUsage | undefined;
+    await readLines(response, line => {
+      if (!line.startsWith('data:')) return;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return;
+      const data = JSON.parse(payload);
+      usage = openAIUsage(data.usage) || usage;
+      const delta = data.choices?.[0]?.delta?.content;
+      if (!delta) return;
+      text += delta;
+      onText(text);
+    });
+    reportUsage(request, usage);
+    return text;
+  };
+  return buildProvider('openai', model, generate, stream);
+};
+
+const createOllamaProvider = (endpoint: string, model: string): LLMProvider => {
+  const url = `${trimSlash(endpoint)}/api/chat`;
+  const toBody = (request: LLMRequest, responseSchema: Schema | undefined, streaming: boolean) => {
+    const { generation } = request;
+    return {
+      model: generation?.model || model,
+      messages: toOllamaMessages(request),
+      stream: streaming,
+      options: { temperature: generation?.temperature, num_predict: generation?.maxOutputTokens },
+      ...(responseSchema && { format: toJsonSchema(responseSchema) }),
+    };
+  };
+  const generate: Generate = async (request, responseSchema) => {
+    const data = await postJSON(url, toBody(request, responseSchema, false), {}, request.signal);
+    reportUsage(request, ollamaUsage(data));
+    return (data.message?.content as string) || '';
+  };
+  // Newline-delimited JSON, one message fragment per line; the closing line has done: true and the counts
+  const stream: Stream = async (request, responseSchema, onText) => {
+    const response = await postRequest(url, toBody(request, responseSchema, true), {}, request.signal);
+    let text = '';
+    await readLines(response, line => {
+      const data = JSON.parse(line);
+      reportUsage(request, ollamaUsage(data));
+      const delta = data.message?.content;
+      if (!delta) return;
+      text += delta;
+      onText(text);
+    });
+    return text;
+  };
+  return buildProvider('ollama', model, generate, stream);
+};
+
+// Builds a provider from explicit settings; used both for analyses and for the connection test in settings
+export const createLLMProvider = (settings: LLMSettings, apiKey: string): LLMProvider => {
+  const model = settings.model.trim() || DEFAULT_LLM_MODELS[settings.provider];
+  const endpoint = settings.endpoint.trim() || DEFAULT_LLM_ENDPOINTS[settings.provider];
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAIProvider(endpoint, apiKey, model);
+    case 'ollama':
+      return createOllamaProvider(endpoint, model);
+    default:
+      return createGeminiProvider(apiKey, model);
+  }
+};
+
+export const getActiveProvider = (): LLMProvider => {
+  const settings = getLLMSettings();
+  if (settings.provider === 'gemini') {
+    const storedKey = localStorage.getItem(GEMINI_KEY_STORAGE_KEY);
+    if (!storedKey) {
+      throw new Error("Gemini API 키가 설정되지 않았습니다. 설정 메뉴에서 키를 등록해주세요.");
+    }
+    return createLLMProvider(settings, decryptKey(storedKey));
+  }
+  return createLLMProvider(settings, settings.provider === 'openai' ? getOpenAIApiKey() : '');
+};
+
+export const validateLLMProvider = async (settings: LLMSettings, apiKey: string): Promise<boolean> => {
+  try {
+    // 가벼운 테스트 요청
+    await createLLMProvider(settings, apiKey).generateText({ prompt: 'ping' });
+    return true;
+  } catch (error) {
+    console.error("LLM Provider Validation Error:", error);
+    return false;
+  }
+};
@@ -0,0 +1,83 @@
+import { MarketMetrics, ChannelComparisonMetrics, YouTubeChannel, YouTubeVideo } from '../types';
+import { parseDuration } from '../utils';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MS_PER_WEEK = 7 * MS_PER_DAY;
+
+// Same cut-off the charts and filters use to tell Shorts from regular videos
+const SHORTS_MAX_SECONDS = 180;
+
+// Channels whose upload pace is averaged into topChannelLifetimeUploadsPerWeek
+const TOP_CHANNEL_COUNT = 5;
+
+const median = (sorted: number[]): number => {
+  if (sorted.length === 0) return 0;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// 0 when every video has the same views, approaching 1 when a single video has them all
+const gini = (sorted: number[], total: number): number => {
+  if (sorted.length < 2 || total === 0) return 0;
+  const weighted = sorted.reduce((acc, value, i) => acc + (i + 1) * value, 0);
+  return (2 * weighted) / (sorted.length * total) - (sorted.length + 1) / sorted.length;
+};
+
+// Lifetime average, not current pace: public video count over channel age. Channels without a creation date are skipped.
+const lifetimeUploadsPerWeek = (channel: YouTubeChannel, now: number): number | null => {
+  if (!channel.publishedAt) return null;
+  const weeks = Math.max(1, (now - new Date(channel.publishedAt).getTime()) / MS_PER_WEEK);
+  return channel.videoCount / weeks;
+};
+
+export const computeMarketMetrics = (videos: YouTubeVideo[], channels: YouTubeChannel[] = []): MarketMetrics => {
+  const views = videos.map(v => v.viewCount || 0).sort((a, b) => a - b);
+  const totalViews = views.reduce((acc, value) => acc + value, 0);
+
+  const topCount = Math.max(1, Math.ceil(views.length * 0.1));
+  const topViews = views.slice(-topCount).reduce((acc, value) => acc + value, 0);
+
+  // Channel share is measured in views summed over each channel's videos in the search result
+  const channelViews = new Map<string, number>();
+  videos.forEach(v => channelViews.set(v.channelId, (channelViews.get(v.channelId) || 0) + (v.viewCount || 0)));
+  const channelHHI = totalViews > 0
+    ? Array.from(channelViews.values()).reduce((acc, value) => acc + Math.pow((value / totalViews) * 100, 2), 0)
+    : 0;
+
+  const now = Date.now();
+  const channelById = new Map(channels.map(c => [c.id, c]));
+  const paces = Array.from(channelViews.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => channelById.get(id))
+    .filter((c): c is YouTubeChannel => !!c)
+    .map(c => lifetimeUploadsPerWeek(c, now))
+    .filter((pace): pace is number => pace !== null)
+    .slice(0, TOP_CHANNEL_COUNT);
+
+  return {
+    videoCount: videos.length,
+    channelCount: channelViews.size,
+    avgViews: videos.length > 0 ? totalViews / videos.length : 0,
+    medianViews: median(views),
+    viewGini: gini(views, totalViews),
+    top10ViewShare: totalViews > 0 ? topViews / totalViews : 0,
+    channelHHI,
+    topChannelLifetimeUploadsPerWeek: paces.length > 0 ? paces.reduce((acc, pace) => acc + pace, 0) / paces.length : 0,
+  };
+};
+
+export const computeChannelMetrics = (channel: YouTubeChannel, videos: YouTubeVideo[]): ChannelComparisonMetrics => {
+  const totalViews = videos.reduce((acc, v) => acc + (v.viewCount || 0), 0);
+  const totalReactions = videos.reduce((acc, v) => acc + (v.likeCount || 0) + (v.commentCount || 0), 0);
+  const times = videos.map(v => new Date(v.publishedAt).getTime()).sort((a, b) => a - b);
+  const span = times.length > 1 ? times[times.length - 1] - times[0] : 0;
+
+  return {
+    subscriberCount: channel.subscriberCount,
+    videoCount: videos.length,
+    avgViews: videos.length > 0 ? totalViews / videos.length : 0,
+    uploadIntervalDays: times.length > 1 ? span / (times.length - 1) / MS_PER_DAY : 0,
+    shortsRatio: videos.length > 0 ? videos.filter(v => parseDuration(v.duration) < SHORTS_MAX_SECONDS).length / videos.length : 0,
+    engagementRate: totalViews > 0 ? totalReactions / totalViews : 0,
+  };
+};
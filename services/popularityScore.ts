@@ -0,0 +1,159 @@
+import { ScoreNormalization, ScoringPreset, YouTubeVideo } from '../types';
+
+const PRESETS_STORAGE_KEY = 'scoring_presets';
+const ACTIVE_STORAGE_KEY = 'scoring_active';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// A video uploaded today counts as a day old so its per-day rate doesn't blow up
+const MIN_AGE_DAYS = 1;
+// In z-score mode the mean lands at 50 and two standard deviations either side span 0 to 100
+const Z_SCORE_SPREAD = 2;
+
+export const NORMALIZATION_LABELS: Record<ScoreNormalization, string> = {
+  max: '최댓값 대비',
+  log: '로그',
+  percentile: '백분위',
+  zscore: 'Z-점수',
+};
+
+const NORMALIZATION_FORMULAS: Record<ScoreNormalization, string> = {
+  max: 'x / 최댓값',
+  log: 'log(1 + x) / log(1 + 최댓값)',
+  percentile: '목록 내 순위 백분위 (동점은 중간 순위)',
+  zscore: `(x - 평균) / 표준편차를 ±${Z_SCORE_SPREAD}σ 범위로 0~1에 맞춤`,
+};
+
+// The first preset reproduces the original 50/30/20 max-normalized score
+export const BUILT_IN_SCORING_PRESETS: ScoringPreset[] = [
+  { name: '기본 (최댓값 · 50/30/20)', normalization: 'max', ageAdjusted: false, weights: { views: 50, likes: 30, comments: 20 } },
+  { name: '바이럴 완화 (로그 · 일평균)', normalization: 'log', ageAdjusted: true, weights: { views: 50, likes: 30, comments: 20 } },
+  { name: '순위 기준 (백분위 · 일평균)', normalization: 'percentile', ageAdjusted: true, weights: { views: 50, likes: 30, comments: 20 } },
+  { name: '참여 중심 (Z-점수 · 일평균)', normalization: 'zscore', ageAdjusted: true, weights: { views: 30, likes: 35, comments: 35 } },
+];
+
+export const DEFAULT_SCORING_PRESET = BUILT_IN_SCORING_PRESETS[1];
+
+export const isBuiltInPreset = (name: string) => BUILT_IN_SCORING_PRESETS.some(p => p.name === name);
+
+const isValidWeight = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Stored presets come from localStorage, so every field is checked before scores are computed from it
+const isValidPreset = (value: unknown): value is ScoringPreset => {
+  if (typeof value !== 'object' || value === null) return false;
+  const preset = value as Record<string, unknown>;
+  const weights = preset.weights as Record<string, unknown> | null | undefined;
+  return typeof preset.name === 'string'
+    && typeof preset.normalization === 'string' && preset.normalization in NORMALIZATION_LABELS
+    && typeof preset.ageAdjusted === 'boolean'
+    && typeof weights === 'object' && weights !== null
+    && isValidWeight(weights.views) && isValidWeight(weights.likes) && isValidWeight(weights.comments);
+};
+
+const getSavedPresets = (): ScoringPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isValidPreset) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const getScoringPresets = (): ScoringPreset[] => [...BUILT_IN_SCORING_PRESETS, ...getSavedPresets()];
+
+// Saving under an existing custom name overwrites it; built-in names are reserved
+export const saveScoringPreset = (preset: ScoringPreset): ScoringPreset[] => {
+  if (isBuiltInPreset(preset.name)) {
+    throw new Error('기본 프리셋과 같은 이름으로는 저장할 수 없습니다.');
+  }
+  const saved = [...getSavedPresets().filter(p => p.name !== preset.name), preset];
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(saved));
+  return [...BUILT_IN_SCORING_PRESETS, ...saved];
+};
+
+export const deleteScoringPreset = (name: string): ScoringPreset[] => {
+  const saved = getSavedPresets().filter(p => p.name !== name);
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(saved));
+  return [...BUILT_IN_SCORING_PRESETS, ...saved];
+};
+
+// The setup in use, including tweaks not saved as a preset; shared by every view
+export const getActiveScoring = (): ScoringPreset => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ACTIVE_STORAGE_KEY) || 'null');
+    return isValidPreset(stored) ? stored : DEFAULT_SCORING_PRESET;
+  } catch (e) {
+    return DEFAULT_SCORING_PRESET;
+  }
+};
+
+export const setActiveScoring = (preset: ScoringPreset) => {
+  localStorage.setItem(ACTIVE_STORAGE_KEY, JSON.stringify(preset));
+};
+
+// Maps raw values onto 0 to 1 relative to the rest of the list
+const normalize = (values: number[], method: ScoreNormalization): number[] => {
+  if (values.length === 0) return [];
+  const max = Math.max(...values);
+
+  switch (method) {
+    case 'log': {
+      const logMax = Math.log1p(max);
+      return values.map(v => logMax > 0 ? Math.log1p(v) / logMax : 0);
+    }
+    case 'percentile': {
+      if (values.length === 1) return [1];
+      // Sorted once; each run of equal values shares the middle of the ranks it spans
+      const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+      const ranks = new Array<number>(values.length);
+      for (let start = 0; start < order.length;) {
+        let end = start;
+        while (end + 1 < order.length && values[order[end + 1]] === values[order[start]]) end++;
+        for (let k = start; k <= end; k++) ranks[order[k]] = ((start + end) / 2) / (values.length - 1);
+        start = end + 1;
+      }
+      return ranks;
+    }
+    case 'zscore': {
+      const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+      const sd = Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+      return values.map(v => {
+        const z = sd > 0 ? (v - mean) / sd : 0;
+        return Math.min(1, Math.max(0, (z + Z_SCORE_SPREAD) / (2 * Z_SCORE_SPREAD)));
+      });
+    }
+    default:
+      return values.map(v => max > 0 ? v / max : 0);
+  }
+};
+
+// 0 to 100 popularity score per video ID, relative to the other videos passed in
+export const scoreVideos = (videos: YouTubeVideo[], preset: ScoringPreset, now = Date.now()): Record<string, number> => {
+  const { views, likes, comments } = preset.weights;
+  const totalWeight = views + likes + comments;
+  const ages = videos.map(v => preset.ageAdjusted
+    ? Math.max(MIN_AGE_DAYS, (now - new Date(v.publishedAt).getTime()) / MS_PER_DAY)
+    : 1);
+
+  const metric = (count: (v: YouTubeVideo) => number) =>
+    normalize(videos.map((v, i) => (count(v) || 0) / ages[i]), preset.normalization);
+  const viewScores = metric(v => v.viewCount);
+  const likeScores = metric(v => v.likeCount);
+  const commentScores = metric(v => v.commentCount);
+
+  return Object.fromEntries(videos.map((v, i) => {
+    const blended = totalWeight > 0
+      ? (viewScores[i] * views + likeScores[i] * likes + commentScores[i] * comments) / totalWeight
+      : 0;
+    return [v.id, Math.round(blended * 100)];
+  }));
+};
+
+// Human-readable form of the score in use, shown next to scores and the score chart
+export const describeScoringFormula = (preset: ScoringPreset): string => {
+  const { views, likes, comments } = preset.weights;
+  const unit = preset.ageAdjusted ? '일평균 ' : '';
+  const total = views + likes + comments || 1;
+  const share = (w: number) => Math.round((w / total) * 100);
+  return `점수 = ${share(views)}×N(${unit}조회수) + ${share(likes)}×N(${unit}좋아요) + ${share(comments)}×N(${unit}댓글), `
+    + `N = ${NORMALIZATION_LABELS[preset.normalization]} 정규화: ${NORMALIZATION_FORMULAS[preset.normalization]}`;
+};
@@ -0,0 +1,325 @@
+import { PromptTemplateId, PromptTemplateVersion } from '../types';
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+  sample: string; // Filled in for the settings preview
+}
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId;
+  label: string;
+  variables: PromptVariable[];
+  defaultBody: string;
+  revisedBodies?: string[]; // Later built-in bodies, oldest first, published as v2, v3 and so on
+}
+
+// Version 1 of every template is its original built-in body, followed by any built-in revisions;
+// saved edits are numbered after the newest of them
+export const DEFAULT_TEMPLATE_VERSION = 1;
+
+const STORAGE_KEY = 'prompt_templates';
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  system: {
+    id: 'system',
+    label: '시스템 페르소나',
+    variables: [],
+    defaultBody: `당신은 세계 최고의 유튜브 전략 컨설턴트 'TubeMaster AI'입니다.
+데이터를 기반으로 매우 구체적이고 실현 가능한 전략을 한국어로 제시해야 합니다.
+뻔한 조언(예: "꾸준히 올리세요")은 절대 금지입니다.
+데이터에서 발견된 구체적인 패턴(성공한 썸네일 스타일, 제목 패턴, 영상 길이 등)을 바탕으로 통찰력을 제공하세요.`,
+    revisedBodies: [
+      // v2: the answer language now comes from the report language setting
+      `당신은 세계 최고의 유튜브 전략 컨설턴트 'TubeMaster AI'입니다.
+데이터를 기반으로 매우 구체적이고 실현 가능한 전략을 제시해야 합니다.
+뻔한 조언(예: "꾸준히 올리세요")은 절대 금지입니다.
+데이터에서 발견된 구체적인 패턴(성공한 썸네일 스타일, 제목 패턴, 영상 길이 등)을 바탕으로 통찰력을 제공하세요.`,
+    ],
+  },
+  channel: {
+    id: 'channel',
+    label: '채널 컨설팅 리포트',
+    variables: [
+      { name: 'channelStats', description: '채널 이름, 구독자, 총 조회수, 국가', sample: '이름: 예시 채널\n구독자: 120000\n총 조회수: 35000000\n국가: KR' },
+      { name: 'videoCount', description: '불러온 전체 영상 수', sample: '200' },
+      { name: 'sampleCount', description: '프롬프트에 포함된 영상 수', sample: '200' },
+      { name: 'periodStart', description: '첫 업로드 날짜', sample: '2021-03-02' },
+      { name: 'periodEnd', description: '마지막 업로드 날짜', sample: '2024-05-30' },
+      { name: 'videoSummary', description: '영상별 날짜, ID, 제목, 조회수, 좋아요, 길이 목록', sample: '[2024-05-30] (ID: dQw4w9WgXcQ) 예시 영상 제목 (Views: 52000, Likes: 1300, Duration: PT12M4S)' },
+    ],
+    defaultBody: `다음 유튜브 채널을 심층 분석하여 전문가 수준의 컨설팅 보고서를 작성해줘.
+
+[채널 정보]
+{{channelStats}}
+
+[업로드 영상 데이터 (총 {{videoCount}}개 중 {{sampleCount}}개, {{periodStart}} ~ {{periodEnd}})]
+{{videoSummary}}
+
+각 항목은 매우 구체적이어야 하며, 실질적인 솔루션을 포함해야 합니다.`,
+    revisedBodies: [
+      // v2: asks for the IDs of the videos each item is based on
+      `다음 유튜브 채널을 심층 분석하여 전문가 수준의 컨설팅 보고서를 작성해줘.
+
+[채널 정보]
+{{channelStats}}
+
+[업로드 영상 데이터 (총 {{videoCount}}개 중 {{sampleCount}}개, {{periodStart}} ~ {{periodEnd}})]
+{{videoSummary}}
+
+각 항목은 매우 구체적이어야 하며, 실질적인 솔루션을 포함해야 합니다.
+성장 단계, 진단, 전략마다 판단의 근거가 된 영상을 위 목록의 ID로 evidenceVideoIds에 적어주세요.`,
+    ],
+  },
+  keyword: {
+    id: 'keyword',
+    label: '키워드 시장 분석',
+    variables: [
+      { name: 'keyword', description: '검색 키워드', sample: '캠핑 요리' },
+      { name: 'topVideos', description: '상위 영상 제목, 채널, 조회수, 길이 목록', sample: 'Title: 예시 영상, Channel: 예시 채널, Views: 98000, Duration: PT8M30S' },
+    ],
+    defaultBody: `키워드 '{{keyword}}'에 대한 유튜브 시장 분석을 수행해줘.
+
+[상위 인기 영상 데이터]
+{{topVideos}}`,
+  },
+  opportunity: {
+    id: 'opportunity',
+    label: '시장 기회 분석',
+    variables: [
+      { name: 'topic', description: '분석 주제', sample: '홈카페' },
+      { name: 'statsSummary', description: '영상 수, 평균/중간값 조회수, 채널 수, 지니계수, 상위 10% 점유율, HHI, 상위 채널 업로드 빈도', sample: '- 총 분석 영상 수: 25개\n- 평균 조회수: 48000회\n- 조회수 지니계수: 0.62 (0 = 고르게 분산, 1 = 한 영상이 독식)\n- 채널 조회수 점유율 HHI: 1840 (1500 미만 = 분산, 1500~2500 = 중간 집중, 2500 초과 = 고집중)' },
+    ],
+    defaultBody: `주제 '{{topic}}'에 대한 유튜브 시장 기회를 분석해줘.
+
+[시장 데이터 통계]
+{{statsSummary}}
+
+다음 3가지 관점에서 분석하고 최종적으로 Red Ocean인지 Blue Ocean인지 판단해.
+1. 조회수 분포: 소수 독식 vs 고른 분산
+2. 채널 집중도: 독과점 여부
+3. 채널 활성도: 경쟁 강도`,
+  },
+  summary: {
+    id: 'summary',
+    label: '영상 요약',
+    variables: [
+      { name: 'title', description: '영상 제목', sample: '예시 영상 제목' },
+      { name: 'description', description: '영상 설명', sample: '영상 설명 예시' },
+      { name: 'tags', description: '쉼표로 구분된 태그', sample: '캠핑, 요리' },
+      { name: 'viewCount', description: '조회수', sample: '52000' },
+    ],
+    defaultBody: `다음 유튜브 영상의 메타데이터를 바탕으로 영상을 요약하고 분석해줘.
+
+[영상 정보]
+제목: {{title}}
+설명: {{description}}
+태그: {{tags}}
+조회수: {{viewCount}}
+
+3문장으로 답변해:
+1. 핵심 콘텐츠 내용 요약
+2. 이 영상이 인기 있는(또는 없는) 이유 추론
+3. 벤치마킹 포인트
+
+형식: "- 내용: ...\n- 분석: ...\n- 벤치마킹: ..."
+간결하게 작성해.`,
+  },
+  thumbnail: {
+    id: 'thumbnail',
+    label: '썸네일 분석',
+    variables: [
+      { name: 'subject', description: '채널 이름 또는 검색 키워드', sample: '예시 채널' },
+      { name: 'topCount', description: '조회수 상위 썸네일 수', sample: '5' },
+      { name: 'bottomCount', description: '조회수 하위 썸네일 수', sample: '5' },
+      { name: 'imageList', description: '첨부 순서대로 번호를 붙인 영상 제목과 조회수 목록', sample: '이미지 1 [상위] 예시 영상 제목 (조회수 520000)\n이미지 6 [하위] 예시 영상 제목 (조회수 3100)' },
+    ],
+    defaultBody: `'{{subject}}'의 조회수 상위 {{topCount}}개, 하위 {{bottomCount}}개 영상 썸네일을 첨부했어.
+첨부 이미지는 아래 목록과 같은 순서야.
+
+[썸네일 목록]
+{{imageList}}
+
+썸네일을 직접 보고 상위와 하위 그룹을 비교해 다음 항목을 분석해줘.
+1. 텍스트 오버레이: 글자 유무, 글자 수, 크기, 강조 방식
+2. 얼굴: 인물 등장 여부, 표정, 시선, 화면 내 비중
+3. 색감: 주요 색상, 대비, 채도, 밝기
+4. 구도: 피사체 배치, 배경 복잡도, 시선 유도
+
+각 항목마다 상위 그룹과 하위 그룹의 패턴이 어떻게 다르고, 그 차이가 조회수와 어떤 관계가 있는지 설명해.`,
+  },
+  title: {
+    id: 'title',
+    label: '제목 실험실',
+    variables: [
+      { name: 'input', description: '사용자가 입력한 주제 또는 초안 제목', sample: '초보 캠핑 장비 추천' },
+      { name: 'keyword', description: '벤치마크 검색 키워드', sample: '캠핑 장비' },
+      { name: 'count', description: '생성할 제목 수', sample: '10' },
+      { name: 'benchmarkSummary', description: '상위 영상 제목의 길이 범위, 숫자/괄호/이모지 사용 비율, 반복 키워드', sample: '- 제목 길이: 22~38자 (중간값 30자)\n- 숫자 사용: 45%' },
+      { name: 'topTitles', description: '조회수 상위 영상 제목과 조회수 목록', sample: '- 캠핑 장비 이것만 사세요 (조회수 820000)' },
+    ],
+    defaultBody: `'{{input}}'을(를) 주제로 한 유튜브 영상 제목 후보 {{count}}개를 만들어줘.
+
+[시장 데이터: '{{keyword}}' 검색 상위 영상 제목 특징]
+{{benchmarkSummary}}
+
+[조회수 상위 영상 제목]
+{{topTitles}}
+
+상위 영상 제목의 길이, 숫자·괄호·이모지 사용 관습, 반복 키워드를 참고하되 그대로 베끼지 말고,
+서로 다른 후킹 방식(호기심, 숫자, 결과 제시, 문제 제기 등)을 섞어줘.
+각 후보마다 클릭 유도력을 0-100점으로 냉정하게 평가하고 이유를 한 줄로 적어.`,
+  },
+  outline: {
+    id: 'outline',
+    label: '영상 기획안',
+    variables: [
+      { name: 'title', description: '기획할 영상 제목', sample: '초보가 절대 사면 안 되는 캠핑 장비 5가지' },
+      { name: 'source', description: '추천 제목인지, 참고 영상(제목·설명·길이·조회수)인지', sample: '채널 리포트의 추천 제목' },
+      { name: 'targetLength', description: '상위 영상 길이의 중간값', sample: '12분 30초' },
+      { name: 'topVideos', description: '분석 대상의 조회수 상위 영상 제목, 조회수, 길이 목록', sample: '- 캠핑 장비 이것만 사세요 (조회수 820000, 길이 PT14M2S)' },
+    ],
+    defaultBody: `'{{title}}' 영상의 제작 기획안을 작성해줘.
+
+[출발점]
+{{source}}
+
+[조회수 상위 영상 (참고 패턴)]
+{{topVideos}}
+
+상위 영상들의 제목·길이·구성 패턴을 따르고, 전체 길이는 {{targetLength}} 안팎으로 잡아.
+1. 첫 15초 훅: 시청자가 이탈하지 않도록 화면 연출과 멘트를 구체적으로
+2. 챕터: m:ss 타임스탬프와 함께 각 챕터의 내용
+3. CTA: 구독·댓글·다음 영상 유도를 어느 시점에 어떤 멘트로 넣을지
+4. 썸네일 문구 후보 3개
+5. 이 영상을 60초 이내 쇼츠로 줄이는 아이디어`,
+  },
+  chat: {
+    id: 'chat',
+    label: '리포트 후속 질문',
+    variables: [
+      { name: 'subject', description: '채널 이름 또는 검색 키워드', sample: '캠핑요리TV' },
+      { name: 'reportJson', description: '완성된 분석 리포트 (JSON)', sample: '{"summary": "..."}' },
+      { name: 'videoCount', description: '목록에 포함된 영상 수', sample: '50' },
+      { name: 'videoList', description: '영상 목록 (한 줄에 하나, ID·날짜·제목·지표)', sample: '[abc123] 2024-05-01 | 캠핑 요리 10분 완성 | 조회 52000 | 좋아요 1200 | 댓글 85 | PT12M30S' },
+    ],
+    defaultBody: `"{{subject}}"에 대해 이미 작성된 분석 리포트와 그 근거가 된 영상 목록이다.
+사용자가 이 리포트를 읽고 이어서 질문한다. 아래 자료를 근거로 답하고, 자료에 없는 수치는 지어내지 마.
+특정 영상을 근거로 들 때는 제목과 날짜를 함께 밝혀.
+
+[분석 리포트]
+{{reportJson}}
+
+[영상 목록 ({{videoCount}}개)]
+{{videoList}}
+
+답변은 핵심부터 간결하게 쓰고, 제목이나 아이디어를 요청받으면 번호 목록으로 제시해.`,
+  },
+  transcript: {
+    id: 'transcript',
+    label: '자막 기반 요약',
+    variables: [
+      { name: 'title', description: '영상 제목', sample: '예시 영상 제목' },
+      { name: 'viewCount', description: '조회수', sample: '52000' },
+      { name: 'duration', description: '영상 길이 (m:ss)', sample: '12:30' },
+      { name: 'hookSegments', description: '첫 30초 자막 (구간별 타임스탬프)', sample: '[0:00] 오늘은 10분 만에...\n[0:04] 캠핑장에서...' },
+      { name: 'transcript', description: '전체 자막 (30초 단위로 묶은 타임스탬프 목록)', sample: '[0:00] 오늘은 10분 만에 ...\n[0:30] 먼저 재료는 ...' },
+    ],
+    defaultBody: `다음 유튜브 영상의 자막을 바탕으로 실제 내용을 요약하고 분석해줘.
+
+[영상 정보]
+제목: {{title}}
+조회수: {{viewCount}}
+길이: {{duration}}
+
+[첫 30초 자막]
+{{hookSegments}}
+
+[전체 자막]
+{{transcript}}
+
+1. 요약: 제목이 아니라 자막에 실제로 나온 내용을 3~5문장으로
+2. 훅 분석: 첫 30초가 어떤 장치(질문, 결과 먼저 보여주기, 갈등 등)로 시청자를 붙잡는지, 약한 점은 무엇인지
+3. 챕터: 자막 타임스탬프를 기준으로 주제가 바뀌는 지점마다 챕터를 나누고 각 챕터의 내용을 한 문장으로`,
+  },
+  compare: {
+    id: 'compare',
+    label: '채널 비교',
+    variables: [
+      { name: 'channelCount', description: '비교하는 채널 수', sample: '2' },
+      { name: 'channelStats', description: '채널별 지표 (구독자, 평균 조회수, 업로드 간격, 쇼츠 비율, 참여율)', sample: '[1] 캠핑요리TV (우리 채널)\n- 구독자: 120000\n- 평균 조회수: 35000' },
+      { name: 'topVideos', description: '채널별 조회수 상위 영상', sample: '[1] 캠핑요리TV\n- 10분 캠핑 요리 (조회수 520000)' },
+    ],
+    defaultBody: `유튜브 채널 {{channelCount}}개를 나란히 비교해줘. 첫 번째 채널이 우리 채널이고 나머지는 경쟁 채널이야.
+
+[채널별 지표]
+{{channelStats}}
+
+[채널별 조회수 상위 영상]
+{{topVideos}}
+
+1. 종합 판정: 누가 어떤 면에서 앞서는지 3줄로
+2. 항목별 승자: 콘텐츠, 시청자 참여, 업로드 주기, 포맷(쇼츠/일반), 브랜딩 등 항목마다 앞선 채널과 지표를 근거로 한 이유
+3. 채널별 강점과 약점
+4. 우리 채널이 격차를 좁히기 위한 실행 계획
+
+승자와 채널 이름은 위 목록의 채널 이름을 그대로 써.`,
+  },
+};
+
+const loadStored = (): Partial<Record<PromptTemplateId, PromptTemplateVersion[]>> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const getBuiltInVersions = (id: PromptTemplateId): PromptTemplateVersion[] => {
+  const { defaultBody, revisedBodies = [] } = PROMPT_TEMPLATES[id];
+  return [defaultBody, ...revisedBodies].map((body, i) => ({ version: DEFAULT_TEMPLATE_VERSION + i, body, savedAt: '' }));
+};
+
+const getLatestBuiltInBody = (id: PromptTemplateId): string => {
+  const builtIn = getBuiltInVersions(id);
+  return builtIn[builtIn.length - 1].body;
+};
+
+// Every version of a template, oldest first, starting with the built-in bodies. An edit saved before a
+// built-in revision was published keeps its number, and the revision is left out of that template's history.
+export const getTemplateVersions = (id: PromptTemplateId): PromptTemplateVersion[] => {
+  const saved = loadStored()[id] || [];
+  const taken = new Set(saved.map(v => v.version));
+  return [...getBuiltInVersions(id).filter(v => !taken.has(v.version)), ...saved].sort((a, b) => a.version - b.version);
+};
+
+export const getActiveTemplate = (id: PromptTemplateId): PromptTemplateVersion => {
+  const versions = getTemplateVersions(id);
+  return versions[versions.length - 1];
+};
+
+// Saves the body as a new version; returns it unchanged if it matches the active one.
+// Versions are never rewritten, so the number recorded on a report always identifies its prompt.
+export const saveTemplateVersion = (id: PromptTemplateId, body: string): PromptTemplateVersion => {
+  const active = getActiveTemplate(id);
+  if (active.body === body) return active;
+  const stored = loadStored();
+  const next: PromptTemplateVersion = { version: active.version + 1, body, savedAt: new Date().toISOString() };
+  stored[id] = [...(stored[id] || []), next];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  return next;
+};
+
+export const resetTemplate = (id: PromptTemplateId): PromptTemplateVersion => {
+  return saveTemplateVersion(id, getLatestBuiltInBody(id));
+};
+
+// Replaces {{name}} placeholders; unknown names are left in place so typos stay visible
+export const renderTemplate = (body: string, variables: Record<string, string | number>): string => {
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => name in variables ? String(variables[name]) : match);
+};
+
+export const renderPreview = (id: PromptTemplateId, body: string): string => {
+  const samples = Object.fromEntries(PROMPT_TEMPLATES[id].variables.map(v => [v.name, v.sample]));
+  return renderTemplate(body, samples);
+};
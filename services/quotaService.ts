@@ -0,0 +1,89 @@
+import { YouTubeEndpoint, QuotaUsage, QuotaBudget } from '../types';
+
+// Unit costs from the YouTube Data API v3 quota table
+export const QUOTA_COSTS: Record<YouTubeEndpoint, number> = {
+  search: 100,
+  channels: 1,
+  playlistItems: 1,
+  videos: 1,
+  videoCategories: 1,
+};
+
+export const DEFAULT_DAILY_QUOTA = 10000;
+
+const USAGE_STORAGE_KEY = 'yt_quota_usage';
+const BUDGET_STORAGE_KEY = 'yt_quota_budget';
+const QUOTA_CHANGE_EVENT = 'yt-quota-change';
+
+// The daily quota resets at midnight Pacific Time, so the day boundary follows that zone
+const getQuotaDate = (): string => {
+  return new Date().toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
+};
+
+export const getQuotaUsage = (): QuotaUsage => {
+  const today = getQuotaDate();
+  try {
+    const stored = JSON.parse(localStorage.getItem(USAGE_STORAGE_KEY) || 'null') as QuotaUsage | null;
+    if (stored && stored.date === today) return stored;
+  } catch (e) {
+    // Corrupted entry, start the day over
+  }
+  return { date: today, used: 0, byEndpoint: {} };
+};
+
+export const recordQuotaUsage = (endpoint: YouTubeEndpoint) => {
+  const usage = getQuotaUsage();
+  const cost = QUOTA_COSTS[endpoint];
+  usage.used += cost;
+  usage.byEndpoint[endpoint] = (usage.byEndpoint[endpoint] || 0) + cost;
+  localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(usage));
+  window.dispatchEvent(new Event(QUOTA_CHANGE_EVENT));
+};
+
+export const getQuotaBudget = (): QuotaBudget => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) || 'null') as QuotaBudget | null;
+    if (stored && stored.limit > 0) return stored;
+  } catch (e) {
+    // Fall through to the default budget
+  }
+  return { limit: DEFAULT_DAILY_QUOTA, mode: 'warn' };
+};
+
+export const setQuotaBudget = (budget: QuotaBudget) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+  window.dispatchEvent(new Event(QUOTA_CHANGE_EVENT));
+};
+
+// Notifies on usage or budget changes from this tab and from other open tabs
+export const subscribeQuota = (listener: () => void): (() => void) => {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === USAGE_STORAGE_KEY || e.key === BUDGET_STORAGE_KEY) listener();
+  };
+  window.addEventListener(QUOTA_CHANGE_EVENT, listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(QUOTA_CHANGE_EVENT, listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
+
+export const estimateQuotaCost = (calls: Partial<Record<YouTubeEndpoint, number>>): number => {
+  return (Object.entries(calls) as [YouTubeEndpoint, number][])
+    .reduce((acc, [endpoint, count]) => acc + QUOTA_COSTS[endpoint] * count, 0);
+};
+
+// Asks before an action that would push today's usage past the budget.
+// Returns false when the action should not run.
+export const confirmQuotaBudget = (estimatedUnits: number): boolean => {
+  const { used } = getQuotaUsage();
+  const { limit, mode } = getQuotaBudget();
+  if (used + estimatedUnits <= limit) return true;
+
+  const message = `이 작업은 약 ${estimatedUnits.toLocaleString()} 유닛을 사용합니다.\n오늘 사용량 ${used.toLocaleString()} / 예산 ${limit.toLocaleString()} 유닛으로, 실행 시 예산을 초과합니다.`;
+  if (mode === 'block') {
+    alert(`${message}\n\n설정에서 예산을 늘리거나 할당량이 초기화된 후(태평양 시간 자정) 다시 시도해주세요.`);
+    return false;
+  }
+  return confirm(`${message}\n\n계속 진행할까요?`);
+};
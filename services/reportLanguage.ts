@@ -0,0 +1,251 @@
+import { ReportLanguage } from '../types';
+
+const STORAGE_KEY = 'report_language';
+
+export const REPORT_LANGUAGE_LABELS: Record<ReportLanguage, string> = {
+  ko: '한국어',
+  en: 'English',
+  ja: '日本語',
+};
+
+export const getReportLanguage = (): ReportLanguage => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored && stored in REPORT_LANGUAGE_LABELS ? stored as ReportLanguage : 'ko';
+};
+
+export const setReportLanguage = (language: ReportLanguage) => {
+  localStorage.setItem(STORAGE_KEY, language);
+};
+
+// Appended to the system persona, so it also holds for prompts the team has edited
+export const LANGUAGE_DIRECTIVES: Record<ReportLanguage, string> = {
+  ko: '응답의 모든 텍스트 값은 한국어로 작성하세요.',
+  en: 'Write every text value in the response in English, even though these instructions are written in Korean.',
+  ja: '指示は韓国語で書かれていますが、回答のすべてのテキストは日本語で書いてください。',
+};
+
+export type SchemaDescriptionKey =
+  | 'growth.period' | 'growth.summary' | 'growth.strategy' | 'growth.quantitative' | 'growth.contentDepth'
+  | 'channel.summary' | 'channel.concept' | 'channel.direction' | 'channel.detailedOperation'
+  | 'channel.roadmap' | 'channel.titles' | 'channel.kpis' | 'channel.risks' | 'channel.revenue' | 'channel.evidence'
+  | 'keyword.summary' | 'keyword.marketAnalysis' | 'keyword.strengths' | 'keyword.weaknesses'
+  | 'keyword.opportunities' | 'keyword.actionPlan'
+  | 'opportunity.score' | 'opportunity.summary' | 'opportunity.reason' | 'opportunity.viewDistribution'
+  | 'opportunity.channelConcentration' | 'opportunity.channelActivity' | 'opportunity.strategy' | 'opportunity.keywords'
+  | 'thumbnail.summary' | 'thumbnail.textOverlay' | 'thumbnail.faces' | 'thumbnail.colorPalette' | 'thumbnail.composition'
+  | 'thumbnail.topPattern' | 'thumbnail.bottomPattern' | 'thumbnail.viewImpact' | 'thumbnail.recommendations'
+  | 'title.variants' | 'title.title' | 'title.clickAppeal' | 'title.rationale'
+  | 'outline.title' | 'outline.hook' | 'outline.chapters' | 'outline.timestamp' | 'outline.chapterTitle' | 'outline.chapterSummary'
+  | 'outline.ctas' | 'outline.ctaMessage' | 'outline.thumbnailText' | 'outline.shortsIdea'
+  | 'transcript.summary' | 'transcript.hook' | 'transcript.chapters'
+  | 'compare.summary' | 'compare.categories' | 'compare.category' | 'compare.winner' | 'compare.reason'
+  | 'compare.channels' | 'compare.channel' | 'compare.wins' | 'compare.gaps' | 'compare.actionPlan';
+
+// responseSchema field descriptions; the model reads these as per-field instructions
+const SCHEMA_DESCRIPTIONS: Record<ReportLanguage, Record<SchemaDescriptionKey, string>> = {
+  ko: {
+    'growth.period': '분석 기간 (예: 2023.01 ~ 2023.06)',
+    'growth.summary': '성과 요약 (한줄)',
+    'growth.strategy': '주요 전략 및 컨셉 분석',
+    'growth.quantitative': '정량적 성과 분석',
+    'growth.contentDepth': '콘텐츠 및 시청자 심층 분석',
+    'channel.summary': '채널의 현재 상태와 핵심 문제를 3줄로 요약',
+    'channel.concept': '이 채널을 이길 수 있는 새로운 채널 컨셉 제안',
+    'channel.direction': '경쟁 우위를 점할 수 있는 콘텐츠 방향성',
+    'channel.detailedOperation': '상세 운영 방법 (업로드, 썸네일, 편집 스타일 등)',
+    'channel.roadmap': '3개월 집중 성장 로드맵 (월별)',
+    'channel.titles': '성공 보장 영상 제목 10선',
+    'channel.kpis': '핵심 성과 지표 4가지',
+    'channel.risks': '리스크 관리 전략',
+    'channel.revenue': '수익 모델 다각화 전략',
+    'channel.evidence': '이 항목의 근거가 된 영상 ID 1~5개 (영상 데이터에 있는 ID만 그대로 사용)',
+    'keyword.summary': '시장 트렌드 요약',
+    'keyword.marketAnalysis': '시장 주도 채널 및 콘텐츠 분석',
+    'keyword.strengths': '성공 요인/강점',
+    'keyword.weaknesses': '시장 빈틈/약점',
+    'keyword.opportunities': '기회 요인',
+    'keyword.actionPlan': '필승 전략',
+    'opportunity.score': '기회 점수 (0-100)',
+    'opportunity.summary': '시장 요약',
+    'opportunity.reason': '판단 근거',
+    'opportunity.viewDistribution': '조회수 지니계수와 상위 10% 점유율로 본 조회수 분포 해석',
+    'opportunity.channelConcentration': 'HHI로 본 채널 집중도 해석',
+    'opportunity.channelActivity': '상위 채널 업로드 빈도로 본 경쟁 강도 해석',
+    'opportunity.strategy': '차별화 진입 전략',
+    'opportunity.keywords': '추천 키워드',
+    'thumbnail.summary': '상위와 하위 썸네일의 가장 큰 차이 요약',
+    'thumbnail.textOverlay': '텍스트 오버레이 비교',
+    'thumbnail.faces': '얼굴 등장과 표정 비교',
+    'thumbnail.colorPalette': '색감 비교',
+    'thumbnail.composition': '구도 비교',
+    'thumbnail.topPattern': '조회수 상위 썸네일의 패턴',
+    'thumbnail.bottomPattern': '조회수 하위 썸네일의 패턴',
+    'thumbnail.viewImpact': '이 차이가 조회수와 어떤 관계가 있는지',
+    'thumbnail.recommendations': '다음 썸네일 제작을 위한 구체적인 개선안',
+    'title.variants': '제목 후보 목록',
+    'title.title': '제목 후보',
+    'title.clickAppeal': '클릭 유도력 점수 (0-100)',
+    'title.rationale': '클릭을 부르는 이유 한 줄',
+    'outline.title': '최종 영상 제목',
+    'outline.hook': '첫 15초 훅 대본 (화면 연출 포함)',
+    'outline.chapters': '타임스탬프가 있는 챕터 목록',
+    'outline.timestamp': '시작 시각 (m:ss)',
+    'outline.chapterTitle': '챕터 제목',
+    'outline.chapterSummary': '챕터에서 다룰 내용',
+    'outline.ctas': '구독·댓글 등 CTA 배치',
+    'outline.ctaMessage': '이 시점에 넣을 CTA 멘트',
+    'outline.thumbnailText': '썸네일 문구 후보 (강한 순)',
+    'outline.shortsIdea': '이 영상을 쇼츠로 줄이는 아이디어',
+    'transcript.summary': '자막에 나온 실제 내용 요약 (3~5문장)',
+    'transcript.hook': '첫 30초가 시청자를 붙잡는 방식과 개선점',
+    'transcript.chapters': '자막 타임스탬프 기준 챕터 구분',
+    'compare.summary': '비교 결과 종합 판정 (3줄)',
+    'compare.categories': '항목별 승자 (콘텐츠, 참여도, 업로드 주기, 포맷, 브랜딩 등)',
+    'compare.category': '비교 항목',
+    'compare.winner': '이 항목에서 앞선 채널',
+    'compare.reason': '지표를 근거로 한 판단 이유',
+    'compare.channels': '채널별 강점과 약점',
+    'compare.channel': '채널 이름',
+    'compare.wins': '다른 채널보다 앞서는 점',
+    'compare.gaps': '다른 채널에 뒤처지는 점',
+    'compare.actionPlan': '첫 번째 채널이 격차를 좁히기 위한 실행 계획',
+  },
+  en: {
+    'growth.period': 'Period covered (e.g. 2023.01 ~ 2023.06)',
+    'growth.summary': 'One-line performance summary',
+    'growth.strategy': 'Main strategy and concept analysis',
+    'growth.quantitative': 'Quantitative performance analysis',
+    'growth.contentDepth': 'In-depth content and audience analysis',
+    'channel.summary': "Three-line summary of the channel's current state and key problems",
+    'channel.concept': 'A new channel concept that could beat this channel',
+    'channel.direction': 'Content direction that secures a competitive edge',
+    'channel.detailedOperation': 'Detailed operations (uploads, thumbnails, editing style, etc.)',
+    'channel.roadmap': '3-month intensive growth roadmap (by month)',
+    'channel.titles': '10 high-potential video titles',
+    'channel.kpis': '4 key performance indicators',
+    'channel.risks': 'Risk management strategy',
+    'channel.revenue': 'Revenue diversification strategy',
+    'channel.evidence': '1-5 IDs of the videos this item is based on (only IDs from the video data, copied exactly)',
+    'keyword.summary': 'Market trend summary',
+    'keyword.marketAnalysis': 'Analysis of leading channels and content',
+    'keyword.strengths': 'Success factors / strengths',
+    'keyword.weaknesses': 'Market gaps / weaknesses',
+    'keyword.opportunities': 'Opportunities',
+    'keyword.actionPlan': 'Winning strategy',
+    'opportunity.score': 'Opportunity score (0-100)',
+    'opportunity.summary': 'Market summary',
+    'opportunity.reason': 'Reasoning behind the verdict',
+    'opportunity.viewDistribution': 'Interpretation of the view distribution from the Gini coefficient and top-10% share',
+    'opportunity.channelConcentration': 'Interpretation of channel concentration from the HHI',
+    'opportunity.channelActivity': 'Interpretation of competition from the top channels\' upload frequency',
+    'opportunity.strategy': 'Differentiated entry strategy',
+    'opportunity.keywords': 'Recommended keywords',
+    'thumbnail.summary': 'Summary of the biggest difference between top and bottom thumbnails',
+    'thumbnail.textOverlay': 'Text overlay comparison',
+    'thumbnail.faces': 'Faces and expressions comparison',
+    'thumbnail.colorPalette': 'Color palette comparison',
+    'thumbnail.composition': 'Composition comparison',
+    'thumbnail.topPattern': 'Pattern in the most-viewed thumbnails',
+    'thumbnail.bottomPattern': 'Pattern in the least-viewed thumbnails',
+    'thumbnail.viewImpact': 'How this difference relates to views',
+    'thumbnail.recommendations': 'Concrete improvements for the next thumbnails',
+    'title.variants': 'Title candidates',
+    'title.title': 'Title candidate',
+    'title.clickAppeal': 'Click appeal score (0-100)',
+    'title.rationale': 'One line on why it draws clicks',
+    'outline.title': 'Final video title',
+    'outline.hook': 'Script for the first 15 seconds, including on-screen direction',
+    'outline.chapters': 'Chapter list with timestamps',
+    'outline.timestamp': 'Start time (m:ss)',
+    'outline.chapterTitle': 'Chapter title',
+    'outline.chapterSummary': 'What the chapter covers',
+    'outline.ctas': 'Placement of calls to action such as subscribe or comment',
+    'outline.ctaMessage': 'Call-to-action line to use at this point',
+    'outline.thumbnailText': 'Thumbnail text options, strongest first',
+    'outline.shortsIdea': 'Idea for cutting this video down to a Short',
+    'transcript.summary': 'Summary of what the subtitles actually cover (3 to 5 sentences)',
+    'transcript.hook': 'How the first 30 seconds hold viewers, and what could be better',
+    'transcript.chapters': 'Chapter breakdown using the subtitle timestamps',
+    'compare.summary': 'Overall verdict of the comparison (3 lines)',
+    'compare.categories': 'Winner per dimension (content, engagement, upload cadence, format, branding, etc.)',
+    'compare.category': 'Dimension compared',
+    'compare.winner': 'Channel that comes out ahead on this dimension',
+    'compare.reason': 'Reasoning, grounded in the metrics',
+    'compare.channels': 'Strengths and weaknesses of each channel',
+    'compare.channel': 'Channel name',
+    'compare.wins': 'Where this channel beats the others',
+    'compare.gaps': 'Where this channel falls behind',
+    'compare.actionPlan': 'Action plan for the first channel to close the gaps',
+  },
+  ja: {
+    'growth.period': '分析期間（例: 2023.01 ~ 2023.06）',
+    'growth.summary': '成果の要約（1行）',
+    'growth.strategy': '主な戦略とコンセプトの分析',
+    'growth.quantitative': '定量的な成果分析',
+    'growth.contentDepth': 'コンテンツと視聴者の詳細分析',
+    'channel.summary': 'チャンネルの現状と主要な課題を3行で要約',
+    'channel.concept': 'このチャンネルに勝てる新しいチャンネルコンセプトの提案',
+    'channel.direction': '競争優位を築けるコンテンツの方向性',
+    'channel.detailedOperation': '詳細な運営方法（投稿、サムネイル、編集スタイルなど）',
+    'channel.roadmap': '3か月集中成長ロードマップ（月別）',
+    'channel.titles': '成功が見込める動画タイトル10選',
+    'channel.kpis': '主要業績指標4つ',
+    'channel.risks': 'リスク管理戦略',
+    'channel.revenue': '収益モデルの多角化戦略',
+    'channel.evidence': 'この項目の根拠となった動画ID 1〜5件（動画データにあるIDのみをそのまま使用）',
+    'keyword.summary': '市場トレンドの要約',
+    'keyword.marketAnalysis': '市場を主導するチャンネルとコンテンツの分析',
+    'keyword.strengths': '成功要因・強み',
+    'keyword.weaknesses': '市場の隙間・弱み',
+    'keyword.opportunities': '機会要因',
+    'keyword.actionPlan': '必勝戦略',
+    'opportunity.score': '機会スコア（0-100）',
+    'opportunity.summary': '市場の要約',
+    'opportunity.reason': '判断の根拠',
+    'opportunity.viewDistribution': 'ジニ係数と上位10%のシェアから見た再生数分布の解釈',
+    'opportunity.channelConcentration': 'HHIから見たチャンネル集中度の解釈',
+    'opportunity.channelActivity': '上位チャンネルの投稿頻度から見た競争の激しさの解釈',
+    'opportunity.strategy': '差別化した参入戦略',
+    'opportunity.keywords': 'おすすめキーワード',
+    'thumbnail.summary': '上位と下位のサムネイルの最も大きな違いの要約',
+    'thumbnail.textOverlay': 'テキストオーバーレイの比較',
+    'thumbnail.faces': '顔の登場と表情の比較',
+    'thumbnail.colorPalette': '配色の比較',
+    'thumbnail.composition': '構図の比較',
+    'thumbnail.topPattern': '再生数上位のサムネイルのパターン',
+    'thumbnail.bottomPattern': '再生数下位のサムネイルのパターン',
+    'thumbnail.viewImpact': 'この違いと再生数の関係',
+    'thumbnail.recommendations': '次のサムネイル制作のための具体的な改善案',
+    'title.variants': 'タイトル候補の一覧',
+    'title.title': 'タイトル候補',
+    'title.clickAppeal': 'クリック誘導力スコア（0-100）',
+    'title.rationale': 'クリックを呼ぶ理由（1行）',
+    'outline.title': '最終的な動画タイトル',
+    'outline.hook': '冒頭15秒のフック台本（画面演出を含む）',
+    'outline.chapters': 'タイムスタンプ付きのチャプター一覧',
+    'outline.timestamp': '開始時刻（m:ss）',
+    'outline.chapterTitle': 'チャプタータイトル',
+    'outline.chapterSummary': 'チャプターで扱う内容',
+    'outline.ctas': '登録・コメントなどのCTAの配置',
+    'outline.ctaMessage': 'このタイミングで入れるCTAのセリフ',
+    'outline.thumbnailText': 'サムネイル文言の候補（強い順）',
+    'outline.shortsIdea': 'この動画をショートに短縮するアイデア',
+    'transcript.summary': '字幕に出てくる実際の内容の要約（3〜5文）',
+    'transcript.hook': '冒頭30秒が視聴者を引きつける方法と改善点',
+    'transcript.chapters': '字幕のタイムスタンプに基づくチャプター分け',
+    'compare.summary': '比較結果の総合判定（3行）',
+    'compare.categories': '項目別の勝者（コンテンツ、エンゲージメント、投稿周期、フォーマット、ブランディングなど）',
+    'compare.category': '比較項目',
+    'compare.winner': 'この項目で優位なチャンネル',
+    'compare.reason': '指標に基づく判断理由',
+    'compare.channels': 'チャンネルごとの強みと弱み',
+    'compare.channel': 'チャンネル名',
+    'compare.wins': '他のチャンネルより優れている点',
+    'compare.gaps': '他のチャンネルに劣っている点',
+    'compare.actionPlan': '最初のチャンネルが差を縮めるための実行計画',
+  },
+};
+
+export const getSchemaDescriber = (language: ReportLanguage) => {
+  return (key: SchemaDescriptionKey) => SCHEMA_DESCRIPTIONS[language][key];
+};
@@ -0,0 +1,92 @@
+import { Schema, Type } from "@google/genai";
+
+export interface SchemaIssue {
+  path: string; // Dotted field path, e.g. "benchmarking.roadmap" or "keywords.2"
+  problem: string;
+}
+
+const describeType = (type?: Type) => {
+  switch (type) {
+    case Type.OBJECT: return '객체';
+    case Type.ARRAY: return '배열';
+    case Type.NUMBER:
+    case Type.INTEGER: return '숫자';
+    case Type.BOOLEAN: return '참/거짓';
+    default: return '문자열';
+  }
+};
+
+const matchesType = (value: unknown, type?: Type): boolean => {
+  switch (type) {
+    case Type.OBJECT: return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case Type.ARRAY: return Array.isArray(value);
+    case Type.NUMBER:
+    case Type.INTEGER: return typeof value === 'number' && !isNaN(value);
+    case Type.BOOLEAN: return typeof value === 'boolean';
+    case Type.STRING: return typeof value === 'string';
+    default: return true;
+  }
+};
+
+const joinPath = (base: string, key: string | number) => base ? `${base}.${key}` : String(key);
+
+// Checks a parsed model response against the same schema object that was sent as responseSchema
+export const validateAgainstSchema = (value: unknown, schema: Schema, path = ''): SchemaIssue[] => {
+  if (!matchesType(value, schema.type)) {
+    return [{ path: path || '(root)', problem: `${describeType(schema.type)} 형식이 아님` }];
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [{ path, problem: `허용 값(${schema.enum.join(', ')})이 아님` }];
+  }
+  if (schema.type === Type.ARRAY && schema.items) {
+    return (value as unknown[]).flatMap((item, i) => validateAgainstSchema(item, schema.items!, joinPath(path, i)));
+  }
+  if (schema.type === Type.OBJECT && schema.properties) {
+    const record = value as Record<string, unknown>;
+    return Object.entries(schema.properties).flatMap(([key, propSchema]) => {
+      if (record[key] === undefined || record[key] === null) {
+        return schema.required?.includes(key) ? [{ path: joinPath(path, key), problem: '누락됨' }] : [];
+      }
+      return validateAgainstSchema(record[key], propSchema, joinPath(path, key));
+    });
+  }
+  return [];
+};
+
+const emptyValue = (schema: Schema): unknown => {
+  if (schema.enum) return schema.enum[0];
+  switch (schema.type) {
+    case Type.OBJECT: return applySchemaDefaults({}, schema, '', []);
+    case Type.ARRAY: return [];
+    case Type.NUMBER:
+    case Type.INTEGER: return 0;
+    case Type.BOOLEAN: return false;
+    default: return '';
+  }
+};
+
+// Replaces every missing or mistyped field with an empty value of the right type so renderers and
+// exporters never hit undefined. Paths of replaced fields are pushed onto `filled`.
+export const applySchemaDefaults = (value: unknown, schema: Schema, path: string, filled: string[]): unknown => {
+  const valid = matchesType(value, schema.type) && (!schema.enum || schema.enum.includes(value as string));
+  if (!valid) {
+    if (path) filled.push(path);
+    return emptyValue(schema);
+  }
+  if (schema.type === Type.ARRAY && schema.items) {
+    const items = (value as unknown[]).filter(item => matchesType(item, schema.items!.type));
+    if (items.length < (value as unknown[]).length) filled.push(path);
+    return items.map((item, i) => applySchemaDefaults(item, schema.items!, joinPath(path, i), filled));
+  }
+  if (schema.type === Type.OBJECT && schema.properties) {
+    const record = { ...(value as Record<string, unknown>) };
+    Object.entries(schema.properties).forEach(([key, propSchema]) => {
+      const present = record[key] !== undefined && record[key] !== null;
+      if (present || schema.required?.includes(key)) {
+        record[key] = applySchemaDefaults(present ? record[key] : undefined, propSchema, joinPath(path, key), filled);
+      }
+    });
+    return record;
+  }
+  return value;
+};
@@ -0,0 +1,122 @@
+export interface RetryStatus {
+  id: number;
+  executor: string; // Display name, e.g. 'YouTube' or 'AI'
+  attempt: number; // The attempt about to run, starting at 2
+  maxAttempts: number;
+  delayMs: number;
+}
+
+interface ExecutorConfig {
+  name: string;
+  maxConcurrent: number;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  isRetryable: (error: unknown) => boolean;
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+}
+
+export interface RequestExecutor {
+  run: <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+}
+
+const activeRetries = new Map<number, RetryStatus>();
+const retryListeners = new Set<(retries: RetryStatus[]) => void>();
+let nextRetryId = 1;
+
+const notifyRetries = () => {
+  const snapshot = Array.from(activeRetries.values());
+  retryListeners.forEach(listener => listener(snapshot));
+};
+
+// Lets views show "retrying (2/4)..." for any request currently backing off
+export const subscribeRetries = (listener: (retries: RetryStatus[]) => void): (() => void) => {
+  retryListeners.add(listener);
+  listener(Array.from(activeRetries.values()));
+  return () => { retryListeners.delete(listener); };
+};
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+// Resolves after ms, or rejects with the signal's AbortError as soon as it is aborted
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Parses a Retry-After header given either as seconds or as an HTTP date
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Runs tasks with a concurrency cap and retries retryable failures with exponential
+// backoff plus jitter. A server-provided Retry-After always wins over the computed delay.
+export const createRequestExecutor = ({
+  name,
+  maxConcurrent,
+  maxAttempts = 4,
+  baseDelayMs = 1000,
+  maxDelayMs = 16000,
+  isRetryable,
+  getRetryAfterMs,
+}: ExecutorConfig): RequestExecutor => {
+  let running = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = async () => {
+    if (running >= maxConcurrent) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    running++;
+  };
+
+  const release = () => {
+    running--;
+    waiting.shift()?.();
+  };
+
+  const run = async <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    const retryId = nextRetryId++;
+    try {
+      for (let attempt = 1; ; attempt++) {
+        await acquire();
+        try {
+          signal?.throwIfAborted();
+          return await task();
+        } catch (error) {
+          if (signal?.aborted || attempt >= maxAttempts || !isRetryable(error)) throw error;
+
+          const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+          const jittered = backoff / 2 + Math.random() * (backoff / 2);
+          const delayMs = Math.min(60000, getRetryAfterMs?.(error) ?? jittered);
+
+          console.warn(`${name} request failed, retrying in ${Math.round(delayMs)}ms (${attempt + 1}/${maxAttempts})`, error);
+          activeRetries.set(retryId, { id: retryId, executor: name, attempt: attempt + 1, maxAttempts, delayMs });
+          notifyRetries();
+        } finally {
+          // Free the slot while backing off so other requests are not held up
+          release();
+        }
+        await sleep(activeRetries.get(retryId)!.delayMs, signal);
+      }
+    } finally {
+      if (activeRetries.delete(retryId)) notifyRetries();
+    }
+  };
+
+  return { run };
+};
@@ -0,0 +1,140 @@
+import { PinnedTitle, ScoredTitle, TitleBenchmark, TitleScores, YouTubeVideo } from '../types';
+
+const PINS_STORAGE_KEY = 'title_lab_pins';
+
+// Share of the search results, by views, treated as the high performers
+const HIGH_PERFORMER_SHARE = 0.5;
+const TOP_KEYWORD_COUNT = 10;
+// Matching this many of the top keywords earns a full keyword score
+const KEYWORD_TARGET = 3;
+
+// Weights of the component scores in the total; they sum to 1
+export const TITLE_SCORE_WEIGHTS: Record<Exclude<keyof TitleScores, 'total'>, number> = {
+  length: 0.2,
+  style: 0.2,
+  keyword: 0.3,
+  appeal: 0.3,
+};
+
+const NUMBER_PATTERN = /\d/;
+const BRACKET_PATTERN = /[[\]【】()（）「」『』<>〈〉]/;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+
+// Splits on whitespace and punctuation; single characters carry too little signal to compare
+const tokenize = (title: string): string[] =>
+  title.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length >= 2);
+
+// Characters as the viewer sees them, so an emoji counts once
+export const titleLength = (title: string) => Array.from(title).length;
+
+const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+};
+
+const share = (titles: string[], pattern: RegExp) =>
+  titles.length > 0 ? titles.filter(title => pattern.test(title)).length / titles.length : 0;
+
+export const buildTitleBenchmark = (keyword: string, videos: YouTubeVideo[]): TitleBenchmark => {
+  const ranked = [...videos].sort((a, b) => b.viewCount - a.viewCount);
+  const top = ranked.slice(0, Math.max(1, Math.ceil(ranked.length * HIGH_PERFORMER_SHARE)));
+  const titles = top.map(v => v.title);
+  const lengths = titles.map(titleLength).sort((a, b) => a - b);
+
+  // Counted once per title so a single repetitive title cannot dominate
+  const searchTerms = new Set(tokenize(keyword));
+  const counts = new Map<string, number>();
+  titles.forEach(title => {
+    new Set(tokenize(title)).forEach(token => {
+      if (!searchTerms.has(token)) counts.set(token, (counts.get(token) || 0) + 1);
+    });
+  });
+  const topKeywords = Array.from(counts.entries())
+    .filter(([, count]) => count >= 2)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_KEYWORD_COUNT)
+    .map(([token]) => token);
+
+  return {
+    keyword,
+    sampleSize: top.length,
+    lengthRange: [quantile(lengths, 0.25), quantile(lengths, 0.75)],
+    medianLength: quantile(lengths, 0.5),
+    numberShare: share(titles, NUMBER_PATTERN),
+    bracketShare: share(titles, BRACKET_PATTERN),
+    emojiShare: share(titles, EMOJI_PATTERN),
+    topKeywords,
+  };
+};
+
+// Full marks inside the interquartile range, falling off with distance relative to the median length
+const scoreLength = (length: number, benchmark: TitleBenchmark): number => {
+  const [low, high] = benchmark.lengthRange;
+  if (length >= low && length <= high) return 100;
+  const distance = length < low ? low - length : length - high;
+  return Math.max(0, Math.round(100 - (distance / Math.max(1, benchmark.medianLength)) * 100));
+};
+
+// Rewards following the market's convention for each device: using it where most top titles do,
+// leaving it out where most do not
+const scoreStyle = (title: string, benchmark: TitleBenchmark): number => {
+  const conventions: [boolean, number][] = [
+    [NUMBER_PATTERN.test(title), benchmark.numberShare],
+    [BRACKET_PATTERN.test(title), benchmark.bracketShare],
+    [EMOJI_PATTERN.test(title), benchmark.emojiShare],
+  ];
+  const fit = conventions.reduce((acc, [used, prevalence]) => acc + (used ? prevalence : 1 - prevalence), 0);
+  return Math.round((fit / conventions.length) * 100);
+};
+
+export const scoreTitle = (title: string, clickAppeal: number, benchmark: TitleBenchmark): { scores: TitleScores; matchedKeywords: string[] } => {
+  // Substring match, so a keyword still counts with a Korean particle attached
+  const lowered = title.toLowerCase();
+  const matchedKeywords = benchmark.topKeywords.filter(keyword => lowered.includes(keyword));
+  const target = Math.min(KEYWORD_TARGET, benchmark.topKeywords.length);
+
+  const length = scoreLength(titleLength(title), benchmark);
+  const style = scoreStyle(title, benchmark);
+  // Neutral when the high performers share no recurring words to match against
+  const keyword = target > 0 ? Math.round(Math.min(1, matchedKeywords.length / target) * 100) : 50;
+  const appeal = Math.round(Math.min(100, Math.max(0, clickAppeal)));
+  const total = Math.round(
+    length * TITLE_SCORE_WEIGHTS.length +
+    style * TITLE_SCORE_WEIGHTS.style +
+    keyword * TITLE_SCORE_WEIGHTS.keyword +
+    appeal * TITLE_SCORE_WEIGHTS.appeal
+  );
+
+  return { scores: { length, style, keyword, appeal, total }, matchedKeywords };
+};
+
+export const getPinnedTitles = (): PinnedTitle[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PINS_STORAGE_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+const savePinnedTitles = (pins: PinnedTitle[]) => {
+  localStorage.setItem(PINS_STORAGE_KEY, JSON.stringify(pins));
+};
+
+// Pinning the same title again for the same topic replaces the earlier scores
+export const pinTitle = (topic: string, scored: ScoredTitle): PinnedTitle[] => {
+  const pin: PinnedTitle = {
+    ...scored,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    topic,
+    pinnedAt: new Date().toISOString(),
+  };
+  const pins = [pin, ...getPinnedTitles().filter(p => !(p.topic === topic && p.title === scored.title))];
+  savePinnedTitles(pins);
+  return pins;
+};
+
+export const unpinTitle = (id: string): PinnedTitle[] => {
+  const pins = getPinnedTitles().filter(p => p.id !== id);
+  savePinnedTitles(pins);
+  return pins;
+};
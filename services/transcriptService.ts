@@ -0,0 +1,102 @@
+import { TranscriptSegment, VideoTranscript } from '../types';
+
+const TRANSCRIPTS_STORAGE_KEY = 'video_transcripts';
+
+// "00:01:02,500" (SRT) or "01:02.500" (VTT, hours optional) on both sides of the arrow
+const CUE_TIMING = /((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+
+const toSeconds = (timestamp: string): number => {
+  const [clock, fraction] = timestamp.split(/[,.]/);
+  const parts = clock.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(`0.${fraction}`);
+};
+
+// Strips VTT styling and karaoke timing tags and the entities subtitle tools commonly emit
+const cleanCueText = (line: string): string => line
+  .replace(/<[^>]+>/g, '')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&amp;/g, '&')
+  .trim();
+
+// Parses SRT and WebVTT into cues. Header, NOTE and STYLE blocks have no timing line and are skipped.
+// Auto-generated captions roll the previous line into each new cue, so lines already shown are dropped.
+export const parseSubtitles = (content: string): TranscriptSegment[] => {
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  const segments: TranscriptSegment[] = [];
+  let previousLines: string[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex < 0) return;
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+
+    const textLines = lines.slice(timingIndex + 1).map(cleanCueText).filter(Boolean);
+    const newLines = textLines.filter(line => !previousLines.includes(line));
+    if (textLines.length > 0) previousLines = textLines;
+    if (newLines.length === 0) return;
+
+    segments.push({ start: toSeconds(start), end: toSeconds(end), text: newLines.join(' ') });
+  });
+
+  return segments.sort((a, b) => a.start - b.start);
+};
+
+// "m:ss", or "h:mm:ss" past the first hour
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Parsed once and kept in memory; subtitle files make the stored blob large, and every card and
+// summary cache key looks a transcript up. Only writes below replace it.
+let transcriptsCache: Record<string, VideoTranscript> | null = null;
+
+const loadTranscripts = (): Record<string, VideoTranscript> => {
+  if (!transcriptsCache) {
+    try {
+      transcriptsCache = JSON.parse(localStorage.getItem(TRANSCRIPTS_STORAGE_KEY) || '{}');
+    } catch (e) {
+      transcriptsCache = {};
+    }
+  }
+  return transcriptsCache!;
+};
+
+// Writes the whole store and updates the in-memory copy only once the write went through
+const saveTranscripts = (transcripts: Record<string, VideoTranscript>) => {
+  localStorage.setItem(TRANSCRIPTS_STORAGE_KEY, JSON.stringify(transcripts));
+  transcriptsCache = transcripts;
+};
+
+export const getTranscript = (videoId: string): VideoTranscript | null => loadTranscripts()[videoId] || null;
+
+// Reads and parses an uploaded .srt or .vtt file and keeps the result under the video's ID
+export const importTranscript = async (videoId: string, file: File): Promise<VideoTranscript> => {
+  const segments = parseSubtitles(await file.text());
+  if (segments.length === 0) {
+    throw new Error('자막 구간을 찾지 못했습니다. SRT 또는 VTT 파일인지 확인해주세요.');
+  }
+  const transcript: VideoTranscript = { videoId, fileName: file.name, segments, importedAt: new Date().toISOString() };
+  try {
+    saveTranscripts({ ...loadTranscripts(), [videoId]: transcript });
+  } catch (e) {
+    throw new Error('브라우저 저장 공간이 부족해 자막을 저장하지 못했습니다. 다른 영상의 자막을 삭제한 뒤 다시 시도해주세요.');
+  }
+  return transcript;
+};
+
+export const removeTranscript = (videoId: string) => {
+  const { [videoId]: removed, ...rest } = loadTranscripts();
+  try {
+    saveTranscripts(rest);
+  } catch (e) {
+    throw new Error('브라우저 저장소에 접근하지 못해 자막을 삭제하지 못했습니다. 잠시 후 다시 시도해주세요.');
+  }
+};
@@ -0,0 +1,89 @@
+import { AnalysisKind, LLMProviderId, ModelPrice, TokenUsage, UsageEntry } from '../types';
+
+const LOG_STORAGE_KEY = 'ai_usage_log';
+const PRICE_STORAGE_KEY = 'ai_price_table';
+const USAGE_CHANGE_EVENT = 'ai-usage-change';
+
+// Oldest entries are dropped past this many so the log stays well inside localStorage limits
+const MAX_LOG_ENTRIES = 5000;
+
+// Published list prices at the time of writing; teams can correct them in the dashboard
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+};
+
+export const getPriceTable = (): Record<string, ModelPrice> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRICE_STORAGE_KEY) || 'null');
+    if (stored) return stored;
+  } catch (e) {
+    // Fall through to the default prices
+  }
+  return DEFAULT_PRICES;
+};
+
+export const setPriceTable = (prices: Record<string, ModelPrice>) => {
+  localStorage.setItem(PRICE_STORAGE_KEY, JSON.stringify(prices));
+};
+
+// Models missing from the table (e.g. local Ollama models) cost nothing
+export const calculateCost = (model: string, usage: TokenUsage, prices = getPriceTable()): number => {
+  const price = prices[model];
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + (usage.outputTokens + usage.thinkingTokens) * price.output) / 1_000_000;
+};
+
+export const getUsageLog = (): UsageEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOG_STORAGE_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+export const recordUsage = (call: { provider: LLMProviderId; model: string; kind: AnalysisKind; subject: string }, usage: TokenUsage) => {
+  const entry: UsageEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: new Date().toISOString(),
+    ...call,
+    ...usage,
+    cost: calculateCost(call.model, usage),
+  };
+  const log = [...getUsageLog(), entry].slice(-MAX_LOG_ENTRIES);
+  try {
+    localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.warn("Usage log write failed:", e);
+  }
+  window.dispatchEvent(new Event(USAGE_CHANGE_EVENT));
+};
+
+// Recorded costs keep the price at call time; this rewrites them with the given table
+export const repriceUsageLog = (prices: Record<string, ModelPrice>) => {
+  const log = getUsageLog().map(entry => ({ ...entry, cost: calculateCost(entry.model, entry, prices) }));
+  localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(log));
+  window.dispatchEvent(new Event(USAGE_CHANGE_EVENT));
+};
+
+export const clearUsageLog = () => {
+  localStorage.removeItem(LOG_STORAGE_KEY);
+  window.dispatchEvent(new Event(USAGE_CHANGE_EVENT));
+};
+
+export const subscribeUsage = (listener: () => void): (() => void) => {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === LOG_STORAGE_KEY) listener();
+  };
+  window.addEventListener(USAGE_CHANGE_EVENT, listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(USAGE_CHANGE_EVENT, listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
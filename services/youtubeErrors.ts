@@ -0,0 +1,134 @@
+export type YouTubeErrorKind = 'quotaExceeded' | 'keyInvalid' | 'forbidden' | 'notFound' | 'rateLimited' | 'network' | 'unknown';
+
+export class YouTubeApiError extends Error {
+  readonly kind: YouTubeErrorKind;
+  readonly status: number; // 0 when the request never got a response
+  readonly reason?: string; // errors[0].reason from the API body
+  retryAfterMs?: number; // From the Retry-After header, when the server sent one
+
+  constructor(kind: YouTubeErrorKind, message: string, status: number = 0, reason?: string) {
+    super(message);
+    this.name = 'YouTubeApiError';
+    this.kind = kind;
+    this.status = status;
+    this.reason = reason;
+  }
+
+  // Transient failures worth retrying; quota, key and not-found errors will not fix themselves
+  get isTransient(): boolean {
+    return this.kind === 'rateLimited' || this.kind === 'network' || this.status >= 500;
+  }
+}
+
+export class QuotaExceededError extends YouTubeApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super('quotaExceeded', message, status, reason);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class KeyInvalidError extends YouTubeApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super('keyInvalid', message, status, reason);
+    this.name = 'KeyInvalidError';
+  }
+}
+
+export class ForbiddenError extends YouTubeApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super('forbidden', message, status, reason);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends YouTubeApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super('notFound', message, status, reason);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class RateLimitedError extends YouTubeApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super('rateLimited', message, status, reason);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class NetworkError extends YouTubeApiError {
+  constructor(message: string) {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+const QUOTA_REASONS = ['quotaExceeded', 'dailyLimitExceeded'];
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+const KEY_INVALID_REASONS = ['keyInvalid', 'keyExpired', 'API_KEY_INVALID', 'API_KEY_EXPIRED'];
+
+// Maps a non-2xx response to the matching error class. The body is the standard
+// { error: { code, message, errors: [{ reason }], details: [{ reason }] } } envelope.
+export const parseYouTubeError = (status: number, body: any): YouTubeApiError => {
+  const message: string = body?.error?.message || `HTTP ${status}`;
+  const reasons: string[] = [
+    ...(body?.error?.errors || []).map((e: any) => e.reason),
+    ...(body?.error?.details || []).map((d: any) => d.reason),
+  ].filter(Boolean);
+  const reason = reasons[0];
+  const hasReason = (candidates: string[]) => reasons.some(r => candidates.includes(r));
+
+  if (hasReason(QUOTA_REASONS)) return new QuotaExceededError(message, status, reason);
+  if (hasReason(RATE_LIMIT_REASONS) || status === 429) return new RateLimitedError(message, status, reason);
+  if (hasReason(KEY_INVALID_REASONS) || /api key not valid/i.test(message)) return new KeyInvalidError(message, status, reason);
+  if (status === 403) return new ForbiddenError(message, status, reason);
+  if (status === 404) return new NotFoundError(message, status, reason);
+  return new YouTubeApiError('unknown', message, status, reason);
+};
+
+interface ErrorDescription {
+  title: string;
+  action: string;
+}
+
+const ERROR_DESCRIPTIONS: Record<YouTubeErrorKind, ErrorDescription> = {
+  quotaExceeded: {
+    title: 'YouTube API 일일 할당량을 모두 사용했습니다.',
+    action: '할당량은 태평양 시간 자정(한국 시간 오후 4~5시)에 초기화됩니다. 다른 프로젝트의 API 키를 등록하거나 이미 캐시된 분석을 이용하세요.',
+  },
+  keyInvalid: {
+    title: 'YouTube API 키가 유효하지 않습니다.',
+    action: "좌측 하단 'API 키 관리'에서 키를 다시 확인하고 등록하세요.",
+  },
+  forbidden: {
+    title: 'YouTube API 접근이 거부되었습니다.',
+    action: 'Google Cloud 콘솔에서 YouTube Data API v3가 활성화되어 있는지, 키의 HTTP 리퍼러/IP 제한이 이 사이트를 허용하는지 확인하세요.',
+  },
+  notFound: {
+    title: '요청한 채널 또는 영상을 찾을 수 없습니다.',
+    action: '입력값을 확인하거나, 채널/영상이 비공개 또는 삭제되지 않았는지 확인하세요.',
+  },
+  rateLimited: {
+    title: '짧은 시간에 요청이 너무 많습니다.',
+    action: '잠시 후 다시 시도하세요.',
+  },
+  network: {
+    title: 'YouTube API 서버에 연결할 수 없습니다.',
+    action: '인터넷 연결 상태를 확인한 뒤 다시 시도하세요.',
+  },
+  unknown: {
+    title: 'YouTube API 오류가 발생했습니다.',
+    action: '잠시 후 다시 시도하세요. 문제가 계속되면 아래 상세 메시지를 확인하세요.',
+  },
+};
+
+// Turns any thrown value into a user-facing title/action pair. Non-YouTube errors
+// (e.g. AI analysis failures) fall back to their own message.
+export const describeError = (error: unknown): ErrorDescription & { detail?: string } => {
+  if (error instanceof YouTubeApiError) {
+    return { ...ERROR_DESCRIPTIONS[error.kind], detail: error.message };
+  }
+  return {
+    title: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+    action: '잠시 후 다시 시도하세요.',
+  };
+};
@@ -1,73 +1,288 @@
 
-import { YouTubeChannel, YouTubeVideo, RegionCode, YouTubeCategory, RisingChannelResult, RisingPeriod, VideoTypeFilter } from '../types';
-import { parseDuration } from '../utils';
+import { YouTubeChannel, YouTubeVideo, RegionCode, YouTubeCategory, RisingChannelResult, RisingChannelSearch, RisingPeriod, VideoTypeFilter, BatchedResult, YouTubeEndpoint, CacheResource } from '../types';
+import { parseDuration, chunkArray, runWithConcurrency } from '../utils';
+import { recordQuotaUsage } from './quotaService';
+import { getCached, setCached } from './cacheService';
+import { parseYouTubeError, NetworkError, NotFoundError, YouTubeApiError } from './youtubeErrors';
+import { createRequestExecutor, parseRetryAfter, isAbortError } from './requestExecutor';
 
 const BASE_URL = 'https://www.googleapis.com/youtube/v3';
 
+const VIDEO_IDS_PER_REQUEST = 50; // videos?id= rejects more than 50 IDs per call
+const VIDEO_DETAILS_CONCURRENCY = 3;
+
+const executor = createRequestExecutor({
+  name: 'YouTube',
+  maxConcurrent: 4,
+  isRetryable: error => error instanceof YouTubeApiError && error.isTransient,
+  getRetryAfterMs: error => error instanceof YouTubeApiError ? error.retryAfterMs : undefined,
+});
+
+// Every API call goes through here so its quota cost is metered
+const youtubeFetch = async (endpoint: YouTubeEndpoint, url: string, signal?: AbortSignal): Promise<Response> => {
+  recordQuotaUsage(endpoint);
+  try {
+    return await fetch(url, { signal });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError(error instanceof Error ? error.message : String(error));
+  }
+};
+
+export interface RequestOptions {
+  forceRefresh?: boolean; // Skip cached responses; fresh results are still written back
+  signal?: AbortSignal; // Aborting rejects with an AbortError and stops pending retries
+}
+
+// The API key is left out of the cache key so it never lands in IndexedDB
+const toCacheKey = (endpoint: YouTubeEndpoint, url: string): string => {
+  const parsed = new URL(url);
+  parsed.searchParams.delete('key');
+  parsed.searchParams.sort();
+  return `${endpoint}?${parsed.searchParams.toString()}`;
+};
+
+// Cached GET returning the parsed body. Cache hits cost no quota.
+// Transient failures are retried by the executor; anything still failing throws a
+// YouTubeApiError subclass and is never cached.
+const youtubeGet = async (
+  endpoint: YouTubeEndpoint,
+  resource: CacheResource,
+  url: string,
+  options: RequestOptions = {}
+): Promise<any> => {
+  const cacheKey = toCacheKey(endpoint, url);
+  if (!options.forceRefresh) {
+    const cached = await getCached(cacheKey);
+    if (cached) return cached;
+  }
+
+  const data = await executor.run(async () => {
+    const res = await youtubeFetch(endpoint, url, options.signal);
+    const body = await res.json().catch(() => null);
+    if (!res.ok) {
+      const error = parseYouTubeError(res.status, body);
+      error.retryAfterMs = parseRetryAfter(res.headers.get('Retry-After'));
+      throw error;
+    }
+    return body;
+  }, options.signal);
+  await setCached(cacheKey, resource, data);
+  return data;
+};
+
 export const validateApiKey = async (apiKey: string): Promise<boolean> => {
   try {
-    const response = await fetch(`${BASE_URL}/videos?part=id&chart=mostPopular&maxResults=1&key=${apiKey}`);
+    const response = await youtubeFetch('videos', `${BASE_URL}/videos?part=id&chart=mostPopular&maxResults=1&key=${apiKey}`);
     return response.ok;
   } catch (error) {
     return false;
   }
 };
 
-export const searchChannelByName = async (apiKey: string, query: string): Promise<YouTubeChannel | null> => {
-  const searchUrl = `${BASE_URL}/search?part=snippet&q=${encodeURIComponent(query)}&type=channel&maxResults=1&key=${apiKey}`;
-  const searchRes = await fetch(searchUrl);
-  const searchData = await searchRes.json();
+const mapChannelItem = (item: any): YouTubeChannel => ({
+  id: item.id,
+  title: item.snippet.title,
+  description: item.snippet.description,
+  thumbnail: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.medium?.url,
+  subscriberCount: parseInt(item.statistics.subscriberCount),
+  videoCount: parseInt(item.statistics.videoCount),
+  viewCount: parseInt(item.statistics.viewCount),
+  country: item.snippet.country,
+  publishedAt: item.snippet.publishedAt // Crucial for identifying new channels
+});
+
+// Looks up a single channel by an exact filter such as id=, forHandle= or forUsername= (1 unit)
+const getChannelBy = async (apiKey: string, filter: string, options: RequestOptions): Promise<YouTubeChannel | null> => {
+  const detailsUrl = `${BASE_URL}/channels?part=snippet,statistics,contentDetails&${filter}&key=${apiKey}`;
+  const data = await youtubeGet('channels', 'channelStats', detailsUrl, options);
+
+  if (!data.items || data.items.length === 0) return null;
+  return mapChannelItem(data.items[0]);
+};
+
+export const getChannelDetails = async (apiKey: string, channelId: string, options: RequestOptions = {}): Promise<YouTubeChannel | null> => {
+  return await getChannelBy(apiKey, `id=${channelId}`, options);
+};
+
+export type ChannelInput =
+  | { type: 'id'; value: string }
+  | { type: 'handle'; value: string }
+  | { type: 'username'; value: string }
+  | { type: 'customUrl'; value: string }
+  | { type: 'video'; value: string }
+  | { type: 'text'; value: string };
+
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
+
+// Classifies what the user typed: a channel ID, @handle, channel/video URL or free text
+export const parseChannelInput = (raw: string): ChannelInput => {
+  const input = raw.trim();
+  if (CHANNEL_ID_PATTERN.test(input)) return { type: 'id', value: input };
+  if (/^@\S+$/.test(input)) return { type: 'handle', value: input };
+
+  if (/^(https?:\/\/)?([\w-]+\.)?(youtube\.com|youtu\.be)\//i.test(input)) {
+    let url: URL;
+    try {
+      url = new URL(/^https?:\/\//i.test(input) ? input : `https://${input}`);
+    } catch (e) {
+      return { type: 'text', value: input };
+    }
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const [first, second] = segments;
+
+    if (url.hostname.endsWith('youtu.be') && first) return { type: 'video', value: first };
+    if (first === 'watch' && url.searchParams.get('v')) return { type: 'video', value: url.searchParams.get('v')! };
+    if (['shorts', 'live', 'embed'].includes(first) && second) return { type: 'video', value: second };
+    if (first === 'channel' && second) return { type: 'id', value: second };
+    if (first === 'user' && second) return { type: 'username', value: second };
+    if (first === 'c' && second) return { type: 'customUrl', value: second };
+    if (first?.startsWith('@')) return { type: 'handle', value: first };
+    if (first) return { type: 'customUrl', value: first }; // Legacy youtube.com/<name> vanity URL
+  }
 
-  if (!searchData.items || searchData.items.length === 0) return null;
+  return { type: 'text', value: input };
+};
 
-  const channelId = searchData.items[0].id.channelId;
-  return await getChannelDetails(apiKey, channelId);
+// Worst-case API calls resolveChannel makes for this input, for quota estimation
+export const estimateResolveCalls = (raw: string): Partial<Record<YouTubeEndpoint, number>> => {
+  switch (parseChannelInput(raw).type) {
+    case 'id':
+    case 'handle':
+    case 'username':
+      return { channels: 1 };
+    case 'video':
+      return { videos: 1, channels: 1 };
+    case 'customUrl':
+      return { channels: 2, search: 1 };
+    default:
+      return { search: 1, channels: 1 };
+  }
 };
 
-export const getChannelDetails = async (apiKey: string, channelId: string): Promise<YouTubeChannel | null> => {
-  const detailsUrl = `${BASE_URL}/channels?part=snippet,statistics,contentDetails&id=${channelId}&key=${apiKey}`;
-  const res = await fetch(detailsUrl);
-  const data = await res.json();
+const CANDIDATE_COUNT = 5;
 
-  if (!data.items || data.items.length === 0) return null;
+// Top channel search hits with full statistics, in search ranking order
+export const searchChannelCandidates = async (apiKey: string, query: string, options: RequestOptions = {}): Promise<YouTubeChannel[]> => {
+  const searchUrl = `${BASE_URL}/search?part=snippet&q=${encodeURIComponent(query)}&type=channel&maxResults=${CANDIDATE_COUNT}&key=${apiKey}`;
+  const searchData = await youtubeGet('search', 'search', searchUrl, options);
 
-  const item = data.items[0];
-  return {
-    id: item.id,
-    title: item.snippet.title,
-    description: item.snippet.description,
-    thumbnail: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.medium?.url,
-    subscriberCount: parseInt(item.statistics.subscriberCount),
-    videoCount: parseInt(item.statistics.videoCount),
-    viewCount: parseInt(item.statistics.viewCount),
-    country: item.snippet.country,
-    publishedAt: item.snippet.publishedAt // Crucial for identifying new channels
-  };
+  const channelIds: string[] = (searchData.items || []).map((item: any) => item.id.channelId);
+  if (!channelIds.length) return [];
+
+  const detailsUrl = `${BASE_URL}/channels?part=snippet,statistics,contentDetails&id=${channelIds.join(',')}&key=${apiKey}`;
+  const data = await youtubeGet('channels', 'channelStats', detailsUrl, options);
+  const channelMap = new Map<string, YouTubeChannel>((data.items || []).map((item: any) => [item.id, mapChannelItem(item)]));
+
+  return channelIds
+    .map(id => channelMap.get(id))
+    .filter((c): c is YouTubeChannel => !!c);
 };
 
-export const getChannelVideos = async (apiKey: string, channelId: string, maxResults: number = 50): Promise<YouTubeVideo[]> => {
+export type ChannelResolution =
+  | { status: 'resolved'; channel: YouTubeChannel }
+  | { status: 'ambiguous'; candidates: YouTubeChannel[] }
+  | { status: 'notFound' };
+
+const toResolution = (channel: YouTubeChannel | null): ChannelResolution => {
+  return channel ? { status: 'resolved', channel } : { status: 'notFound' };
+};
+
+const normalizeTitle = (title: string) => title.replace(/\s+/g, '').toLowerCase();
+
+// Exact inputs (IDs, handles, usernames, video links) resolve with 1-2 unit lookups.
+// Free text falls back to a channel search and is only auto-picked on an unambiguous match.
+export const resolveChannel = async (apiKey: string, raw: string, options: RequestOptions = {}): Promise<ChannelResolution> => {
+  const input = parseChannelInput(raw);
+
+  switch (input.type) {
+    case 'id':
+      return toResolution(await getChannelDetails(apiKey, input.value, options));
+    case 'handle':
+      return toResolution(await getChannelBy(apiKey, `forHandle=${encodeURIComponent(input.value)}`, options));
+    case 'username':
+      return toResolution(await getChannelBy(apiKey, `forUsername=${encodeURIComponent(input.value)}`, options));
+    case 'video': {
+      const videoUrl = `${BASE_URL}/videos?part=snippet&id=${encodeURIComponent(input.value)}&key=${apiKey}`;
+      const data = await youtubeGet('videos', 'videos', videoUrl, options);
+      const channelId = data.items?.[0]?.snippet.channelId;
+      return channelId ? toResolution(await getChannelDetails(apiKey, channelId, options)) : { status: 'notFound' };
+    }
+    case 'customUrl': {
+      // Most custom URLs were migrated to handles of the same name
+      const byHandle = await getChannelBy(apiKey, `forHandle=${encodeURIComponent('@' + input.value)}`, options);
+      if (byHandle) return toResolution(byHandle);
+      break;
+    }
+  }
+
+  const candidates = await searchChannelCandidates(apiKey, input.value, options);
+  if (!candidates.length) return { status: 'notFound' };
+
+  const exactMatches = candidates.filter(c => normalizeTitle(c.title) === normalizeTitle(input.value));
+  if (candidates.length === 1) return toResolution(candidates[0]);
+  if (exactMatches.length === 1) return toResolution(exactMatches[0]);
+  return { status: 'ambiguous', candidates };
+};
+
+export interface ChannelVideosProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface ChannelVideosOptions extends RequestOptions {
+  onProgress?: (progress: ChannelVideosProgress) => void;
+  shouldStop?: () => boolean; // Checked between pages; returning true keeps what was loaded so far
+}
+
+// Pass Infinity as maxResults to walk the entire uploads playlist
+export const getChannelVideos = async (
+  apiKey: string,
+  channelId: string,
+  maxResults: number = 50,
+  options: ChannelVideosOptions = {}
+): Promise<BatchedResult<YouTubeVideo>> => {
   const channelUrl = `${BASE_URL}/channels?part=contentDetails&id=${channelId}&key=${apiKey}`;
-  const chRes = await fetch(channelUrl);
-  const chData = await chRes.json();
+  const chData = await youtubeGet('channels', 'channelMeta', channelUrl, options);
   
-  if (!chData.items || !chData.items.length) return [];
+  if (!chData.items || !chData.items.length) return { items: [], failedIds: [] };
   const uploadsPlaylistId = chData.items[0].contentDetails.relatedPlaylists.uploads;
 
-  const playlistUrl = `${BASE_URL}/playlistItems?part=snippet,contentDetails&playlistId=${uploadsPlaylistId}&maxResults=${maxResults}&key=${apiKey}`;
-  const plRes = await fetch(playlistUrl);
-  const plData = await plRes.json();
+  const videoIds: string[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const pageSize = Math.min(50, maxResults - videoIds.length);
+    let playlistUrl = `${BASE_URL}/playlistItems?part=snippet,contentDetails&playlistId=${uploadsPlaylistId}&maxResults=${pageSize}&key=${apiKey}`;
+    if (pageToken) {
+      playlistUrl += `&pageToken=${pageToken}`;
+    }
+
+    let plData;
+    try {
+      plData = await youtubeGet('playlistItems', 'playlistItems', playlistUrl, options);
+    } catch (error) {
+      // Channels without any uploads have no uploads playlist
+      if (error instanceof NotFoundError && videoIds.length === 0) return { items: [], failedIds: [] };
+      throw error;
+    }
+
+    if (!plData.items) break;
 
-  if (!plData.items) return [];
+    videoIds.push(...plData.items.map((item: any) => item.contentDetails.videoId));
+    pageToken = plData.nextPageToken;
 
-  const videoIds = plData.items.map((item: any) => item.contentDetails.videoId).join(',');
-  return await getVideoDetails(apiKey, videoIds);
+    const total = Math.min(maxResults, plData.pageInfo?.totalResults || videoIds.length);
+    options.onProgress?.({ loaded: videoIds.length, total });
+  } while (pageToken && videoIds.length < maxResults && !options.shouldStop?.());
+
+  return await getVideoDetails(apiKey, videoIds, options);
 };
 
-export const getVideoCategories = async (apiKey: string, regionCode: string = 'KR'): Promise<YouTubeCategory[]> => {
+export const getVideoCategories = async (apiKey: string, regionCode: string = 'KR', options: RequestOptions = {}): Promise<YouTubeCategory[]> => {
   // Add hl=ko to force Korean titles regardless of region
   const url = `${BASE_URL}/videoCategories?part=snippet&regionCode=${regionCode}&key=${apiKey}&hl=ko`;
-  const res = await fetch(url);
-  const data = await res.json();
+  const data = await youtubeGet('videoCategories', 'videoCategories', url, options);
   
   if (!data.items) return [];
 
@@ -83,8 +298,9 @@ export const searchVideosByKeyword = async (
   maxResults: number = 50, 
   region: RegionCode, 
   shortsOnly: boolean,
-  categoryId?: string
-): Promise<YouTubeVideo[]> => {
+  categoryId?: string,
+  options: RequestOptions = {}
+): Promise<BatchedResult<YouTubeVideo>> => {
   
   let url = `${BASE_URL}/search?part=snippet&q=${encodeURIComponent(query)}&type=video&maxResults=${maxResults}&order=viewCount&key=${apiKey}`;
   
@@ -100,31 +316,25 @@ export const searchVideosByKeyword = async (
     url += `&videoCategoryId=${categoryId}`;
   }
 
-  const res = await fetch(url);
-  const data = await res.json();
+  const data = await youtubeGet('search', 'search', url, options);
 
-  if (!data.items) return [];
+  if (!data.items) return { items: [], failedIds: [] };
 
-  const videoIds = data.items.map((item: any) => item.id.videoId).join(',');
-  let videos = await getVideoDetails(apiKey, videoIds);
+  const videoIds = data.items.map((item: any) => item.id.videoId);
+  const result = await getVideoDetails(apiKey, videoIds, options);
 
   if (shortsOnly) {
-    videos = videos.filter(v => parseDuration(v.duration) < 180);
+    result.items = result.items.filter(v => parseDuration(v.duration) < 180);
   }
 
-  return videos;
+  return result;
 };
 
-const getVideoDetails = async (apiKey: string, videoIds: string): Promise<YouTubeVideo[]> => {
-  if (!videoIds) return [];
-  
-  const statsUrl = `${BASE_URL}/videos?part=snippet,statistics,contentDetails&id=${videoIds}&key=${apiKey}`;
-  const res = await fetch(statsUrl);
-  const data = await res.json();
-
-  if (!data.items) return [];
+const fetchVideoDetailsChunk = async (apiKey: string, videoIds: string[], options: RequestOptions): Promise<YouTubeVideo[]> => {
+  const statsUrl = `${BASE_URL}/videos?part=snippet,statistics,contentDetails&id=${videoIds.join(',')}&key=${apiKey}`;
+  const data = await youtubeGet('videos', 'videos', statsUrl, options);
 
-  return data.items.map((item: any) => ({
+  return (data.items || []).map((item: any) => ({
     id: item.id,
     title: item.snippet.title,
     description: item.snippet.description || '', // Fetch description
@@ -140,14 +350,52 @@ const getVideoDetails = async (apiKey: string, videoIds: string): Promise<YouTub
   }));
 };
 
+// Splits the IDs into 50-ID chunks, fetches them with limited concurrency and merges the
+// results back in the original order. Throws only when every chunk failed.
+export const getVideoDetails = async (
+  apiKey: string,
+  videoIds: string[],
+  options: RequestOptions = {}
+): Promise<BatchedResult<YouTubeVideo>> => {
+  const uniqueIds = Array.from(new Set(videoIds.filter(Boolean)));
+  if (!uniqueIds.length) return { items: [], failedIds: [] };
+
+  const chunks = chunkArray(uniqueIds, VIDEO_IDS_PER_REQUEST);
+  const results = await runWithConcurrency(chunks, VIDEO_DETAILS_CONCURRENCY, ids => fetchVideoDetailsChunk(apiKey, ids, options));
+  options.signal?.throwIfAborted(); // An aborted batch is not a partial failure
+
+  const videoMap = new Map<string, YouTubeVideo>();
+  const failedIds: string[] = [];
+  let firstError: unknown;
+
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      result.value.forEach(v => videoMap.set(v.id, v));
+    } else {
+      console.error(`Video details chunk ${i + 1}/${chunks.length} failed`, result.reason);
+      firstError = firstError ?? result.reason;
+      failedIds.push(...chunks[i]);
+    }
+  });
+
+  if (failedIds.length === uniqueIds.length) throw firstError;
+
+  const items = uniqueIds
+    .map(id => videoMap.get(id))
+    .filter((v): v is YouTubeVideo => !!v);
+
+  return { items, failedIds };
+};
+
 export const findRisingChannels = async (
   apiKey: string, 
   query: string,
   categoryId: string = '',
   period: RisingPeriod = '1y',
   region: RegionCode = 'KR',
-  videoType: VideoTypeFilter = 'all'
-): Promise<RisingChannelResult[]> => {
+  videoType: VideoTypeFilter = 'all',
+  options: RequestOptions = {}
+): Promise<RisingChannelSearch> => {
   
   // 1. Calculate Date Thresholds
   const now = new Date();
@@ -174,6 +422,8 @@ export const findRisingChannels = async (
       break;
   }
 
+  // Day granularity keeps the URL stable within a day so repeated runs hit the cache
+  publishedAfterDate.setUTCHours(0, 0, 0, 0);
   const publishedAfter = publishedAfterDate.toISOString();
 
   // 2. Build Search URL
@@ -194,10 +444,10 @@ export const findRisingChannels = async (
     searchUrl += `&videoDuration=medium`;
   }
 
-  const searchRes = await fetch(searchUrl);
-  const searchData = await searchRes.json();
+  const searchData = await youtubeGet('search', 'search', searchUrl, options);
 
-  if (!searchData.items) return [];
+  const empty: RisingChannelSearch = { items: [], failedIds: [], marketVideos: [], marketChannels: [] };
+  if (!searchData.items) return empty;
 
   // 3. Extract unique channel IDs and Map Best Video
   const videoMap = new Map<string, string>(); // ChannelId -> VideoId
@@ -211,20 +461,19 @@ export const findRisingChannels = async (
     }
   });
 
-  const channelIds = Array.from(channelIdsSet).slice(0, 40);
-  if (channelIds.length === 0) return [];
+  // At most 50 with maxResults=50, which is also the channels.list ID limit
+  const channelIds = Array.from(channelIdsSet);
+  if (channelIds.length === 0) return empty;
 
   // 4. Get Channel Details
   const channelsUrl = `${BASE_URL}/channels?part=snippet,statistics&id=${channelIds.join(',')}&key=${apiKey}`;
-  const chRes = await fetch(channelsUrl);
-  const chData = await chRes.json();
+  const chData = await youtubeGet('channels', 'channelStats', channelsUrl, options);
 
-  if (!chData.items) return [];
+  if (!chData.items) return empty;
 
-  // 5. Get Detailed Video Info (for AI Summary and correct Stats)
-  const videoIdsToFetch = Array.from(videoMap.values()).join(',');
-  const videoDetails = await getVideoDetails(apiKey, videoIdsToFetch);
-  const videoDetailsMap = new Map(videoDetails.map(v => [v.id, v]));
+  // 5. Get Detailed Video Info for every search result (for AI Summary, correct Stats and market metrics)
+  const videoDetails = await getVideoDetails(apiKey, searchData.items.map((item: any) => item.id.videoId), options);
+  const videoDetailsMap = new Map(videoDetails.items.map(v => [v.id, v]));
 
   const risingChannels: RisingChannelResult[] = [];
 
@@ -264,5 +513,10 @@ export const findRisingChannels = async (
     }
   });
 
-  return risingChannels.sort((a, b) => b.score - a.score);
+  return {
+    items: risingChannels.sort((a, b) => b.score - a.score),
+    failedIds: videoDetails.failedIds,
+    marketVideos: videoDetails.items,
+    marketChannels: chData.items.map(mapChannelItem)
+  };
 };
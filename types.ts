@@ -15,6 +15,12 @@ export interface YouTubeVideo {
   popularityScore?: number; // Added for sorting in frontend
 }
 
+// Result of an ID-batched fetch. failedIds lists the IDs whose batch request failed.
+export interface BatchedResult<T> {
+  items: T[];
+  failedIds: string[];
+}
+
 export interface YouTubeChannel {
   id: string;
   title: string;
@@ -33,6 +39,13 @@ export interface GrowthStage {
   strategy: string;      // 전략 분석
   quantitative: string;  // 정량적 성과 분석
   contentDepth: string;  // 콘텐츠 전략 심화 분석
+  evidenceVideoIds?: string[]; // Videos the stage analysis is based on
+}
+
+export interface DiagnosisItem {
+  problem: string;
+  solution: string;
+  evidenceVideoIds?: string[];
 }
 
 export interface AnalysisReport {
@@ -47,10 +60,10 @@ export interface AnalysisReport {
 
   // 2. AI Channel Diagnosis & Consulting
   diagnosis: {
-    content: { problem: string; solution: string };
-    engagement: { problem: string; solution: string };
-    monetization: { problem: string; solution: string };
-    branding: { problem: string; solution: string };
+    content: DiagnosisItem;
+    engagement: DiagnosisItem;
+    monetization: DiagnosisItem;
+    branding: DiagnosisItem;
   };
 
   // 3. AI Competitive Strategy (Benchmarking)
@@ -63,6 +76,7 @@ export interface AnalysisReport {
     kpis: string[]; // Key metrics
     risks: string; // Risk management
     revenue: string; // Revenue diversification
+    evidenceVideoIds?: string[]; // Videos the strategy benchmarks against
   };
 
   // Legacy/Keyword fields
@@ -71,6 +85,91 @@ export interface AnalysisReport {
   opportunities?: string[];
   actionPlan?: string[];
   marketAnalysis?: string;
+
+  thumbnails?: ThumbnailReport; // Run on demand after the main report
+  chat?: ChatMessage[]; // Follow-up questions asked about this report, oldest first
+
+  model?: string; // Model that generated the report
+  defaultedFields?: string[]; // Field paths the AI left out or malformed, filled with empty values
+  promptVersions?: Partial<Record<PromptTemplateId, number>>; // Template versions used for the prompt
+  language?: ReportLanguage; // Language the report text was written in
+}
+
+// One turn of the follow-up conversation attached to a report
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string; // ISO timestamp
+  model?: string; // Set on assistant turns
+}
+
+// How one thumbnail trait differs between the most- and least-viewed videos
+export interface ThumbnailFinding {
+  topPattern: string;
+  bottomPattern: string;
+  viewImpact: string;
+}
+
+export interface ThumbnailReport {
+  summary: string;
+  textOverlay: ThumbnailFinding;
+  faces: ThumbnailFinding;
+  colorPalette: ThumbnailFinding;
+  composition: ThumbnailFinding;
+  recommendations: string[];
+
+  topVideoIds?: string[]; // Videos whose thumbnails were sent, highest views first
+  bottomVideoIds?: string[];
+  model?: string;
+  defaultedFields?: string[];
+  promptVersions?: Partial<Record<PromptTemplateId, number>>;
+  language?: ReportLanguage;
+}
+
+export interface MarketMetrics {
+  videoCount: number;
+  channelCount: number;
+  avgViews: number;
+  medianViews: number;
+  viewGini: number; // 0 (even) to 1 (one video takes all views)
+  top10ViewShare: number; // 0 to 1, share of views held by the top 10% of videos
+  channelHHI: number; // 0 to 10000, Herfindahl-Hirschman index of channel view share
+  topChannelLifetimeUploadsPerWeek: number; // Average lifetime upload pace of the most-viewed channels
+}
+
+// Figures for one channel in compare mode, computed from the videos loaded for it
+export interface ChannelComparisonMetrics {
+  subscriberCount: number;
+  videoCount: number; // Videos loaded, not the channel's lifetime total
+  avgViews: number;
+  uploadIntervalDays: number; // Average gap between uploads over the loaded range
+  shortsRatio: number; // 0 to 1
+  engagementRate: number; // (likes + comments) / views
+}
+
+// Who comes out ahead on one dimension of the comparison
+export interface ComparisonCategory {
+  category: string;
+  winner: string; // One of the compared channel titles
+  reason: string;
+}
+
+export interface ChannelVerdict {
+  channel: string;
+  wins: string[]; // Where this channel beats the others
+  gaps: string[]; // Where it falls behind
+}
+
+export interface ComparisonReport {
+  summary: string;
+  categories: ComparisonCategory[];
+  channels: ChannelVerdict[];
+  actionPlan: string[]; // Written for the first channel, treated as the user's own
+
+  model?: string;
+  defaultedFields?: string[];
+  promptVersions?: Partial<Record<PromptTemplateId, number>>;
+  language?: ReportLanguage;
 }
 
 export interface OpportunityReport {
@@ -85,6 +184,12 @@ export interface OpportunityReport {
   viewDistribution?: string; // "Top 10% videos have 80% views (Monopoly)"
   channelConcentration?: string; // "Top 50 videos come from 5 channels (High Concentration)"
   channelActivity?: string; // "Top channels upload every 2 days (High Competition)"
+  metrics?: MarketMetrics; // Computed locally from the fetched videos; the prose fields interpret these
+
+  model?: string; // Model that generated the report
+  defaultedFields?: string[]; // Field paths the AI left out or malformed, filled with empty values
+  promptVersions?: Partial<Record<PromptTemplateId, number>>; // Template versions used for the prompt
+  language?: ReportLanguage; // Language the report text was written in
 }
 
 export interface YouTubeCategory {
@@ -92,13 +197,180 @@ export interface YouTubeCategory {
   title: string;
 }
 
+export interface OutlineChapter {
+  timestamp: string; // "m:ss"
+  title: string;
+  summary: string;
+}
+
+export interface OutlineCTA {
+  timestamp: string;
+  message: string;
+}
+
+// Production plan for one video, generated from a suggested title or an existing video
+export interface VideoOutline {
+  title: string;
+  hook: string; // Script for the first 15 seconds
+  chapters: OutlineChapter[];
+  ctas: OutlineCTA[];
+  thumbnailText: string[]; // Alternative overlay texts, strongest first
+  shortsIdea: string;
+
+  referenceVideoId?: string; // Set when the outline was built from a video in the lists
+  model?: string;
+  defaultedFields?: string[];
+  promptVersions?: Partial<Record<PromptTemplateId, number>>;
+  language?: ReportLanguage;
+}
+
+// One cue from an imported subtitle file
+export interface TranscriptSegment {
+  start: number; // Seconds from the start of the video
+  end: number;
+  text: string;
+}
+
+// Subtitle file attached to a video by the user, kept per video ID
+export interface VideoTranscript {
+  videoId: string;
+  fileName: string;
+  segments: TranscriptSegment[];
+  importedAt: string; // ISO timestamp
+}
+
+// Transcript-grounded summary of a video
+export interface TranscriptAnalysis {
+  summary: string;
+  hook: string; // How the first 30 seconds keep viewers watching
+  chapters: OutlineChapter[];
+
+  model?: string;
+  defaultedFields?: string[];
+  promptVersions?: Partial<Record<PromptTemplateId, number>>;
+  language?: ReportLanguage;
+}
+
+// Title conventions of the highest-viewed search results, used to score title candidates
+export interface TitleBenchmark {
+  keyword: string;
+  sampleSize: number;
+  lengthRange: [number, number]; // Interquartile range of title length in characters
+  medianLength: number;
+  numberShare: number; // 0 to 1, share of titles containing a digit
+  bracketShare: number;
+  emojiShare: number;
+  topKeywords: string[]; // Words that recur across high performers, most common first
+}
+
+export interface TitleVariant {
+  title: string;
+  clickAppeal: number; // 0 to 100, the AI's rating
+  rationale: string;
+}
+
+export interface TitleVariantSet {
+  variants: TitleVariant[];
+  model?: string;
+  defaultedFields?: string[];
+  promptVersions?: Partial<Record<PromptTemplateId, number>>;
+  language?: ReportLanguage;
+}
+
+export interface TitleScores {
+  length: number; // Each 0 to 100
+  style: number;
+  keyword: number;
+  appeal: number;
+  total: number;
+}
+
+export interface ScoredTitle {
+  title: string;
+  rationale: string; // The AI's note on why the variant should get clicks
+  scores: TitleScores;
+  matchedKeywords: string[];
+}
+
+export interface PinnedTitle extends ScoredTitle {
+  id: string;
+  topic: string;
+  pinnedAt: string; // ISO
+}
+
+export type ScoreNormalization = 'max' | 'log' | 'percentile' | 'zscore';
+
+export interface ScoringWeights {
+  views: number; // Relative; they don't need to sum to 100
+  likes: number;
+  comments: number;
+}
+
+// Named setup for the video popularity score
+export interface ScoringPreset {
+  name: string;
+  normalization: ScoreNormalization;
+  ageAdjusted: boolean; // Counts are divided by days since upload before normalizing
+  weights: ScoringWeights;
+}
+
 export enum AppTab {
   CHANNEL_ANALYSIS = 'CHANNEL_ANALYSIS',
+  CHANNEL_COMPARE = 'CHANNEL_COMPARE',
   KEYWORD_ANALYSIS = 'KEYWORD_ANALYSIS',
-  OPPORTUNITY_FINDER = 'OPPORTUNITY_FINDER'
+  OPPORTUNITY_FINDER = 'OPPORTUNITY_FINDER',
+  TITLE_LAB = 'TITLE_LAB',
+  PROMPT_SETTINGS = 'PROMPT_SETTINGS',
+  USAGE_DASHBOARD = 'USAGE_DASHBOARD'
+}
+
+export type YouTubeEndpoint = 'search' | 'channels' | 'playlistItems' | 'videos' | 'videoCategories';
+
+export interface QuotaUsage {
+  date: string; // YYYY-MM-DD in Pacific Time, when the YouTube quota resets
+  used: number;
+  byEndpoint: Partial<Record<YouTubeEndpoint, number>>;
+}
+
+// Cached response groups, each with its own TTL
+export type CacheResource = 'channelMeta' | 'channelStats' | 'playlistItems' | 'videos' | 'search' | 'videoCategories' | 'videoSummaries';
+
+export interface CacheStats {
+  resource: CacheResource;
+  count: number;
+  bytes: number;
+  oldestAt: number | null;
+}
+
+export type QuotaBudgetMode = 'warn' | 'block';
+
+export interface QuotaBudget {
+  limit: number;
+  mode: QuotaBudgetMode;
+}
+
+export type LLMProviderId = 'gemini' | 'openai' | 'ollama';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  endpoint: string; // Base URL for OpenAI-compatible and Ollama servers; unused for Gemini
+  model: string;
+}
+
+export type AnalysisKind = 'channel' | 'keyword' | 'opportunity' | 'summary' | 'thumbnail' | 'title' | 'outline' | 'chat' | 'transcript' | 'compare';
+
+// Empty model and undefined fields fall back to the provider's defaults
+export interface GenerationSettings {
+  model: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // Gemini 2.5 only; -1 lets the model decide, 0 disables thinking
 }
 
 export type RegionCode = 'KR' | 'US' | 'JP' | 'Global';
+
+// Language of AI report text and exports; independent of the YouTube region being searched
+export type ReportLanguage = 'ko' | 'en' | 'ja';
 export type VideoType = 'any' | 'video' | 'short';
 
 export type RisingPeriod = '3m' | '6m' | '1y' | 'all';
@@ -111,3 +383,39 @@ export interface RisingChannelResult {
   topVideoViews: number;
   score: number;
 }
+
+// Rising channels plus the whole search result they were picked from, which market metrics are measured on
+export interface RisingChannelSearch extends BatchedResult<RisingChannelResult> {
+  marketVideos: YouTubeVideo[]; // Every video the search returned, before the one-per-channel pick
+  marketChannels: YouTubeChannel[]; // Every channel in the search, before the creation-date filter
+}
+
+export type PromptTemplateId = 'system' | 'channel' | 'keyword' | 'opportunity' | 'summary' | 'thumbnail' | 'title' | 'outline' | 'chat' | 'transcript' | 'compare';
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  savedAt: string; // ISO timestamp; empty for the built-in version
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+export interface UsageEntry extends TokenUsage {
+  id: string;
+  timestamp: string; // ISO
+  provider: LLMProviderId;
+  model: string;
+  kind: AnalysisKind;
+  subject: string; // Channel, keyword, topic or video the call was about
+  cost: number; // USD, priced when the call was recorded
+}
+
+// USD per one million tokens; thinking tokens are billed at the output rate
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
@@ -1,5 +1,5 @@
 
-import { AnalysisReport, OpportunityReport, RisingChannelResult } from './types';
+import { AnalysisReport, YouTubeVideo, OpportunityReport, RisingChannelResult, PromptTemplateId, ReportLanguage, ThumbnailReport, VideoOutline, ChatMessage, TranscriptAnalysis, ComparisonReport, ChannelComparisonMetrics } from './types';
 
 // Simple obfuscation for local storage (not military grade, but prevents plain text snooping)
 export const encryptKey = (key: string): string => {
@@ -51,6 +51,38 @@ export const parseDuration = (duration: string): number => {
   return hours * 3600 + minutes * 60 + seconds;
 };
 
+export const chunkArray = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Runs the worker over every item with at most `limit` in flight. Results keep the input order.
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const runNext = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+  return results;
+};
+
 export const downloadCSV = (data: any[], filename: string) => {
   if (!data.length) return;
   const headers = Object.keys(data[0]).join(',');
@@ -74,170 +106,679 @@ export const downloadJSON = (data: any, filename: string) => {
   link.click();
 };
 
-export const downloadText = (data: string, filename: string) => {
-    const blob = new Blob([data], { type: 'text/plain;charset=utf-8' });
+export const downloadText = (data: string, filename: string, mimeType = 'text/plain', extension = 'txt') => {
+    const blob = new Blob([data], { type: `${mimeType};charset=utf-8` });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `${filename}.txt`;
+    link.download = `${filename}.${extension}`;
     link.click();
 };
 
-export const formatReportToText = (report: AnalysisReport, channelName: string): string => {
-    return `
-[TubeStrategy AI 컨설팅 리포트]
-분석 대상 채널: ${channelName}
-분석 일시: ${new Date().toLocaleString('ko-KR')}
+export const downloadMarkdown = (data: string, filename: string) => downloadText(data, filename, 'text/markdown', 'md');
+
+// Label of the prompt template versions a report was built from, e.g. "system v1, channel v3"
+export const formatPromptVersions = (versions: Partial<Record<PromptTemplateId, number>>): string => {
+  return Object.entries(versions).map(([id, version]) => `${id} v${version}`).join(', ');
+};
+
+const REPORT_LABELS = {
+  ko: {
+    locale: 'ko-KR',
+    generatedAt: '분석 일시',
+    model: '생성 모델',
+    promptVersions: '프롬프트 버전',
+    channelReportTitle: '[TubeStrategy AI 컨설팅 리포트]',
+    notGenerated: '(생성되지 않음)',
+    channelTarget: '분석 대상 채널',
+    overview: '1. 종합 요약',
+    growth: '2. 성장 과정 심층 분석',
+    early: '초기 단계',
+    mid: '중기 단계',
+    latest: '최근 단계',
+    stageSummary: '요약',
+    stageStrategy: '전략',
+    stageQuantitative: '성과',
+    stageContentDepth: '심층분석',
+    diagnosis: '3. 채널 진단 및 솔루션',
+    content: '콘텐츠',
+    engagement: '시청자 참여',
+    monetization: '수익화',
+    branding: '브랜딩',
+    problem: '문제점',
+    solution: '솔루션',
+    evidence: '근거 영상',
+    strategy: '4. AI 경쟁 전략 (로드맵)',
+    concept: '새로운 채널 컨셉',
+    direction: '운영 방향성',
+    detailedOperation: '상세 운영 전략',
+    roadmap: '3개월 집중 성장 로드맵',
+    titles: '추천 영상 제목 10선',
+    kpis: '핵심 성과 지표 (KPI)',
+    risks: '리스크 관리 전략',
+    revenue: '수익 모델 다각화',
+    keywordReportTitle: '[TubeStrategy AI 키워드 시장 분석 리포트]',
+    keywordTarget: '분석 키워드',
+    marketSummary: '1. 시장 트렌드 요약',
+    marketAnalysis: '2. 시장 분석 (Market Analysis)',
+    swot: '3. 기회 및 위협 요인 (SWOT)',
+    strengths: '성공 요인 / 강점',
+    weaknesses: '시장 빈틈 / 약점',
+    opportunities: '기회 요인',
+    actionPlan: '4. 필승 전략 (Action Plan)',
+    opportunityReportTitle: '[TubeStrategy AI 공략 채널 발굴 리포트]',
+    topic: '주제',
+    opportunityAnalysis: '1. 시장 기회 분석 (AI Analysis)',
+    verdict: '판단',
+    blueOcean: '🌊 블루오션 (기회 시장)',
+    redOcean: '🔥 레드오션 (경쟁 과열)',
+    score: '기회 점수',
+    summary: '요약',
+    reason: '판단 근거',
+    metrics: '시장 상세 지표',
+    viewDistribution: '조회수 분포',
+    channelConcentration: '채널 집중도',
+    channelActivity: '채널 활성도',
+    viewGini: '조회수 지니계수',
+    top10ViewShare: '상위 10% 조회수 점유율',
+    channelHHI: '채널 HHI',
+    lifetimeUploadsPerWeek: (pace: string) => `상위 채널 평균 업로드 빈도 (개설 이후): 주 ${pace}회`,
+    entryStrategy: '진입 전략',
+    keywords: '추천 키워드',
+    thumbnails: '5. 썸네일 비전 분석',
+    thumbnailSummary: '핵심 차이',
+    textOverlay: '텍스트 오버레이',
+    faces: '얼굴 · 표정',
+    colorPalette: '색감',
+    composition: '구도',
+    topPattern: '상위',
+    bottomPattern: '하위',
+    viewImpact: '조회수와의 관계',
+    thumbnailRecommendations: '개선안',
+    chat: '6. 후속 질의응답',
+    videoSummaries: '7. 영상별 AI 요약',
+    aiSummary: 'AI 요약',
+    outlineHook: '첫 15초 훅',
+    outlineChapters: '챕터 구성',
+    outlineCtas: 'CTA 배치',
+    outlineThumbnailText: '썸네일 문구',
+    outlineShorts: '쇼츠 아이디어',
+    outlineReference: '참고 영상',
+    transcriptHook: '첫 30초 훅',
+    transcriptChapters: '챕터',
+    compareReportTitle: '[TubeStrategy AI 채널 비교 리포트]',
+    compareTargets: '비교 채널',
+    ownChannel: '우리 채널',
+    compareMetrics: '1. 핵심 지표 비교',
+    compareSummary: '2. 종합 판정',
+    compareCategories: '3. 항목별 우위',
+    compareChannels: '4. 채널별 강점과 약점',
+    compareActionPlan: '5. 우리 채널 실행 계획',
+    winner: '우위',
+    wins: '강점',
+    gaps: '약점',
+    avgViews: '평균 조회수',
+    uploadInterval: (days: string) => `업로드 주기: ${days}일마다`,
+    shortsRatio: '쇼츠 비율',
+    engagementRate: '참여율',
+    risingChannels: (count: number) => `2. 라이징 스타 채널 리스트 (${count}개)`,
+    subscribers: '구독자',
+    createdAt: '개설일',
+    topVideo: '대표 영상',
+    videoViews: (views: string) => `영상 조회수: ${views}회`,
+    channelUrl: '채널 URL',
+    videoUrl: '영상 URL',
+  },
+  en: {
+    locale: 'en-US',
+    generatedAt: 'Generated at',
+    model: 'Model',
+    promptVersions: 'Prompt versions',
+    channelReportTitle: '[TubeStrategy AI Consulting Report]',
+    notGenerated: '(not generated)',
+    channelTarget: 'Channel',
+    overview: '1. Executive Summary',
+    growth: '2. Growth History Analysis',
+    early: 'Early Stage',
+    mid: 'Mid Stage',
+    latest: 'Latest Stage',
+    stageSummary: 'Summary',
+    stageStrategy: 'Strategy',
+    stageQuantitative: 'Performance',
+    stageContentDepth: 'Deep Dive',
+    diagnosis: '3. Channel Diagnosis & Solutions',
+    content: 'Content',
+    engagement: 'Audience Engagement',
+    monetization: 'Monetization',
+    branding: 'Branding',
+    problem: 'Problem',
+    solution: 'Solution',
+    evidence: 'Evidence videos',
+    strategy: '4. AI Competitive Strategy (Roadmap)',
+    concept: 'New Channel Concept',
+    direction: 'Content Direction',
+    detailedOperation: 'Detailed Operations',
+    roadmap: '3-Month Growth Roadmap',
+    titles: '10 Recommended Video Titles',
+    kpis: 'Key Performance Indicators (KPI)',
+    risks: 'Risk Management',
+    revenue: 'Revenue Diversification',
+    keywordReportTitle: '[TubeStrategy AI Keyword Market Report]',
+    keywordTarget: 'Keyword',
+    marketSummary: '1. Market Trend Summary',
+    marketAnalysis: '2. Market Analysis',
+    swot: '3. Opportunities & Threats (SWOT)',
+    strengths: 'Success Factors / Strengths',
+    weaknesses: 'Market Gaps / Weaknesses',
+    opportunities: 'Opportunities',
+    actionPlan: '4. Action Plan',
+    opportunityReportTitle: '[TubeStrategy AI Rising Channel Report]',
+    topic: 'Topic',
+    opportunityAnalysis: '1. Market Opportunity Analysis (AI Analysis)',
+    verdict: 'Verdict',
+    blueOcean: '🌊 Blue Ocean (open market)',
+    redOcean: '🔥 Red Ocean (crowded market)',
+    score: 'Opportunity score',
+    summary: 'Summary',
+    reason: 'Reasoning',
+    metrics: 'Market Metrics',
+    viewDistribution: 'View distribution',
+    channelConcentration: 'Channel concentration',
+    channelActivity: 'Channel activity',
+    viewGini: 'View Gini coefficient',
+    top10ViewShare: 'Top-10% view share',
+    channelHHI: 'Channel HHI',
+    lifetimeUploadsPerWeek: (pace: string) => `Top channel average upload frequency (since creation): ${pace} per week`,
+    entryStrategy: 'Entry Strategy',
+    keywords: 'Recommended Keywords',
+    thumbnails: '5. Thumbnail Vision Analysis',
+    thumbnailSummary: 'Key difference',
+    textOverlay: 'Text overlay',
+    faces: 'Faces & expressions',
+    colorPalette: 'Color palette',
+    composition: 'Composition',
+    topPattern: 'Top',
+    bottomPattern: 'Bottom',
+    viewImpact: 'Relation to views',
+    thumbnailRecommendations: 'Recommendations',
+    chat: '6. Follow-up Q&A',
+    videoSummaries: '7. AI Summaries by Video',
+    aiSummary: 'AI summary',
+    outlineHook: 'Hook (first 15 seconds)',
+    outlineChapters: 'Chapters',
+    outlineCtas: 'Calls to action',
+    outlineThumbnailText: 'Thumbnail text',
+    outlineShorts: 'Shorts idea',
+    outlineReference: 'Reference video',
+    transcriptHook: 'Hook (first 30 seconds)',
+    transcriptChapters: 'Chapters',
+    compareReportTitle: '[TubeStrategy AI Channel Comparison Report]',
+    compareTargets: 'Channels',
+    ownChannel: 'Our channel',
+    compareMetrics: '1. Key Metrics',
+    compareSummary: '2. Overall Verdict',
+    compareCategories: '3. Category Winners',
+    compareChannels: '4. Strengths and Gaps by Channel',
+    compareActionPlan: '5. Action Plan for Our Channel',
+    winner: 'Winner',
+    wins: 'Strengths',
+    gaps: 'Gaps',
+    avgViews: 'Average views',
+    uploadInterval: (days: string) => `Upload cycle: every ${days} days`,
+    shortsRatio: 'Shorts ratio',
+    engagementRate: 'Engagement rate',
+    risingChannels: (count: number) => `2. Rising Channels (${count})`,
+    subscribers: 'Subscribers',
+    createdAt: 'Created',
+    topVideo: 'Top video',
+    videoViews: (views: string) => `Video views: ${views}`,
+    channelUrl: 'Channel URL',
+    videoUrl: 'Video URL',
+  },
+  ja: {
+    locale: 'ja-JP',
+    generatedAt: '分析日時',
+    model: '生成モデル',
+    promptVersions: 'プロンプトバージョン',
+    channelReportTitle: '[TubeStrategy AI コンサルティングレポート]',
+    notGenerated: '（未生成）',
+    channelTarget: '分析対象チャンネル',
+    overview: '1. 総合サマリー',
+    growth: '2. 成長過程の詳細分析',
+    early: '初期段階',
+    mid: '中期段階',
+    latest: '最近の段階',
+    stageSummary: '要約',
+    stageStrategy: '戦略',
+    stageQuantitative: '成果',
+    stageContentDepth: '詳細分析',
+    diagnosis: '3. チャンネル診断とソリューション',
+    content: 'コンテンツ',
+    engagement: '視聴者エンゲージメント',
+    monetization: '収益化',
+    branding: 'ブランディング',
+    problem: '課題',
+    solution: 'ソリューション',
+    evidence: '根拠動画',
+    strategy: '4. AI 競合戦略（ロードマップ）',
+    concept: '新しいチャンネルコンセプト',
+    direction: '運営の方向性',
+    detailedOperation: '詳細な運営戦略',
+    roadmap: '3か月集中成長ロードマップ',
+    titles: 'おすすめ動画タイトル10選',
+    kpis: '主要業績指標（KPI）',
+    risks: 'リスク管理戦略',
+    revenue: '収益モデルの多角化',
+    keywordReportTitle: '[TubeStrategy AI キーワード市場分析レポート]',
+    keywordTarget: '分析キーワード',
+    marketSummary: '1. 市場トレンドの要約',
+    marketAnalysis: '2. 市場分析（Market Analysis）',
+    swot: '3. 機会と脅威（SWOT）',
+    strengths: '成功要因 / 強み',
+    weaknesses: '市場の隙間 / 弱み',
+    opportunities: '機会要因',
+    actionPlan: '4. 必勝戦略（Action Plan）',
+    opportunityReportTitle: '[TubeStrategy AI 攻略チャンネル発掘レポート]',
+    topic: 'テーマ',
+    opportunityAnalysis: '1. 市場機会分析（AI Analysis）',
+    verdict: '判定',
+    blueOcean: '🌊 ブルーオーシャン（機会のある市場）',
+    redOcean: '🔥 レッドオーシャン（競争過熱）',
+    score: '機会スコア',
+    summary: '要約',
+    reason: '判断の根拠',
+    metrics: '市場の詳細指標',
+    viewDistribution: '再生数の分布',
+    channelConcentration: 'チャンネル集中度',
+    channelActivity: 'チャンネル活性度',
+    viewGini: '再生数のジニ係数',
+    top10ViewShare: '上位10%の再生数シェア',
+    channelHHI: 'チャンネルHHI',
+    lifetimeUploadsPerWeek: (pace: string) => `上位チャンネルの平均投稿頻度（開設以来）: 週${pace}回`,
+    entryStrategy: '参入戦略',
+    keywords: 'おすすめキーワード',
+    thumbnails: '5. サムネイルのビジョン分析',
+    thumbnailSummary: '主な違い',
+    textOverlay: 'テキストオーバーレイ',
+    faces: '顔・表情',
+    colorPalette: '配色',
+    composition: '構図',
+    topPattern: '上位',
+    bottomPattern: '下位',
+    viewImpact: '再生数との関係',
+    thumbnailRecommendations: '改善案',
+    chat: '6. フォローアップ質疑応答',
+    videoSummaries: '7. 動画別AI要約',
+    aiSummary: 'AI要約',
+    outlineHook: '冒頭15秒のフック',
+    outlineChapters: 'チャプター構成',
+    outlineCtas: 'CTAの配置',
+    outlineThumbnailText: 'サムネイル文言',
+    outlineShorts: 'ショートのアイデア',
+    outlineReference: '参考動画',
+    transcriptHook: '冒頭30秒のフック',
+    transcriptChapters: 'チャプター',
+    compareReportTitle: '[TubeStrategy AI チャンネル比較レポート]',
+    compareTargets: '比較チャンネル',
+    ownChannel: '自チャンネル',
+    compareMetrics: '1. 主要指標の比較',
+    compareSummary: '2. 総合判定',
+    compareCategories: '3. 項目別の優位',
+    compareChannels: '4. チャンネル別の強みと弱み',
+    compareActionPlan: '5. 自チャンネルの実行計画',
+    winner: '優位',
+    wins: '強み',
+    gaps: '弱み',
+    avgViews: '平均再生数',
+    uploadInterval: (days: string) => `投稿間隔: ${days}日ごと`,
+    shortsRatio: 'ショート比率',
+    engagementRate: 'エンゲージメント率',
+    risingChannels: (count: number) => `2. ライジングチャンネル一覧（${count}件）`,
+    subscribers: '登録者数',
+    createdAt: '開設日',
+    topVideo: '代表動画',
+    videoViews: (views: string) => `動画の再生数: ${views}回`,
+    channelUrl: 'チャンネルURL',
+    videoUrl: '動画URL',
+  },
+};
+
+// Shared header lines: generation time, model and prompt versions when recorded
+const formatReportMeta = (report: AnalysisReport | OpportunityReport | VideoOutline | ComparisonReport | null, labels: typeof REPORT_LABELS.ko): string => {
+  let meta = `${labels.generatedAt}: ${new Date().toLocaleString(labels.locale)}`;
+  if (report?.model) meta += `\n${labels.model}: ${report.model}`;
+  if (report?.promptVersions) meta += `\n${labels.promptVersions}: ${formatPromptVersions(report.promptVersions)}`;
+  return meta;
+};
+
+// Item-level evidence line; IDs are resolved to titles when the video is in the exported list
+const formatEvidence = (ids: string[] | undefined, videos: YouTubeVideo[], l: typeof REPORT_LABELS.ko): string => {
+  if (!ids?.length) return '';
+  const titles = ids.map(id => videos.find(v => v.id === id)?.title || `https://www.youtube.com/watch?v=${id}`);
+  return `\n- ${l.evidence}: ${titles.join(' / ')}`;
+};
+
+// Appended to channel and keyword reports once the thumbnail analysis has been run
+const formatThumbnailSection = (thumbnails: ThumbnailReport | undefined, l: typeof REPORT_LABELS.ko): string => {
+  if (!thumbnails) return '';
+  const findings = ([['textOverlay', l.textOverlay], ['faces', l.faces], ['colorPalette', l.colorPalette], ['composition', l.composition]] as const)
+    .map(([key, label]) => `[${label}]
+- ${l.topPattern}: ${thumbnails[key]?.topPattern}
+- ${l.bottomPattern}: ${thumbnails[key]?.bottomPattern}
+- ${l.viewImpact}: ${thumbnails[key]?.viewImpact}`)
+    .join('\n\n');
+  return `
 
 ================================================================================
-1. 종합 요약
+${l.thumbnails}
 ================================================================================
-${report.summary}
+[${l.thumbnailSummary}]
+${thumbnails.summary}
+
+${findings}
+
+[${l.thumbnailRecommendations}]
+${(thumbnails.recommendations || []).map(r => `- ${r}`).join('\n')}`;
+};
+
+const formatChatSection = (chat: ChatMessage[] | undefined, l: typeof REPORT_LABELS.ko): string => {
+  if (!chat?.length) return '';
+  return `
+
+================================================================================
+${l.chat}
+================================================================================
+${chat.map(m => `${m.role === 'user' ? 'Q' : 'A'}: ${m.content}`).join('\n\n')}`;
+};
+
+// Lists the videos that have an AI summary, in the order given
+const formatVideoSummarySection = (videos: YouTubeVideo[], summaries: Record<string, string>, l: typeof REPORT_LABELS.ko): string => {
+  const summarized = videos.filter(v => summaries[v.id]);
+  if (summarized.length === 0) return '';
+  return `
 
 ================================================================================
-2. 성장 과정 심층 분석
+${l.videoSummaries}
 ================================================================================
-[초기 단계] (${report.growthProcess.early.period})
-- 요약: ${report.growthProcess.early.summary}
-- 전략: ${report.growthProcess.early.strategy}
-- 성과: ${report.growthProcess.early.quantitative}
-- 심층분석: ${report.growthProcess.early.contentDepth}
+${summarized.map(v => `[${v.title}]
+https://www.youtube.com/watch?v=${v.id}
+${summaries[v.id]}`).join('\n\n')}`;
+};
 
-[중기 단계] (${report.growthProcess.mid.period})
-- 요약: ${report.growthProcess.mid.summary}
-- 전략: ${report.growthProcess.mid.strategy}
-- 성과: ${report.growthProcess.mid.quantitative}
-- 심층분석: ${report.growthProcess.mid.contentDepth}
+export const formatReportToText = (report: AnalysisReport, channelName: string, videos: YouTubeVideo[] = [], summaries: Record<string, string> = {}): string => {
+    const l = REPORT_LABELS[report.language || 'ko'];
+    // A cancelled or interrupted stream can leave whole sections or single fields missing
+    const text = (value: string | undefined) => value ?? l.notGenerated;
+    const list = (items: string[] | undefined) => items?.length ? items.map(item => `- ${item}`).join('\n') : l.notGenerated;
+    return `
+${l.channelReportTitle}
+${l.channelTarget}: ${channelName}
+${formatReportMeta(report, l)}
+
+================================================================================
+${l.overview}
+================================================================================
+${text(report.summary)}
 
-[최근 단계] (${report.growthProcess.latest.period})
-- 요약: ${report.growthProcess.latest.summary}
-- 전략: ${report.growthProcess.latest.strategy}
-- 성과: ${report.growthProcess.latest.quantitative}
-- 심층분석: ${report.growthProcess.latest.contentDepth}
+================================================================================
+${l.growth}
+================================================================================
+[${l.early}] (${text(report.growthProcess?.early?.period)})
+- ${l.stageSummary}: ${text(report.growthProcess?.early?.summary)}
+- ${l.stageStrategy}: ${text(report.growthProcess?.early?.strategy)}
+- ${l.stageQuantitative}: ${text(report.growthProcess?.early?.quantitative)}
+- ${l.stageContentDepth}: ${text(report.growthProcess?.early?.contentDepth)}${formatEvidence(report.growthProcess?.early?.evidenceVideoIds, videos, l)}
+
+[${l.mid}] (${text(report.growthProcess?.mid?.period)})
+- ${l.stageSummary}: ${text(report.growthProcess?.mid?.summary)}
+- ${l.stageStrategy}: ${text(report.growthProcess?.mid?.strategy)}
+- ${l.stageQuantitative}: ${text(report.growthProcess?.mid?.quantitative)}
+- ${l.stageContentDepth}: ${text(report.growthProcess?.mid?.contentDepth)}${formatEvidence(report.growthProcess?.mid?.evidenceVideoIds, videos, l)}
+
+[${l.latest}] (${text(report.growthProcess?.latest?.period)})
+- ${l.stageSummary}: ${text(report.growthProcess?.latest?.summary)}
+- ${l.stageStrategy}: ${text(report.growthProcess?.latest?.strategy)}
+- ${l.stageQuantitative}: ${text(report.growthProcess?.latest?.quantitative)}
+- ${l.stageContentDepth}: ${text(report.growthProcess?.latest?.contentDepth)}${formatEvidence(report.growthProcess?.latest?.evidenceVideoIds, videos, l)}
 
 ================================================================================
-3. 채널 진단 및 솔루션
+${l.diagnosis}
 ================================================================================
-[콘텐츠]
-- 문제점: ${report.diagnosis.content.problem}
-- 솔루션: ${report.diagnosis.content.solution}
+[${l.content}]
+- ${l.problem}: ${text(report.diagnosis?.content?.problem)}
+- ${l.solution}: ${text(report.diagnosis?.content?.solution)}${formatEvidence(report.diagnosis?.content?.evidenceVideoIds, videos, l)}
 
-[시청자 참여]
-- 문제점: ${report.diagnosis.engagement.problem}
-- 솔루션: ${report.diagnosis.engagement.solution}
+[${l.engagement}]
+- ${l.problem}: ${text(report.diagnosis?.engagement?.problem)}
+- ${l.solution}: ${text(report.diagnosis?.engagement?.solution)}${formatEvidence(report.diagnosis?.engagement?.evidenceVideoIds, videos, l)}
 
-[수익화]
-- 문제점: ${report.diagnosis.monetization.problem}
-- 솔루션: ${report.diagnosis.monetization.solution}
+[${l.monetization}]
+- ${l.problem}: ${text(report.diagnosis?.monetization?.problem)}
+- ${l.solution}: ${text(report.diagnosis?.monetization?.solution)}${formatEvidence(report.diagnosis?.monetization?.evidenceVideoIds, videos, l)}
 
-[브랜딩]
-- 문제점: ${report.diagnosis.branding.problem}
-- 솔루션: ${report.diagnosis.branding.solution}
+[${l.branding}]
+- ${l.problem}: ${text(report.diagnosis?.branding?.problem)}
+- ${l.solution}: ${text(report.diagnosis?.branding?.solution)}${formatEvidence(report.diagnosis?.branding?.evidenceVideoIds, videos, l)}
 
 ================================================================================
-4. AI 경쟁 전략 (로드맵)
+${l.strategy}
 ================================================================================
-[새로운 채널 컨셉]
-${report.benchmarking.concept}
+[${l.concept}]
+${text(report.benchmarking?.concept)}
 
-[운영 방향성]
-${report.benchmarking.direction}
+[${l.direction}]
+${text(report.benchmarking?.direction)}
 
-[상세 운영 전략]
-${report.benchmarking.detailedOperation}
+[${l.detailedOperation}]
+${text(report.benchmarking?.detailedOperation)}${formatEvidence(report.benchmarking?.evidenceVideoIds, videos, l)}
 
-[3개월 집중 성장 로드맵]
-${report.benchmarking.roadmap.map(s => `- ${s}`).join('\n')}
+[${l.roadmap}]
+${list(report.benchmarking?.roadmap)}
 
-[추천 영상 제목 10선]
-${report.benchmarking.titles.map(t => `- ${t}`).join('\n')}
+[${l.titles}]
+${list(report.benchmarking?.titles)}
 
-[핵심 성과 지표 (KPI)]
-${report.benchmarking.kpis.map(k => `- ${k}`).join('\n')}
+[${l.kpis}]
+${list(report.benchmarking?.kpis)}
 
-[리스크 관리 전략]
-${report.benchmarking.risks}
+[${l.risks}]
+${text(report.benchmarking?.risks)}
 
-[수익 모델 다각화]
-${report.benchmarking.revenue}
+[${l.revenue}]
+${text(report.benchmarking?.revenue)}${formatThumbnailSection(report.thumbnails, l)}${formatChatSection(report.chat, l)}${formatVideoSummarySection(videos, summaries, l)}
     `.trim();
 };
 
-export const formatKeywordReportToText = (report: AnalysisReport, keyword: string): string => {
+export const formatKeywordReportToText = (report: AnalysisReport, keyword: string, videos: YouTubeVideo[] = [], summaries: Record<string, string> = {}): string => {
+    const l = REPORT_LABELS[report.language || 'ko'];
     return `
-[TubeStrategy AI 키워드 시장 분석 리포트]
-분석 키워드: ${keyword}
-분석 일시: ${new Date().toLocaleString('ko-KR')}
+${l.keywordReportTitle}
+${l.keywordTarget}: ${keyword}
+${formatReportMeta(report, l)}
 
 ================================================================================
-1. 시장 트렌드 요약
+${l.marketSummary}
 ================================================================================
 ${report.summary}
 
 ================================================================================
-2. 시장 분석 (Market Analysis)
+${l.marketAnalysis}
 ================================================================================
 ${report.marketAnalysis}
 
 ================================================================================
-3. 기회 및 위협 요인 (SWOT)
+${l.swot}
 ================================================================================
-[성공 요인 / 강점]
+[${l.strengths}]
 ${(report.strengths || []).map(s => `- ${s}`).join('\n')}
 
-[시장 빈틈 / 약점]
+[${l.weaknesses}]
 ${(report.weaknesses || []).map(w => `- ${w}`).join('\n')}
 
-[기회 요인]
+[${l.opportunities}]
 ${(report.opportunities || []).map(o => `- ${o}`).join('\n')}
 
 ================================================================================
-4. 필승 전략 (Action Plan)
+${l.actionPlan}
 ================================================================================
-${(report.actionPlan || []).map(p => `- ${p}`).join('\n')}
+${(report.actionPlan || []).map(p => `- ${p}`).join('\n')}${formatThumbnailSection(report.thumbnails, l)}${formatChatSection(report.chat, l)}${formatVideoSummarySection(videos, summaries, l)}
     `.trim();
 };
 
 export const formatOpportunityReportToText = (
   report: OpportunityReport | null,
   channels: RisingChannelResult[],
-  topic: string
+  topic: string,
+  language: ReportLanguage = report?.language || 'ko',
+  summaries: Record<string, string> = {}
 ): string => {
-  const dateStr = new Date().toLocaleString('ko-KR');
-  let content = `[TubeStrategy AI 공략 채널 발굴 리포트]\n`;
-  content += `주제: ${topic}\n`;
-  content += `분석 일시: ${dateStr}\n\n`;
+  const l = REPORT_LABELS[language];
+  let content = `${l.opportunityReportTitle}\n`;
+  content += `${l.topic}: ${topic}\n`;
+  content += `${formatReportMeta(report, l)}\n\n`;
 
   if (report) {
     content += `================================================================================\n`;
-    content += `1. 시장 기회 분석 (AI Analysis)\n`;
+    content += `${l.opportunityAnalysis}\n`;
     content += `================================================================================\n`;
-    content += `판단: ${report.type === 'BLUE_OCEAN' ? '🌊 블루오션 (기회 시장)' : '🔥 레드오션 (경쟁 과열)'}\n`;
-    content += `기회 점수: ${report.score} / 100\n\n`;
-    content += `[요약]\n${report.summary}\n\n`;
-    content += `[판단 근거]\n${report.reason}\n\n`;
-    content += `[시장 상세 지표]\n`;
-    content += `- 조회수 분포: ${report.viewDistribution}\n`;
-    content += `- 채널 집중도: ${report.channelConcentration}\n`;
-    content += `- 채널 활성도: ${report.channelActivity}\n\n`;
-    content += `[진입 전략]\n${report.strategy}\n\n`;
-    content += `[추천 키워드]\n${report.keywords.join(', ')}\n\n`;
+    content += `${l.verdict}: ${report.type === 'BLUE_OCEAN' ? l.blueOcean : l.redOcean}\n`;
+    content += `${l.score}: ${report.score} / 100\n\n`;
+    content += `[${l.summary}]\n${report.summary}\n\n`;
+    content += `[${l.reason}]\n${report.reason}\n\n`;
+    content += `[${l.metrics}]\n`;
+    if (report.metrics) {
+      content += `- ${l.viewGini}: ${report.metrics.viewGini.toFixed(2)}\n`;
+      content += `- ${l.top10ViewShare}: ${(report.metrics.top10ViewShare * 100).toFixed(1)}%\n`;
+      content += `- ${l.channelHHI}: ${Math.round(report.metrics.channelHHI)}\n`;
+      content += `- ${l.lifetimeUploadsPerWeek(report.metrics.topChannelLifetimeUploadsPerWeek.toFixed(1))}\n`;
+    }
+    content += `- ${l.viewDistribution}: ${report.viewDistribution}\n`;
+    content += `- ${l.channelConcentration}: ${report.channelConcentration}\n`;
+    content += `- ${l.channelActivity}: ${report.channelActivity}\n\n`;
+    content += `[${l.entryStrategy}]\n${report.strategy}\n\n`;
+    content += `[${l.keywords}]\n${report.keywords.join(', ')}\n\n`;
   }
 
   if (channels.length > 0) {
     content += `================================================================================\n`;
-    content += `2. 라이징 스타 채널 리스트 (${channels.length}개)\n`;
+    content += `${l.risingChannels(channels.length)}\n`;
     content += `================================================================================\n`;
     channels.forEach((item, index) => {
       content += `[${index + 1}] ${item.details.title}\n`;
-      content += `- 구독자: ${formatNumber(item.details.subscriberCount)}\n`;
-      content += `- 개설일: ${item.details.publishedAt?.split('T')[0]}\n`;
-      content += `- 대표 영상: ${item.topVideo.title}\n`;
-      content += `- 영상 조회수: ${formatNumber(item.topVideo.viewCount)}회\n`;
-      content += `- 채널 URL: https://www.youtube.com/channel/${item.details.id}\n`;
-      content += `- 영상 URL: https://www.youtube.com/watch?v=${item.topVideo.id}\n\n`;
+      content += `- ${l.subscribers}: ${formatNumber(item.details.subscriberCount)}\n`;
+      content += `- ${l.createdAt}: ${item.details.publishedAt?.split('T')[0]}\n`;
+      content += `- ${l.topVideo}: ${item.topVideo.title}\n`;
+      content += `- ${l.videoViews(formatNumber(item.topVideo.viewCount))}\n`;
+      content += `- ${l.channelUrl}: https://www.youtube.com/channel/${item.details.id}\n`;
+      content += `- ${l.videoUrl}: https://www.youtube.com/watch?v=${item.topVideo.id}\n`;
+      if (summaries[item.topVideo.id]) content += `- ${l.aiSummary}:\n${summaries[item.topVideo.id]}\n`;
+      content += `\n`;
     });
   }
 
   return content;
 };
+
+// Metrics come in the same order as the channels; the first channel is the user's own
+export const formatComparisonReportToText = (
+  report: ComparisonReport | null,
+  channels: { title: string; id: string }[],
+  metrics: ChannelComparisonMetrics[],
+  language: ReportLanguage = report?.language || 'ko'
+): string => {
+  const l = REPORT_LABELS[language];
+  let content = `${l.compareReportTitle}\n`;
+  content += `${l.compareTargets}: ${channels.map(c => c.title).join(' vs ')}\n`;
+  content += `${formatReportMeta(report, l)}\n\n`;
+
+  content += `================================================================================\n`;
+  content += `${l.compareMetrics}\n`;
+  content += `================================================================================\n`;
+  channels.forEach((channel, index) => {
+    const m = metrics[index];
+    content += `[${index + 1}] ${channel.title}${index === 0 ? ` (${l.ownChannel})` : ''}\n`;
+    content += `- ${l.subscribers}: ${formatNumber(m.subscriberCount)}\n`;
+    content += `- ${l.avgViews}: ${formatNumber(Math.round(m.avgViews))}\n`;
+    content += `- ${l.uploadInterval(m.uploadIntervalDays.toFixed(1))}\n`;
+    content += `- ${l.shortsRatio}: ${(m.shortsRatio * 100).toFixed(0)}%\n`;
+    content += `- ${l.engagementRate}: ${(m.engagementRate * 100).toFixed(2)}%\n`;
+    content += `- ${l.channelUrl}: https://www.youtube.com/channel/${channel.id}\n\n`;
+  });
+
+  if (report) {
+    content += `================================================================================\n`;
+    content += `${l.compareSummary}\n`;
+    content += `================================================================================\n`;
+    content += `${report.summary}\n\n`;
+
+    content += `================================================================================\n`;
+    content += `${l.compareCategories}\n`;
+    content += `================================================================================\n`;
+    (report.categories || []).forEach(c => {
+      content += `[${c.category}] ${l.winner}: ${c.winner}\n${c.reason}\n\n`;
+    });
+
+    content += `================================================================================\n`;
+    content += `${l.compareChannels}\n`;
+    content += `================================================================================\n`;
+    (report.channels || []).forEach(c => {
+      content += `[${c.channel}]\n`;
+      content += `${l.wins}:\n${(c.wins || []).map(w => `- ${w}`).join('\n')}\n`;
+      content += `${l.gaps}:\n${(c.gaps || []).map(g => `- ${g}`).join('\n')}\n\n`;
+    });
+
+    content += `================================================================================\n`;
+    content += `${l.compareActionPlan}\n`;
+    content += `================================================================================\n`;
+    content += `${(report.actionPlan || []).map(p => `- ${p}`).join('\n')}\n`;
+  }
+
+  return content;
+};
+
+// Plain-text form shown on video cards and stored as the video's summary
+export const formatTranscriptAnalysis = (analysis: TranscriptAnalysis): string => {
+  const l = REPORT_LABELS[analysis.language || 'ko'];
+  return [
+    analysis.summary,
+    '',
+    `[${l.transcriptHook}]`,
+    analysis.hook,
+    '',
+    `[${l.transcriptChapters}]`,
+    ...(analysis.chapters || []).map(c => `${c.timestamp} ${c.title} - ${c.summary}`),
+  ].join('\n');
+};
+
+export const formatOutlineToMarkdown = (outline: VideoOutline): string => {
+  const l = REPORT_LABELS[outline.language || 'ko'];
+  const lines = [
+    `# ${outline.title}`,
+    '',
+    `> ${formatReportMeta(outline, l).split('\n').join(' · ')}`,
+  ];
+  if (outline.referenceVideoId) lines.push(`> ${l.outlineReference}: https://www.youtube.com/watch?v=${outline.referenceVideoId}`);
+  lines.push(
+    '',
+    `## ${l.outlineHook}`,
+    '',
+    outline.hook,
+    '',
+    `## ${l.outlineChapters}`,
+    '',
+    ...(outline.chapters || []).map(c => `- **${c.timestamp}** ${c.title}  \n  ${c.summary}`),
+    '',
+    `## ${l.outlineCtas}`,
+    '',
+    ...(outline.ctas || []).map(c => `- **${c.timestamp}** ${c.message}`),
+    '',
+    `## ${l.outlineThumbnailText}`,
+    '',
+    ...(outline.thumbnailText || []).map(t => `- ${t}`),
+    '',
+    `## ${l.outlineShorts}`,
+    '',
+    outline.shortsIdea,
+  );
+  return lines.join('\n') + '\n';
+};
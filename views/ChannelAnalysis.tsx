@@ -1,11 +1,27 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { Search, TrendingUp, Users, Video, Award, Brain, Download, Copy, Target, History, Lightbulb, CheckSquare, Clock, BarChart, MessageCircle, ThumbsUp, Eye, Calendar, Info, ListFilter, BarChart2, FileText, Zap, ShieldAlert, DollarSign, Settings, Sparkles, Filter, ExternalLink } from 'lucide-react';
-import { YouTubeChannel, YouTubeVideo, AnalysisReport } from '../types';
-import { searchChannelByName, getChannelVideos } from '../services/youtubeService';
-import { analyzeChannelGrowth, summarizeVideo } from '../services/geminiService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, TrendingUp, Users, Video, Award, Brain, Download, Copy, Target, History, Lightbulb, CheckSquare, Clock, BarChart, MessageCircle, ThumbsUp, Eye, Calendar, Info, ListFilter, BarChart2, FileText, Zap, ShieldAlert, DollarSign, Settings, Sparkles, Filter, ExternalLink, AlertTriangle, RefreshCw, X, Loader2, ListOrdered } from 'lucide-react';
+import { YouTubeChannel, YouTubeVideo, AnalysisReport, ScoringPreset } from '../types';
+import { resolveChannel, estimateResolveCalls, getChannelVideos, ChannelVideosProgress } from '../services/youtubeService';
+import { analyzeChannelGrowth } from '../services/geminiService';
+import { confirmQuotaBudget, estimateQuotaCost } from '../services/quotaService';
+import { NotFoundError } from '../services/youtubeErrors';
+import { isAbortError } from '../services/requestExecutor';
+import { scoreVideos, getActiveScoring } from '../services/popularityScore';
+import { useAbortController } from '../hooks/useAbortController';
+import { useVideoSummaries } from '../hooks/useVideoSummaries';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import RetryIndicator from '../components/RetryIndicator';
+import DefaultedFieldsNotice from '../components/DefaultedFieldsNotice';
+import ThumbnailAnalysisSection from '../components/ThumbnailAnalysisSection';
+import ReportChatPanel from '../components/ReportChatPanel';
+import BulkSummaryBar from '../components/BulkSummaryBar';
+import TranscriptImportButton from '../components/TranscriptImportButton';
+import OutlineModal from '../components/OutlineModal';
+import EvidenceChips from '../components/EvidenceChips';
+import ScoringSettingsPanel from '../components/ScoringSettingsPanel';
 import { ViewsChart, EngagementChart, VideoFormatChart, PopularityScoreChart } from '../components/DashboardCharts';
-import { formatNumber, formatDate, downloadJSON, downloadCSV, formatDurationKR, parseDuration, downloadText, formatReportToText } from '../utils';
+import { formatNumber, formatDate, downloadJSON, downloadCSV, formatDurationKR, parseDuration, downloadText, formatReportToText, formatPromptVersions } from '../utils';
 
 interface Props {
   apiKey: string;
@@ -17,14 +33,35 @@ type ReportTab = 'overview' | 'growth' | 'diagnosis' | 'strategy';
 type ChartTab = 'popularity' | 'views' | 'likes' | 'comments' | 'timeline' | 'format';
 type SortOption = 'popularity' | 'views' | 'date_desc' | 'date_asc';
 type FilterOption = 'all' | 'video' | 'shorts';
+type FetchDepth = 50 | 200 | 500 | 'all';
 
-// Helper to calculate popularity score (0-100) based on relative performance
-const calculateVideoScore = (v: YouTubeVideo, maxViews: number, maxLikes: number, maxComments: number) => {
-    // Avoid division by zero
-    const viewScore = maxViews ? (v.viewCount / maxViews) * 50 : 0;
-    const likeScore = maxLikes ? (v.likeCount / maxLikes) * 30 : 0;
-    const commentScore = maxComments ? (v.commentCount / maxComments) * 20 : 0;
-    return Math.round(viewScore + likeScore + commentScore);
+// Report field each tab renders; the tab fills in once its field has streamed in
+const REPORT_TAB_SECTIONS: Record<ReportTab, keyof AnalysisReport> = {
+    overview: 'summary',
+    growth: 'growthProcess',
+    diagnosis: 'diagnosis',
+    strategy: 'benchmarking',
+};
+
+// Starter questions offered before the first follow-up
+const CHAT_SUGGESTIONS = [
+    '중기에 조회수가 떨어진 이유는 뭐야?',
+    '쇼츠용 제목 5개 더 추천해줘',
+    '가장 잘 된 영상 3개의 공통점은?',
+];
+
+// Chart tabs that can't mark individual videos; evidence selection switches away from them
+const CHARTS_WITHOUT_HIGHLIGHT: ChartTab[] = ['likes', 'comments', 'format'];
+
+const sortVideos = <T extends YouTubeVideo & { popularityScore: number }>(list: T[], sortOption: SortOption): T[] => {
+    const result = [...list];
+    switch (sortOption) {
+        case 'popularity': return result.sort((a, b) => b.popularityScore - a.popularityScore);
+        case 'views': return result.sort((a, b) => b.viewCount - a.viewCount);
+        case 'date_desc': return result.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+        case 'date_asc': return result.sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime());
+        default: return result;
+    }
 };
 
 const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComplete }) => {
@@ -34,10 +71,32 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
   const [videos, setVideos] = useState<YouTubeVideo[]>([]);
   const [report, setReport] = useState<AnalysisReport | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
+  const [completedSections, setCompletedSections] = useState<(keyof AnalysisReport)[]>([]);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  // Upload History Fetch State
+  const [fetchDepth, setFetchDepth] = useState<FetchDepth>(50);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [fetchProgress, setFetchProgress] = useState<ChannelVideosProgress | null>(null);
+  const [stopRequested, setStopRequested] = useState(false);
+  const [failedVideoCount, setFailedVideoCount] = useState(0);
+  const [fetchError, setFetchError] = useState<unknown>(null);
+  const [candidates, setCandidates] = useState<YouTubeChannel[]>([]);
+  const stopFetchRef = useRef(false);
+  const analysisTask = useAbortController();
   
   // Video Summaries State
-  const [videoSummaries, setVideoSummaries] = useState<Record<string, string>>({});
-  const [loadingSummaries, setLoadingSummaries] = useState<Record<string, boolean>>({});
+  const {
+    summaries: videoSummaries,
+    loading: loadingSummaries,
+    progress: summaryProgress,
+    summarize: handleSummarizeVideo,
+    summarizeAll,
+    forget: forgetSummary,
+    cancel: cancelSummaries,
+    reset: resetSummaries,
+  } = useVideoSummaries(videos);
+  const [outlineTarget, setOutlineTarget] = useState<{ title: string; reference?: YouTubeVideo } | null>(null);
 
   // UI States
   const [activeReportTab, setActiveReportTab] = useState<ReportTab>('overview');
@@ -45,6 +104,9 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
   const [sortOption, setSortOption] = useState<SortOption>('popularity');
   const [filterOption, setFilterOption] = useState<FilterOption>('all');
   const [displayCount, setDisplayCount] = useState<number>(50);
+  const [highlightedIds, setHighlightedIds] = useState<string[]>([]);
+  const [scoring, setScoring] = useState<ScoringPreset>(getActiveScoring);
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
 
   // Derived Metrics
   const channelMetrics = useMemo(() => {
@@ -70,18 +132,15 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
     };
   }, [videos]);
 
-  const processedVideos = useMemo(() => {
-    if (!videos.length) return [];
-    
-    const maxViews = Math.max(...videos.map(v => v.viewCount));
-    const maxLikes = Math.max(...videos.map(v => v.likeCount));
-    const maxComments = Math.max(...videos.map(v => v.commentCount));
+  // Shared by the video cards and the score chart
+  const popularityScores = useMemo(() => scoreVideos(videos, scoring), [videos, scoring]);
 
+  const processedVideos = useMemo(() => {
     return videos.map(v => ({
         ...v,
-        popularityScore: calculateVideoScore(v, maxViews, maxLikes, maxComments)
+        popularityScore: popularityScores[v.id]
     }));
-  }, [videos]);
+  }, [videos, popularityScores]);
 
   const sortedVideos = useMemo(() => {
       let result = [...processedVideos];
@@ -94,28 +153,18 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
       }
 
       // 2. Sort
-      switch (sortOption) {
-          case 'popularity': return result.sort((a, b) => b.popularityScore - a.popularityScore);
-          case 'views': return result.sort((a, b) => b.viewCount - a.viewCount);
-          case 'date_desc': return result.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
-          case 'date_asc': return result.sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime());
-          default: return result;
-      }
+      return sortVideos(result, sortOption);
   }, [processedVideos, sortOption, filterOption]);
 
   // Apply display count limit
   const displayVideos = sortedVideos.slice(0, displayCount);
 
-  const chartData = useMemo(() => {
-    return sortedVideos.map(v => ({
-        name: v.publishedAt.split('T')[0],
-        title: v.title,
-        score: v.popularityScore,
-        views: v.viewCount,
-        likes: v.likeCount,
-        comments: v.commentCount
-    }));
-  }, [sortedVideos]);
+  // Scrolls once the selected evidence video is rendered in the list
+  useEffect(() => {
+    if (!scrollTarget) return;
+    document.getElementById(`video-card-${scrollTarget}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setScrollTarget(null);
+  }, [scrollTarget, displayVideos]);
 
   useEffect(() => {
     if (initialQuery) {
@@ -129,54 +178,136 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
     if (e) e.preventDefault();
     const q = overrideQuery || query;
     if (!q.trim() || !apiKey) return;
+    if (!confirmQuotaBudget(estimateQuotaCost(estimateResolveCalls(q)))) return;
+
+    // A new query supersedes whatever analysis or summaries are still running
+    const controller = analysisTask.start();
+    resetSummaries();
+    setHighlightedIds([]);
 
     setLoading(true);
     setChannel(null);
     setVideos([]);
     setReport(null);
-    setVideoSummaries({});
+    setReportError(null);
     setActiveReportTab('overview');
+    setCandidates([]);
+    setFailedVideoCount(0);
+    setFetchError(null);
 
     try {
-      const chData = await searchChannelByName(apiKey, q);
-      if (chData) {
-        setChannel(chData);
-        const vData = await getChannelVideos(apiKey, chData.id, 50); // Ensure fetching up to 50
-        setVideos(vData);
-        
-        // Auto start AI analysis
-        setAnalyzing(true);
-        try {
-            const aiReport = await analyzeChannelGrowth(chData, vData);
-            setReport(aiReport);
-        } catch (err) {
-            console.error(err);
-        } finally {
-            setAnalyzing(false);
-        }
+      const resolution = await resolveChannel(apiKey, q, { forceRefresh, signal: controller.signal });
+      if (resolution.status === 'resolved') {
+        await analyzeChannel(resolution.channel, controller);
+      } else if (resolution.status === 'ambiguous') {
+        setCandidates(resolution.candidates);
       } else {
-        alert('채널을 찾을 수 없습니다.');
+        setFetchError(new NotFoundError(`'${q}'에 해당하는 채널이 없습니다.`, 404));
       }
     } catch (error) {
+      if (!analysisTask.isCurrent(controller)) return;
       console.error(error);
-      alert('채널을 찾을 수 없거나 API 한도가 초과되었습니다.');
+      setFetchError(error);
     } finally {
-      setLoading(false);
+      if (analysisTask.isCurrent(controller)) {
+        setFetchProgress(null);
+        setLoading(false);
+      }
     }
   };
 
-  const handleSummarizeVideo = async (video: YouTubeVideo) => {
-      if (videoSummaries[video.id] || loadingSummaries[video.id]) return;
-
-      setLoadingSummaries(prev => ({ ...prev, [video.id]: true }));
-      try {
-          const summary = await summarizeVideo(video);
-          setVideoSummaries(prev => ({ ...prev, [video.id]: summary }));
-      } catch (e) {
-          alert('요약 생성 실패');
-      } finally {
-          setLoadingSummaries(prev => ({ ...prev, [video.id]: false }));
+  const handleSelectCandidate = async (candidate: YouTubeChannel) => {
+    const controller = analysisTask.start();
+    setCandidates([]);
+    setLoading(true);
+    try {
+      await analyzeChannel(candidate, controller);
+    } catch (error) {
+      if (!analysisTask.isCurrent(controller)) return;
+      console.error(error);
+      setFetchError(error);
+    } finally {
+      if (analysisTask.isCurrent(controller)) {
+        setFetchProgress(null);
+        setLoading(false);
       }
+    }
+  };
+
+  // Sections streamed so far stay on screen, but the report is marked incomplete so it is not exported or followed up
+  const handleCancelAnalysis = () => {
+    analysisTask.abort();
+    setFetchProgress(null);
+    if (analyzing) setReportError('분석을 취소했습니다. 생성된 섹션까지만 표시되며, 내보내기와 후속 분석은 완성된 리포트에서만 할 수 있습니다.');
+    setAnalyzing(false);
+    setLoading(false);
+  };
+
+  // Loads the upload history of a resolved channel, then runs the AI report on it
+  const analyzeChannel = async (chData: YouTubeChannel, controller: AbortController) => {
+    const { signal } = controller;
+    // The listing cost depends on the channel's upload count, known only after lookup
+    const listingTotal = fetchDepth === 'all' ? chData.videoCount : Math.min(fetchDepth, chData.videoCount);
+    const pages = Math.max(1, Math.ceil(listingTotal / 50));
+    if (!confirmQuotaBudget(estimateQuotaCost({ channels: 1, playlistItems: pages, videos: pages }))) return;
+
+    stopFetchRef.current = false;
+    setStopRequested(false);
+    setChannel(chData);
+    setFetchProgress({ loaded: 0, total: listingTotal });
+    const { items: vData, failedIds } = await getChannelVideos(apiKey, chData.id, fetchDepth === 'all' ? Infinity : fetchDepth, {
+      forceRefresh,
+      signal,
+      onProgress: setFetchProgress,
+      shouldStop: () => stopFetchRef.current
+    });
+    setFetchProgress(null);
+    setVideos(vData);
+    setFailedVideoCount(failedIds.length);
+    
+    // Auto start AI analysis; sections render as they stream in and stay if the stream breaks
+    setAnalyzing(true);
+    setCompletedSections([]);
+    try {
+        const aiReport = await analyzeChannelGrowth(chData, vData, {
+            signal,
+            onPartial: (partial, done) => {
+                if (!analysisTask.isCurrent(controller)) return;
+                setReport(partial as AnalysisReport);
+                setCompletedSections(done);
+            }
+        });
+        setReport(aiReport);
+        setCompletedSections(Object.values(REPORT_TAB_SECTIONS));
+    } catch (err) {
+        if (!isAbortError(err) && analysisTask.isCurrent(controller)) {
+            console.error(err);
+            setReportError(err instanceof Error ? err.message : String(err));
+        }
+    } finally {
+        if (analysisTask.isCurrent(controller)) setAnalyzing(false);
+    }
+  };
+
+  // Stops paging after the current page; the videos loaded so far still go to the AI analysis
+  const handleStopFetch = () => {
+    stopFetchRef.current = true;
+    setStopRequested(true);
+  };
+
+  // Highlights the evidence videos of a report item in the chart and list, widening the list so they are shown
+  const handleSelectEvidence = (ids: string[]) => {
+    const allSorted = sortVideos(processedVideos, sortOption);
+    const positions = ids.map(id => allSorted.findIndex(v => v.id === id)).filter(i => i >= 0);
+    if (positions.length === 0) return;
+
+    if (ids.some(id => !displayVideos.some(v => v.id === id))) {
+      setFilterOption('all');
+      setDisplayCount(prev => Math.max(prev, Math.max(...positions) + 1));
+    }
+    if (CHARTS_WITHOUT_HIGHLIGHT.includes(activeChartTab)) setActiveChartTab('views');
+    setHighlightedIds(ids);
+    setScrollTarget(allSorted[Math.min(...positions)].id);
   };
 
   const handleCopyGrowth = () => {
@@ -191,9 +322,12 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
     downloadJSON(report.growthProcess, `${channel?.title}_growth_analysis`);
   };
 
+  // Exports, thumbnail analysis and chat only work on a report that finished streaming and passed validation
+  const reportComplete = !!report && !analyzing && !reportError;
+
   const handleDownloadFullText = () => {
       if (!report || !channel) return;
-      const textContent = formatReportToText(report, channel.title);
+      const textContent = formatReportToText(report, channel.title, videos, videoSummaries);
       downloadText(textContent, `${channel.title}_consulting_report`);
   };
 
@@ -274,6 +408,9 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
                                 </div>
                             </div>
                         </div>
+                        <div className="px-5 pb-4 -mt-2">
+                            <EvidenceChips ids={stage.data?.evidenceVideoIds} videos={videos} highlightedIds={highlightedIds} onSelect={handleSelectEvidence} />
+                        </div>
                     </div>
                 ))}
              </div>
@@ -302,6 +439,7 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
                       <p className="text-slate-300">{item.data?.solution}</p>
                     </div>
                   </div>
+                  <EvidenceChips ids={item.data?.evidenceVideoIds} videos={videos} highlightedIds={highlightedIds} onSelect={handleSelectEvidence} />
                </div>
              ))}
           </div>
@@ -328,6 +466,7 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
                         <p className="text-slate-300 text-sm leading-relaxed bg-slate-900/40 p-4 rounded-xl border border-slate-700/50">{report.benchmarking?.detailedOperation}</p>
                     </div>
                 </div>
+                <EvidenceChips ids={report.benchmarking?.evidenceVideoIds} videos={videos} highlightedIds={highlightedIds} onSelect={handleSelectEvidence} />
              </div>
 
              {/* 3-Month Roadmap */}
@@ -356,9 +495,16 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
                     </h4>
                     <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
                       {report.benchmarking?.titles?.map((title, i) => (
-                        <li key={i} className="flex gap-3 text-sm text-slate-300 items-start bg-slate-800/50 p-3 rounded-lg border border-slate-700/50 hover:border-yellow-500/30 transition-colors">
+                        <li key={i} className="group flex gap-3 text-sm text-slate-300 items-start bg-slate-800/50 p-3 rounded-lg border border-slate-700/50 hover:border-yellow-500/30 transition-colors">
                            <CheckSquare size={16} className="mt-0.5 text-yellow-600 shrink-0"/>
-                           <span>{title}</span>
+                           <span className="flex-1">{title}</span>
+                           <button
+                             onClick={() => setOutlineTarget({ title })}
+                             className="shrink-0 text-slate-500 hover:text-teal-400 transition-colors"
+                             title="기획안 만들기"
+                           >
+                             <ListOrdered size={16} />
+                           </button>
                         </li>
                       ))}
                     </ul>
@@ -412,13 +558,29 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
             <Search className="text-red-500" /> 채널 검색 및 심층 컨설팅
         </h2>
         <form onSubmit={handleSearch} className="flex gap-2">
+          <select
+            value={String(fetchDepth)}
+            onChange={(e) => setFetchDepth(e.target.value === 'all' ? 'all' : Number(e.target.value) as FetchDepth)}
+            disabled={loading}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-3 text-white focus:ring-2 focus:ring-red-500 outline-none disabled:opacity-50"
+            title="불러올 업로드 영상 수"
+          >
+            <option value="50">최근 50개</option>
+            <option value="200">최근 200개</option>
+            <option value="500">최근 500개</option>
+            <option value="all">전체 영상</option>
+          </select>
           <input 
             type="text" 
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            placeholder="채널명 입력 (예: 슈카월드)" 
+            placeholder="채널명, @핸들, 채널 또는 영상 URL 입력 (예: 슈카월드, @syukaworld)" 
             className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-red-500 outline-none"
           />
+          <label className="flex items-center gap-1.5 text-xs text-slate-400 whitespace-nowrap cursor-pointer select-none" title="저장된 응답을 무시하고 API에서 새로 가져옵니다">
+            <input type="checkbox" checked={forceRefresh} onChange={(e) => setForceRefresh(e.target.checked)} className="accent-red-500" />
+            <RefreshCw size={12} /> 새로고침
+          </label>
           <button 
             type="submit" 
             disabled={loading}
@@ -427,8 +589,68 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
             {loading ? '분석 중...' : '분석 시작'}
           </button>
         </form>
+
+        {fetchProgress && (
+          <div className="mt-4 bg-slate-900/50 p-4 rounded-xl border border-slate-700/50 animate-fade-in">
+            <div className="flex justify-between items-center mb-2 text-sm">
+              <span className="text-slate-300 flex items-center gap-2">
+                <div className="w-3 h-3 border-2 border-red-500 border-t-transparent rounded-full animate-spin"></div>
+                업로드 영상 불러오는 중... <span className="font-mono text-white">{fetchProgress.loaded.toLocaleString()} / {fetchProgress.total.toLocaleString()}</span>
+              </span>
+              <button
+                type="button"
+                onClick={handleStopFetch}
+                disabled={stopRequested}
+                className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-xs text-white transition-colors disabled:opacity-50"
+              >
+                {stopRequested ? '중단 중...' : '여기까지만 분석'}
+              </button>
+            </div>
+            <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-red-500 rounded-full transition-all"
+                style={{ width: `${fetchProgress.total ? Math.min(100, (fetchProgress.loaded / fetchProgress.total) * 100) : 0}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+
+        {failedVideoCount > 0 && (
+          <div className="mt-4 bg-yellow-900/20 border border-yellow-500/30 text-yellow-300 text-sm p-3 rounded-lg flex items-center gap-2">
+            <AlertTriangle size={16} className="shrink-0" />
+            영상 {failedVideoCount}개의 상세 정보를 불러오지 못해 분석에서 제외되었습니다.
+          </div>
+        )}
       </div>
 
+      <RetryIndicator />
+      {fetchError && <ApiErrorNotice error={fetchError} onDismiss={() => setFetchError(null)} />}
+
+      {/* Disambiguation Picker */}
+      {candidates.length > 0 && (
+        <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 shadow-lg animate-fade-in">
+          <h3 className="font-bold text-lg mb-1">어떤 채널을 분석할까요?</h3>
+          <p className="text-xs text-slate-400 mb-4">검색어와 정확히 일치하는 채널이 없어 상위 후보를 보여드립니다. @핸들이나 채널 URL을 입력하면 바로 분석됩니다.</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {candidates.map(candidate => (
+              <button
+                key={candidate.id}
+                onClick={() => handleSelectCandidate(candidate)}
+                className="flex items-center gap-3 text-left bg-slate-900/50 hover:bg-slate-900 border border-slate-700 hover:border-red-500/50 rounded-xl p-3 transition-colors"
+              >
+                <img src={candidate.thumbnail} alt="" className="w-12 h-12 rounded-full border-2 border-slate-700 shrink-0" />
+                <div className="min-w-0">
+                  <div className="font-bold text-white truncate">{candidate.title}</div>
+                  <div className="text-xs text-slate-400">
+                    구독자 {formatNumber(candidate.subscriberCount)} · 영상 {formatNumber(candidate.videoCount)}개 · {candidate.country || 'Global'}
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {channel && (
         <>
           {/* Dashboard Header - Channel Info */}
@@ -520,9 +742,9 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
                      {activeChartTab === 'format' && '쇼츠 vs 일반 영상 비율'}
                   </h3>
                   
-                  {activeChartTab === 'popularity' && <PopularityScoreChart popularityData={chartData} />}
-                  {activeChartTab === 'views' && <ViewsChart videos={videos} />}
-                  {activeChartTab === 'timeline' && <ViewsChart videos={videos} />}
+                  {activeChartTab === 'popularity' && <PopularityScoreChart videos={videos} scoring={scoring} scores={popularityScores} highlightedIds={highlightedIds} />}
+                  {activeChartTab === 'views' && <ViewsChart videos={videos} highlightedIds={highlightedIds} />}
+                  {activeChartTab === 'timeline' && <ViewsChart videos={videos} highlightedIds={highlightedIds} />}
                   {activeChartTab === 'likes' && <EngagementChart videos={videos} />}
                   {activeChartTab === 'comments' && <EngagementChart videos={videos} />}
                   {activeChartTab === 'format' && <VideoFormatChart videos={videos} />}
@@ -534,6 +756,11 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
               <div className="flex flex-col md:flex-row justify-between items-center gap-4 bg-slate-800 p-4 rounded-xl border border-slate-700">
                   <h3 className="font-bold text-lg flex items-center gap-2">
                       <Video size={20} className="text-red-500"/> 분석 영상 리스트 <span className="text-sm text-slate-500 font-normal">({displayVideos.length}개)</span>
+                      {highlightedIds.length > 0 && (
+                          <button onClick={() => setHighlightedIds([])} className="text-xs font-normal px-2 py-1 rounded-full bg-yellow-500/20 text-yellow-200 border border-yellow-500/40 hover:bg-yellow-500/30 flex items-center gap-1 transition-colors">
+                              근거 영상 {highlightedIds.length}개 강조 중 <X size={12} />
+                          </button>
+                      )}
                   </h3>
                   <div className="flex gap-2 items-center flex-wrap justify-end">
                       <div className="flex items-center bg-slate-900 border border-slate-600 rounded-lg p-1 mr-2">
@@ -553,7 +780,7 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
 
                       {/* New Display Count Controls */}
                       <div className="flex bg-slate-900 border border-slate-600 rounded-lg p-1 mr-2">
-                          {[10, 30, 50].map(num => (
+                          {[10, 30, 50, 100].map(num => (
                               <button
                                   key={num}
                                   onClick={() => setDisplayCount(num)}
@@ -574,15 +801,28 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
                           <option value="date_desc">📅 최신순</option>
                           <option value="date_asc">📅 오래된순</option>
                       </select>
-                      <button onClick={() => downloadCSV(processedVideos, `${channel.title}_analysis`)} className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded-lg text-sm flex items-center gap-2">
+                      <BulkSummaryBar
+                        pendingCount={displayVideos.filter(v => !videoSummaries[v.id]).length}
+                        progress={summaryProgress}
+                        onStart={() => summarizeAll(displayVideos)}
+                        onCancel={cancelSummaries}
+                      />
+                      <button onClick={() => downloadCSV(processedVideos.map(v => ({ ...v, aiSummary: videoSummaries[v.id] || '' })), `${channel.title}_analysis`)} className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded-lg text-sm flex items-center gap-2">
                           <Download size={14} /> CSV 저장
                       </button>
                   </div>
               </div>
+
+              <ScoringSettingsPanel scoring={scoring} onChange={setScoring} />
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
                   {displayVideos.map(video => (
-                      <div key={video.id} className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden hover:border-red-500/50 transition-all group shadow-md hover:shadow-xl flex flex-col">
+                      <div
+                        key={video.id}
+                        id={`video-card-${video.id}`}
+                        className={`bg-slate-800 rounded-xl border overflow-hidden transition-all group shadow-md hover:shadow-xl flex flex-col
+                          ${highlightedIds.includes(video.id) ? 'border-yellow-400 ring-2 ring-yellow-400/60' : 'border-slate-700 hover:border-red-500/50'}`}
+                      >
                           <div className="relative">
                               <img src={video.thumbnail} alt={video.title} className="w-full h-40 object-cover" />
                               <div className="absolute top-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded flex items-center gap-1 backdrop-blur-sm">
@@ -634,6 +874,12 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
                               </div>
                               
                               <div className="mt-auto">
+                                  <div className="mb-2">
+                                      <TranscriptImportButton
+                                        videoId={video.id}
+                                        onChange={(transcript) => transcript ? handleSummarizeVideo(video, true) : forgetSummary(video.id)}
+                                      />
+                                  </div>
                                   {videoSummaries[video.id] ? (
                                       <div className="text-xs text-slate-300 bg-slate-700/50 p-3 rounded-lg border border-slate-600 animate-fade-in whitespace-pre-wrap">
                                           <div className="font-bold text-purple-300 mb-1 flex items-center gap-1"><Sparkles size={10}/> AI 분석 요약</div>
@@ -657,6 +903,12 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
                                           )}
                                       </button>
                                   )}
+                                  <button
+                                    onClick={() => setOutlineTarget({ title: video.title, reference: video })}
+                                    className="w-full mt-2 text-xs py-2 bg-slate-700/50 hover:bg-slate-600 rounded-lg text-teal-300 flex items-center justify-center gap-1 transition-colors"
+                                  >
+                                      <ListOrdered size={12} /> 기획안 만들기
+                                  </button>
                               </div>
                           </div>
                       </div>
@@ -671,16 +923,16 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
                      <h3 className="text-xl font-bold flex items-center gap-2 text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-400">
                         <Brain className="text-blue-400" /> TubeMaster AI 컨설팅 리포트
                     </h3>
-                    <p className="text-xs text-slate-400 mt-1">AI가 데이터를 분석하여 성공 전략을 제안합니다.</p>
+                    <p className="text-xs text-slate-400 mt-1">AI가 데이터를 분석하여 성공 전략을 제안합니다.{report?.model && ` · 생성 모델: ${report.model}`}{report?.promptVersions && ` · 프롬프트: ${formatPromptVersions(report.promptVersions)}`}</p>
                  </div>
                 <div className="flex gap-2">
-                    <button onClick={() => {if(report) {navigator.clipboard.writeText(JSON.stringify(report,null,2)); alert('리포트 전체가 복사되었습니다.')}}} disabled={!report} className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors flex items-center gap-2 disabled:opacity-50">
+                    <button onClick={() => {if(report) {navigator.clipboard.writeText(JSON.stringify(report,null,2)); alert('리포트 전체가 복사되었습니다.')}}} disabled={!reportComplete} className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors flex items-center gap-2 disabled:opacity-50">
                         <Copy size={14} /> 전체 복사
                     </button>
-                    <button onClick={handleDownloadFullText} disabled={!report} className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors flex items-center gap-2 disabled:opacity-50">
+                    <button onClick={handleDownloadFullText} disabled={!reportComplete} className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors flex items-center gap-2 disabled:opacity-50">
                         <FileText size={14} /> TXT 다운로드
                     </button>
-                    <button onClick={() => downloadJSON(report, `report_${channel.title}`)} disabled={!report} className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors flex items-center gap-2 disabled:opacity-50">
+                    <button onClick={() => downloadJSON(report, `report_${channel.title}`)} disabled={!reportComplete} className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors flex items-center gap-2 disabled:opacity-50">
                         <Download size={14} /> JSON 다운로드
                     </button>
                 </div>
@@ -698,21 +950,56 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
                       {tab === 'growth' && '성장 과정 분석'}
                       {tab === 'diagnosis' && '채널 진단 & 솔루션'}
                       {tab === 'strategy' && 'AI 경쟁 전략 (로드맵)'}
+                      {analyzing && !completedSections.includes(REPORT_TAB_SECTIONS[tab as ReportTab]) && (
+                          <Loader2 size={12} className="inline ml-2 animate-spin text-slate-500" />
+                      )}
                     </button>
                 ))}
             </div>
 
             <div className="p-6 flex-1 bg-slate-800">
-                {analyzing ? (
+                {reportError && (
+                    <div className="mb-4 bg-red-500/10 border border-red-500/30 rounded-lg px-4 py-3 text-sm text-red-300 flex items-center gap-2">
+                        <AlertTriangle size={16} className="shrink-0" /> {reportError}
+                    </div>
+                )}
+                {analyzing && report && (
+                    <div className="mb-4 bg-blue-500/10 border border-blue-500/30 rounded-lg px-4 py-3 text-sm text-blue-300 flex items-center justify-between gap-4">
+                        <span className="flex items-center gap-2">
+                            <Loader2 size={16} className="animate-spin" /> AI가 리포트를 작성하고 있습니다... ({completedSections.length}/4 섹션 완료)
+                        </span>
+                        <button onClick={handleCancelAnalysis} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-white flex items-center gap-1 transition-colors">
+                            <X size={12} /> 분석 취소
+                        </button>
+                    </div>
+                )}
+                {analyzing && !report ? (
                     <div className="flex flex-col items-center justify-center py-20 space-y-4">
                         <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                         <div className="text-center">
                             <h4 className="text-lg font-bold text-white mb-1">AI가 채널을 심층 분석 중입니다...</h4>
                             <p className="text-slate-400 text-sm">영상 {videos.length}개의 데이터를 기반으로 전략을 수립하고 있습니다.</p>
                         </div>
+                        <button onClick={handleCancelAnalysis} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-white flex items-center gap-2 transition-colors">
+                            <X size={14} /> 분석 취소
+                        </button>
+                    </div>
+                ) : report && report[REPORT_TAB_SECTIONS[activeReportTab]] === undefined ? (
+                    <div className="text-center text-slate-500 py-20">
+                        {analyzing ? (
+                            <>
+                                <Loader2 size={32} className="mx-auto mb-4 animate-spin opacity-40" />
+                                <p>이 섹션을 생성하고 있습니다...</p>
+                            </>
+                        ) : (
+                            <p>이 섹션은 생성되지 않았습니다.</p>
+                        )}
                     </div>
                 ) : report ? (
-                    renderReportContent()
+                    <>
+                        <DefaultedFieldsNotice fields={report.defaultedFields} prefix={REPORT_TAB_SECTIONS[activeReportTab]} />
+                        {renderReportContent()}
+                    </>
                 ) : (
                     <div className="text-center text-slate-500 py-20">
                         <Brain size={48} className="mx-auto mb-4 opacity-20" />
@@ -721,8 +1008,37 @@ const ChannelAnalysis: React.FC<Props> = ({ apiKey, initialQuery, onSearchComple
                 )}
             </div>
           </div>
+
+          {reportComplete && (
+            <ThumbnailAnalysisSection
+              subject={channel.title}
+              videos={videos}
+              result={report.thumbnails}
+              onResult={(thumbnails) => setReport(prev => prev && { ...prev, thumbnails })}
+            />
+          )}
+
+          {reportComplete && (
+            <ReportChatPanel
+              subject={channel.title}
+              report={report}
+              videos={videos}
+              suggestions={CHAT_SUGGESTIONS}
+              exportFormats="JSON·TXT"
+              onChange={(chat) => setReport(prev => prev && { ...prev, chat })}
+            />
+          )}
         </>
       )}
+
+      {outlineTarget && (
+        <OutlineModal
+          title={outlineTarget.title}
+          reference={outlineTarget.reference}
+          benchmarkVideos={videos}
+          onClose={() => setOutlineTarget(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,442 @@
+import React, { useState, useMemo } from 'react';
+import { Swords, Plus, X, RefreshCw, Users, Eye, Clock, Smartphone, Heart, Brain, Trophy, FileText, Download, Loader2, AlertTriangle, ExternalLink, CheckSquare } from 'lucide-react';
+import { YouTubeChannel, ComparisonReport, ChannelComparisonMetrics } from '../types';
+import { resolveChannel, estimateResolveCalls, getChannelVideos, ChannelVideosProgress } from '../services/youtubeService';
+import { compareChannels, ComparedChannel } from '../services/geminiService';
+import { computeChannelMetrics } from '../services/marketMetrics';
+import { confirmQuotaBudget, estimateQuotaCost } from '../services/quotaService';
+import { NotFoundError } from '../services/youtubeErrors';
+import { isAbortError } from '../services/requestExecutor';
+import { useAbortController } from '../hooks/useAbortController';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import RetryIndicator from '../components/RetryIndicator';
+import DefaultedFieldsNotice from '../components/DefaultedFieldsNotice';
+import { ComparisonViewsChart, ComparisonRankChart } from '../components/DashboardCharts';
+import { formatNumber, downloadJSON, downloadText, formatComparisonReportToText, formatPromptVersions } from '../utils';
+
+interface Props {
+  apiKey: string;
+}
+
+type CompareDepth = 50 | 200;
+type ChartTab = 'views' | 'rank';
+
+const MIN_CHANNELS = 2;
+const MAX_CHANNELS = 4;
+
+// Line and badge color per slot; the first slot is the user's own channel
+const CHANNEL_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308'];
+
+// Metric cards in display order. better marks which end wins; the shorts ratio is a format choice, not a score.
+const METRIC_CARDS: {
+  key: keyof ChannelComparisonMetrics;
+  label: string;
+  icon: React.ReactNode;
+  format: (value: number) => string;
+  better?: 'higher' | 'lower';
+}[] = [
+  { key: 'subscriberCount', label: '구독자', icon: <Users size={16} />, format: formatNumber, better: 'higher' },
+  { key: 'avgViews', label: '영상당 평균 조회수', icon: <Eye size={16} />, format: (v) => formatNumber(Math.round(v)), better: 'higher' },
+  { key: 'uploadIntervalDays', label: '업로드 주기', icon: <Clock size={16} />, format: (v) => v > 0 ? `${v.toFixed(1)}일` : '-', better: 'lower' },
+  { key: 'shortsRatio', label: '쇼츠 비율', icon: <Smartphone size={16} />, format: (v) => `${(v * 100).toFixed(0)}%` },
+  { key: 'engagementRate', label: '참여율', icon: <Heart size={16} />, format: (v) => `${(v * 100).toFixed(2)}%`, better: 'higher' },
+];
+
+// Index of the winning channel for a metric, or -1 when the metric has no better end.
+// An upload interval of 0 means fewer than two videos were loaded and is never the best.
+const findBestIndex = (values: number[], better?: 'higher' | 'lower'): number => {
+  if (!better) return -1;
+  let best = -1;
+  values.forEach((value, i) => {
+    if (better === 'lower' && value <= 0) return;
+    if (best < 0 || (better === 'higher' ? value > values[best] : value < values[best])) best = i;
+  });
+  return best;
+};
+
+const ChannelCompare: React.FC<Props> = ({ apiKey }) => {
+  const [queries, setQueries] = useState<string[]>(['', '']);
+  const [fetchDepth, setFetchDepth] = useState<CompareDepth>(50);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [entries, setEntries] = useState<ComparedChannel[]>([]);
+  const [fetchProgress, setFetchProgress] = useState<{ index: number; progress: ChannelVideosProgress } | null>(null);
+  const [fetchError, setFetchError] = useState<unknown>(null);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [report, setReport] = useState<ComparisonReport | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [activeChartTab, setActiveChartTab] = useState<ChartTab>('views');
+  const compareTask = useAbortController();
+
+  const metrics = useMemo(() => entries.map(e => computeChannelMetrics(e.channel, e.videos)), [entries]);
+  const series = useMemo(() => entries.map((e, i) => ({ name: e.channel.title, color: CHANNEL_COLORS[i], videos: e.videos })), [entries]);
+  const colorOf = (title: string) => CHANNEL_COLORS[entries.findIndex(e => e.channel.title === title)] || '#94a3b8';
+
+  const updateQuery = (index: number, value: string) => {
+    setQueries(prev => prev.map((q, i) => i === index ? value : q));
+  };
+
+  const handleCompare = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    const inputs = queries.map(q => q.trim()).filter(Boolean);
+    if (!apiKey) return;
+    if (inputs.length < MIN_CHANNELS) {
+      setInputError(`비교할 채널을 ${MIN_CHANNELS}개 이상 입력해주세요.`);
+      return;
+    }
+
+    // Upper bound: resolving every input plus a full listing at the chosen depth for each channel
+    const pages = Math.ceil(fetchDepth / 50);
+    const estimate = inputs.reduce((acc, q) => acc + estimateQuotaCost(estimateResolveCalls(q)), 0)
+      + inputs.length * estimateQuotaCost({ playlistItems: pages, videos: pages });
+    if (!confirmQuotaBudget(estimate)) return;
+
+    const controller = compareTask.start();
+    const { signal } = controller;
+    setLoading(true);
+    setEntries([]);
+    setReport(null);
+    setReportError(null);
+    setInputError(null);
+    setFetchError(null);
+
+    try {
+      // Resolve every input first so a typo fails before any upload history is paged
+      const channels: YouTubeChannel[] = [];
+      for (const q of inputs) {
+        const resolution = await resolveChannel(apiKey, q, { forceRefresh, signal });
+        if (resolution.status === 'notFound') {
+          setFetchError(new NotFoundError(`'${q}'에 해당하는 채널이 없습니다.`, 404));
+          return;
+        }
+        if (resolution.status === 'ambiguous') {
+          const names = resolution.candidates.slice(0, 3).map(c => c.title).join(', ');
+          setInputError(`'${q}'에 해당하는 채널이 여러 개입니다 (${names} 등). @핸들이나 채널 URL로 입력해주세요.`);
+          return;
+        }
+        if (channels.some(c => c.id === resolution.channel.id)) {
+          setInputError(`'${resolution.channel.title}' 채널이 중복으로 입력되었습니다.`);
+          return;
+        }
+        channels.push(resolution.channel);
+      }
+
+      const loaded: ComparedChannel[] = [];
+      for (const [index, channel] of channels.entries()) {
+        setFetchProgress({ index, progress: { loaded: 0, total: Math.min(fetchDepth, channel.videoCount) } });
+        const { items } = await getChannelVideos(apiKey, channel.id, fetchDepth, {
+          forceRefresh,
+          signal,
+          onProgress: (progress) => setFetchProgress({ index, progress })
+        });
+        loaded.push({ channel, videos: items });
+      }
+      setFetchProgress(null);
+      setEntries(loaded);
+      setLoading(false);
+
+      setAnalyzing(true);
+      try {
+        setReport(await compareChannels(loaded, { signal }));
+      } catch (err) {
+        if (!isAbortError(err) && compareTask.isCurrent(controller)) {
+          console.error(err);
+          setReportError(err instanceof Error ? err.message : String(err));
+        }
+      } finally {
+        if (compareTask.isCurrent(controller)) setAnalyzing(false);
+      }
+    } catch (error) {
+      if (!compareTask.isCurrent(controller)) return;
+      console.error(error);
+      setFetchError(error);
+    } finally {
+      if (compareTask.isCurrent(controller)) {
+        setFetchProgress(null);
+        setLoading(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    compareTask.abort();
+    setFetchProgress(null);
+    setAnalyzing(false);
+    setLoading(false);
+  };
+
+  const exportName = entries.map(e => e.channel.title).join('_vs_');
+
+  const handleDownloadText = () => {
+    if (!report) return;
+    downloadText(formatComparisonReportToText(report, entries.map(e => e.channel), metrics), `${exportName}_comparison_report`);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Channel Inputs */}
+      <div className="bg-slate-800 p-6 rounded-2xl shadow-lg border border-slate-700">
+        <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+          <Swords className="text-orange-500" /> 채널 비교 분석
+        </h2>
+        <p className="text-xs text-slate-400 mb-4">첫 번째 채널을 우리 채널로 보고, 경쟁 채널 대비 어디서 앞서고 어디서 밀리는지 비교합니다. (최대 {MAX_CHANNELS}개)</p>
+        <form onSubmit={handleCompare} className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {queries.map((q, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: CHANNEL_COLORS[index] }} />
+                <input
+                  type="text"
+                  value={q}
+                  onChange={(e) => updateQuery(index, e.target.value)}
+                  placeholder={index === 0 ? '우리 채널 (@핸들 또는 채널 URL)' : `경쟁 채널 ${index}`}
+                  className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-orange-500 outline-none"
+                />
+                {queries.length > MIN_CHANNELS && (
+                  <button type="button" onClick={() => setQueries(prev => prev.filter((_, i) => i !== index))} className="text-slate-500 hover:text-red-400" title="채널 제거">
+                    <X size={16} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 flex-wrap">
+            {queries.length < MAX_CHANNELS && (
+              <button type="button" onClick={() => setQueries(prev => [...prev, ''])} className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-slate-300 flex items-center gap-1 transition-colors">
+                <Plus size={14} /> 채널 추가
+              </button>
+            )}
+            <select
+              value={String(fetchDepth)}
+              onChange={(e) => setFetchDepth(Number(e.target.value) as CompareDepth)}
+              disabled={loading}
+              className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-orange-500 outline-none disabled:opacity-50"
+              title="채널마다 불러올 업로드 영상 수"
+            >
+              <option value="50">채널별 최근 50개</option>
+              <option value="200">채널별 최근 200개</option>
+            </select>
+            <label className="flex items-center gap-1.5 text-xs text-slate-400 whitespace-nowrap cursor-pointer select-none" title="저장된 응답을 무시하고 API에서 새로 가져옵니다">
+              <input type="checkbox" checked={forceRefresh} onChange={(e) => setForceRefresh(e.target.checked)} className="accent-orange-500" />
+              <RefreshCw size={12} /> 새로고침
+            </label>
+            <button
+              type="submit"
+              disabled={loading}
+              className="ml-auto bg-orange-600 hover:bg-orange-700 text-white px-6 py-2.5 rounded-lg font-bold transition-colors disabled:opacity-50"
+            >
+              {loading ? '불러오는 중...' : '비교 시작'}
+            </button>
+          </div>
+        </form>
+
+        {fetchProgress && (
+          <div className="mt-4 bg-slate-900/50 p-4 rounded-xl border border-slate-700/50 animate-fade-in">
+            <div className="flex justify-between items-center mb-2 text-sm">
+              <span className="text-slate-300 flex items-center gap-2">
+                <Loader2 size={14} className="animate-spin text-orange-500" />
+                채널 {fetchProgress.index + 1}/{queries.filter(q => q.trim()).length} 영상 불러오는 중... <span className="font-mono text-white">{fetchProgress.progress.loaded.toLocaleString()} / {fetchProgress.progress.total.toLocaleString()}</span>
+              </span>
+              <button type="button" onClick={handleCancel} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-xs text-white transition-colors">
+                취소
+              </button>
+            </div>
+            <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-orange-500 rounded-full transition-all"
+                style={{ width: `${fetchProgress.progress.total ? Math.min(100, (fetchProgress.progress.loaded / fetchProgress.progress.total) * 100) : 0}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+
+        {inputError && (
+          <div className="mt-4 bg-yellow-900/20 border border-yellow-500/30 text-yellow-300 text-sm p-3 rounded-lg flex items-center gap-2">
+            <AlertTriangle size={16} className="shrink-0" /> {inputError}
+          </div>
+        )}
+      </div>
+
+      <RetryIndicator />
+      {fetchError && <ApiErrorNotice error={fetchError} onDismiss={() => setFetchError(null)} />}
+
+      {entries.length > 0 && (
+        <>
+          {/* Channel Headers */}
+          <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${entries.length}, minmax(0, 1fr))` }}>
+            {entries.map(({ channel }, index) => (
+              <a
+                key={channel.id}
+                href={`https://www.youtube.com/channel/${channel.id}`}
+                target="_blank"
+                rel="noreferrer"
+                className="bg-slate-800 rounded-2xl border-t-4 border-x border-b border-slate-700 p-4 flex items-center gap-3 hover:bg-slate-700/50 transition-colors min-w-0"
+                style={{ borderTopColor: CHANNEL_COLORS[index] }}
+              >
+                <img src={channel.thumbnail} alt={channel.title} className="w-12 h-12 rounded-full border-2 border-slate-700 shrink-0" />
+                <div className="min-w-0">
+                  <div className="font-bold text-white truncate flex items-center gap-1">{channel.title} <ExternalLink size={12} className="text-slate-500 shrink-0" /></div>
+                  <div className="text-xs text-slate-400">{index === 0 ? '우리 채널' : `경쟁 채널 ${index}`} · 영상 {metrics[index].videoCount}개 분석</div>
+                </div>
+              </a>
+            ))}
+          </div>
+
+          {/* Aligned Metric Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            {METRIC_CARDS.map(card => {
+              const values = metrics.map(m => m[card.key]);
+              const best = findBestIndex(values, card.better);
+              const max = Math.max(...values, 0);
+              return (
+                <div key={card.key} className="bg-slate-800 rounded-2xl border border-slate-700 p-4">
+                  <div className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-3 flex items-center gap-2">
+                    {card.icon} {card.label}
+                  </div>
+                  <div className="space-y-3">
+                    {entries.map(({ channel }, index) => (
+                      <div key={channel.id}>
+                        <div className="flex justify-between items-center text-sm mb-1">
+                          <span className="text-slate-300 truncate mr-2">{channel.title}</span>
+                          <span className={`font-mono font-bold flex items-center gap-1 ${index === best ? 'text-yellow-300' : 'text-white'}`}>
+                            {index === best && <Trophy size={12} />} {card.format(values[index])}
+                          </span>
+                        </div>
+                        <div className="w-full h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                          <div className="h-full rounded-full" style={{ width: `${max > 0 ? (values[index] / max) * 100 : 0}%`, backgroundColor: CHANNEL_COLORS[index] }} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Overlaid Charts */}
+          <div className="bg-slate-800 rounded-2xl border border-slate-700 overflow-hidden shadow-lg">
+            <div className="flex border-b border-slate-700 bg-slate-900/50 overflow-x-auto">
+              {[
+                { id: 'views', label: '조회수 추이' },
+                { id: 'rank', label: '조회수 순위 곡선' },
+              ].map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveChartTab(tab.id as ChartTab)}
+                  className={`px-6 py-4 text-sm font-bold border-b-2 transition-all whitespace-nowrap
+                    ${activeChartTab === tab.id ? 'text-orange-400 border-current bg-slate-800' : 'text-slate-500 border-transparent hover:text-slate-300'}`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+            <div className="p-6 min-h-[350px]">
+              <h3 className="text-lg font-bold text-white mb-1">
+                {activeChartTab === 'views' ? '업로드 날짜별 조회수 (로그 스케일)' : '채널별 영상 조회수 순위 (로그 스케일)'}
+              </h3>
+              <p className="text-xs text-slate-400 mb-6">
+                {activeChartTab === 'views' ? '채널 규모 차이가 커도 추세를 함께 볼 수 있도록 로그 스케일로 표시합니다.' : '곡선이 가파를수록 소수의 히트 영상에 조회수가 몰려 있습니다.'}
+              </p>
+              {activeChartTab === 'views' ? <ComparisonViewsChart series={series} /> : <ComparisonRankChart series={series} />}
+            </div>
+          </div>
+
+          {/* AI Comparative Verdict */}
+          <div className="bg-slate-800 rounded-2xl border border-slate-700 relative overflow-hidden shadow-xl">
+            <div className="p-6 border-b border-slate-700 flex flex-col md:flex-row justify-between items-start md:items-center gap-4 bg-slate-900/50">
+              <div>
+                <h3 className="text-xl font-bold flex items-center gap-2 text-transparent bg-clip-text bg-gradient-to-r from-orange-400 to-red-400">
+                  <Brain className="text-orange-400" /> AI 비교 판정
+                </h3>
+                <p className="text-xs text-slate-400 mt-1">지표와 상위 영상을 바탕으로 채널별 우위를 판정합니다.{report?.model && ` · 생성 모델: ${report.model}`}{report?.promptVersions && ` · 프롬프트: ${formatPromptVersions(report.promptVersions)}`}</p>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={handleDownloadText} disabled={!report || analyzing} className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors flex items-center gap-2 disabled:opacity-50">
+                  <FileText size={14} /> TXT 다운로드
+                </button>
+                <button onClick={() => downloadJSON({ channels: entries.map((e, i) => ({ ...e.channel, metrics: metrics[i] })), report }, `comparison_${exportName}`)} disabled={!report || analyzing} className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors flex items-center gap-2 disabled:opacity-50">
+                  <Download size={14} /> JSON 다운로드
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6">
+              {reportError && (
+                <div className="mb-4 bg-red-500/10 border border-red-500/30 rounded-lg px-4 py-3 text-sm text-red-300 flex items-center gap-2">
+                  <AlertTriangle size={16} className="shrink-0" /> {reportError}
+                </div>
+              )}
+              {analyzing ? (
+                <div className="flex flex-col items-center justify-center py-16 space-y-4">
+                  <div className="w-16 h-16 border-4 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+                  <p className="text-slate-400 text-sm">AI가 {entries.length}개 채널을 비교하고 있습니다...</p>
+                  <button onClick={handleCancel} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-white flex items-center gap-2 transition-colors">
+                    <X size={14} /> 분석 취소
+                  </button>
+                </div>
+              ) : report ? (
+                <div className="space-y-6 animate-fade-in">
+                  <DefaultedFieldsNotice fields={report.defaultedFields} />
+                  <div className="bg-slate-900/50 p-6 rounded-xl border border-slate-700/50">
+                    <h4 className="font-bold text-orange-300 mb-3 text-lg">📋 종합 판정</h4>
+                    <p className="text-slate-300 leading-relaxed">{report.summary}</p>
+                  </div>
+
+                  <div>
+                    <h4 className="font-bold text-white mb-3">항목별 우위</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {(report.categories || []).map((c, i) => (
+                        <div key={i} className="bg-slate-900/50 p-4 rounded-xl border-l-4" style={{ borderLeftColor: colorOf(c.winner) }}>
+                          <div className="flex justify-between items-center gap-2 mb-2">
+                            <span className="font-bold text-slate-200">{c.category}</span>
+                            <span className="text-xs font-bold px-2 py-0.5 rounded-full text-white flex items-center gap-1" style={{ backgroundColor: colorOf(c.winner) }}>
+                              <Trophy size={10} /> {c.winner}
+                            </span>
+                          </div>
+                          <p className="text-sm text-slate-400">{c.reason}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${Math.min(report.channels?.length || 1, 2)}, minmax(0, 1fr))` }}>
+                    {(report.channels || []).map((c, i) => (
+                      <div key={i} className="bg-slate-900/50 p-5 rounded-xl border-t-4 border-x border-b border-slate-700/50" style={{ borderTopColor: colorOf(c.channel) }}>
+                        <h5 className="font-bold text-white mb-3">{c.channel}</h5>
+                        <div className="text-xs font-bold text-green-400 mb-1">강점</div>
+                        <ul className="space-y-1 mb-3">
+                          {(c.wins || []).map((w, j) => <li key={j} className="text-sm text-slate-300">+ {w}</li>)}
+                        </ul>
+                        <div className="text-xs font-bold text-red-400 mb-1">약점</div>
+                        <ul className="space-y-1">
+                          {(c.gaps || []).map((g, j) => <li key={j} className="text-sm text-slate-300">- {g}</li>)}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="bg-slate-900/50 p-6 rounded-xl border border-slate-700/50">
+                    <h4 className="font-bold text-green-400 mb-3 flex items-center gap-2"><CheckSquare size={18} /> 우리 채널 실행 계획</h4>
+                    <ul className="space-y-2">
+                      {(report.actionPlan || []).map((p, i) => (
+                        <li key={i} className="text-slate-300 text-sm flex gap-2"><span className="text-green-500 font-bold">{i + 1}.</span> {p}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              ) : !reportError && (
+                <div className="text-center text-slate-500 py-16">
+                  <Brain size={48} className="mx-auto mb-4 opacity-20" />
+                  <p>비교가 취소되었습니다. 다시 비교하려면 비교 시작을 눌러주세요.</p>
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChannelCompare;
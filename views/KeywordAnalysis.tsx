@@ -1,26 +1,39 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Search, Globe, Filter, Video, Zap, FileText, Download, Eye, ThumbsUp, MessageCircle, Calendar, Grid, List, BarChart2, ExternalLink, Brain, Sparkles } from 'lucide-react';
-import { YouTubeVideo, RegionCode, AnalysisReport, YouTubeCategory, VideoTypeFilter } from '../types';
+import { Search, Globe, Filter, Video, Zap, FileText, Download, Eye, ThumbsUp, MessageCircle, Calendar, Grid, List, BarChart2, ExternalLink, Brain, Sparkles, AlertTriangle, RefreshCw, X, ListOrdered } from 'lucide-react';
+import { YouTubeVideo, RegionCode, AnalysisReport, YouTubeCategory, VideoTypeFilter, ScoringPreset } from '../types';
 import { searchVideosByKeyword, getVideoCategories } from '../services/youtubeService';
-import { analyzeKeywordMarket, summarizeVideo } from '../services/geminiService';
-import { formatNumber, formatDate, parseDuration, downloadCSV, downloadText, formatKeywordReportToText } from '../utils';
+import { analyzeKeywordMarket } from '../services/geminiService';
+import { confirmQuotaBudget, estimateQuotaCost } from '../services/quotaService';
+import { isAbortError } from '../services/requestExecutor';
+import { scoreVideos, getActiveScoring } from '../services/popularityScore';
+import { useAbortController } from '../hooks/useAbortController';
+import { useVideoSummaries } from '../hooks/useVideoSummaries';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import RetryIndicator from '../components/RetryIndicator';
+import DefaultedFieldsNotice from '../components/DefaultedFieldsNotice';
+import ThumbnailAnalysisSection from '../components/ThumbnailAnalysisSection';
+import ReportChatPanel from '../components/ReportChatPanel';
+import BulkSummaryBar from '../components/BulkSummaryBar';
+import TranscriptImportButton from '../components/TranscriptImportButton';
+import OutlineModal from '../components/OutlineModal';
+import ScoringSettingsPanel from '../components/ScoringSettingsPanel';
+import { formatNumber, formatDate, parseDuration, downloadCSV, downloadText, formatKeywordReportToText, formatPromptVersions } from '../utils';
 
 interface Props {
   apiKey: string;
-  onAnalyzeChannel: (channelName: string) => void;
+  onAnalyzeChannel: (channelId: string) => void;
 }
 
 type SortOption = 'popularity' | 'views' | 'date';
 type DisplayCount = 10 | 20 | 50;
 
-// Helper to calculate popularity score (0-100)
-const calculateVideoScore = (v: YouTubeVideo, maxViews: number, maxLikes: number, maxComments: number) => {
-    const viewScore = maxViews ? (v.viewCount / maxViews) * 50 : 0;
-    const likeScore = maxLikes ? (v.likeCount / maxLikes) * 30 : 0;
-    const commentScore = maxComments ? (v.commentCount / maxComments) * 20 : 0;
-    return Math.round(viewScore + likeScore + commentScore);
-};
+// Starter questions offered before the first follow-up
+const CHAT_SUGGESTIONS = [
+    '조회수 상위 영상들의 공통 패턴은?',
+    '이 키워드로 쇼츠 제목 5개 추천해줘',
+    '신규 채널이 가장 먼저 공략할 틈새는?',
+];
 
 const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
   const [keyword, setKeyword] = useState('');
@@ -32,80 +45,99 @@ const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
   const [videoType, setVideoType] = useState<VideoTypeFilter>('all');
   const [sortOption, setSortOption] = useState<SortOption>('views');
   const [displayCount, setDisplayCount] = useState<DisplayCount>(50);
+  const [scoring, setScoring] = useState<ScoringPreset>(getActiveScoring);
+  const [forceRefresh, setForceRefresh] = useState(false);
 
   const [loading, setLoading] = useState(false);
   const [videos, setVideos] = useState<YouTubeVideo[]>([]);
   const [report, setReport] = useState<AnalysisReport | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
+  const [failedVideoCount, setFailedVideoCount] = useState(0);
+  const [fetchError, setFetchError] = useState<unknown>(null);
 
   // Video Summaries
-  const [videoSummaries, setVideoSummaries] = useState<Record<string, string>>({});
-  const [loadingSummaries, setLoadingSummaries] = useState<Record<string, boolean>>({});
+  const {
+    summaries: videoSummaries,
+    loading: loadingSummaries,
+    progress: summaryProgress,
+    summarize: handleSummarizeVideo,
+    summarizeAll,
+    forget: forgetSummary,
+    cancel: cancelSummaries,
+    reset: resetSummaries,
+  } = useVideoSummaries(videos);
+  const [outlineVideo, setOutlineVideo] = useState<YouTubeVideo | null>(null);
+
+  const searchTask = useAbortController();
 
   // Fetch Categories on mount or region change
   useEffect(() => {
+      const controller = new AbortController();
       const fetchCategories = async () => {
           if (!apiKey) return;
           try {
-              const cats = await getVideoCategories(apiKey, region === 'Global' ? 'US' : region);
+              const cats = await getVideoCategories(apiKey, region === 'Global' ? 'US' : region, { signal: controller.signal });
               setCategories(cats);
           } catch (e) {
+              if (isAbortError(e)) return;
               console.error("Failed to fetch categories", e);
+              setFetchError(e);
           }
       };
       fetchCategories();
+      return () => controller.abort();
   }, [apiKey, region]);
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!keyword.trim() || !apiKey) return;
+    if (!confirmQuotaBudget(estimateQuotaCost({ search: 1, videos: 1 }))) return;
+
+    const controller = searchTask.start();
+    const { signal } = controller;
+    resetSummaries();
 
     setLoading(true);
     setVideos([]);
     setReport(null);
-    setVideoSummaries({});
+    setFailedVideoCount(0);
+    setFetchError(null);
 
     try {
       // Fetch max 50 mixed results initially, filtering is done client-side for smoother UX
       // Pass the selectedCategoryId to the service
-      const vData = await searchVideosByKeyword(apiKey, keyword, 50, region, false, selectedCategoryId);
+      const { items: vData, failedIds } = await searchVideosByKeyword(apiKey, keyword, 50, region, false, selectedCategoryId, { forceRefresh, signal });
       setVideos(vData);
+      setFailedVideoCount(failedIds.length);
 
       setAnalyzing(true);
       try {
-        const aiReport = await analyzeKeywordMarket(keyword, vData);
+        const aiReport = await analyzeKeywordMarket(keyword, vData, { signal });
         setReport(aiReport);
       } catch (err) {
-        console.error(err);
+        if (!isAbortError(err)) console.error(err);
       } finally {
-        setAnalyzing(false);
+        if (searchTask.isCurrent(controller)) setAnalyzing(false);
       }
 
     } catch (error) {
+      if (!searchTask.isCurrent(controller)) return;
       console.error(error);
-      alert('데이터 조회 중 오류가 발생했습니다.');
+      setFetchError(error);
     } finally {
-      setLoading(false);
+      if (searchTask.isCurrent(controller)) setLoading(false);
     }
   };
 
-  const handleSummarizeVideo = async (video: YouTubeVideo) => {
-    if (videoSummaries[video.id] || loadingSummaries[video.id]) return;
-
-    setLoadingSummaries(prev => ({ ...prev, [video.id]: true }));
-    try {
-        const summary = await summarizeVideo(video);
-        setVideoSummaries(prev => ({ ...prev, [video.id]: summary }));
-    } catch (e) {
-        alert('요약 생성 실패');
-    } finally {
-        setLoadingSummaries(prev => ({ ...prev, [video.id]: false }));
-    }
+  const handleCancelAnalysis = () => {
+    searchTask.abort();
+    setAnalyzing(false);
+    setLoading(false);
   };
 
   const handleDownloadReport = () => {
       if (!report) return;
-      const text = formatKeywordReportToText(report, keyword);
+      const text = formatKeywordReportToText(report, keyword, videos, videoSummaries);
       downloadText(text, `${keyword}_market_strategy`);
   };
 
@@ -113,14 +145,11 @@ const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
   const processedVideos = useMemo(() => {
       if (!videos.length) return [];
 
-      const maxViews = Math.max(...videos.map(v => v.viewCount));
-      const maxLikes = Math.max(...videos.map(v => v.likeCount));
-      const maxComments = Math.max(...videos.map(v => v.commentCount));
-
       // 1. Add Scores
+      const scores = scoreVideos(videos, scoring);
       const withScores = videos.map(v => ({
           ...v,
-          popularityScore: calculateVideoScore(v, maxViews, maxLikes, maxComments)
+          popularityScore: scores[v.id]
       }));
 
       // 2. Filter Type
@@ -139,7 +168,7 @@ const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
       });
 
       return sorted;
-  }, [videos, videoType, sortOption]);
+  }, [videos, videoType, sortOption, scoring]);
 
   const displayVideos = processedVideos.slice(0, displayCount);
 
@@ -179,6 +208,10 @@ const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                 placeholder="키워드/해시태그 입력 (예: 재테크, 먹방)" 
                 className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
               />
+              <label className="flex items-center gap-1.5 text-xs text-slate-400 whitespace-nowrap cursor-pointer select-none" title="저장된 응답을 무시하고 API에서 새로 가져옵니다">
+                <input type="checkbox" checked={forceRefresh} onChange={(e) => setForceRefresh(e.target.checked)} className="accent-blue-500" />
+                <RefreshCw size={12} /> 새로고침
+              </label>
               <button 
                 type="submit" 
                 disabled={loading}
@@ -188,8 +221,18 @@ const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
               </button>
           </div>
         </form>
+
+        {failedVideoCount > 0 && (
+          <div className="mt-4 bg-yellow-900/20 border border-yellow-500/30 text-yellow-300 text-sm p-3 rounded-lg flex items-center gap-2">
+            <AlertTriangle size={16} className="shrink-0" />
+            영상 {failedVideoCount}개의 상세 정보를 불러오지 못해 분석에서 제외되었습니다.
+          </div>
+        )}
       </div>
 
+      <RetryIndicator />
+      {fetchError && <ApiErrorNotice error={fetchError} onDismiss={() => setFetchError(null)} />}
+
       {videos.length > 0 && (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               {/* Left Column: AI Strategy Report */}
@@ -212,20 +255,27 @@ const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                       </div>
 
                       {analyzing ? (
-                         <div className="space-y-4 animate-pulse">
-                             <div className="h-4 bg-slate-700 rounded w-full"></div>
-                             <div className="h-4 bg-slate-700 rounded w-5/6"></div>
-                             <div className="h-32 bg-slate-700 rounded w-full mt-6"></div>
-                             <div className="h-32 bg-slate-700 rounded w-full mt-4"></div>
+                         <div className="space-y-4">
+                             <div className="space-y-4 animate-pulse">
+                                 <div className="h-4 bg-slate-700 rounded w-full"></div>
+                                 <div className="h-4 bg-slate-700 rounded w-5/6"></div>
+                                 <div className="h-32 bg-slate-700 rounded w-full mt-6"></div>
+                                 <div className="h-32 bg-slate-700 rounded w-full mt-4"></div>
+                             </div>
+                             <button onClick={handleCancelAnalysis} className="w-full py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-white flex items-center justify-center gap-2 transition-colors">
+                                 <X size={14} /> 분석 취소
+                             </button>
                          </div>
                       ) : report ? (
                           <div className="space-y-6 h-[calc(100vh-350px)] overflow-y-auto pr-2 custom-scrollbar">
+                              <DefaultedFieldsNotice fields={report.defaultedFields} />
                               <div className="bg-gradient-to-br from-slate-900 to-slate-800 p-5 rounded-xl border border-slate-700 shadow-inner">
                                   <h4 className="font-bold text-blue-300 mb-3 text-lg flex items-center gap-2">📊 시장 트렌드 요약</h4>
                                   <p className="text-slate-300 text-base leading-relaxed">{report.summary}</p>
                                   <div className="mt-4 pt-4 border-t border-slate-700/50">
                                      <p className="text-slate-300 text-sm leading-relaxed">{report.marketAnalysis}</p>
                                   </div>
+                                  {report.model && <p className="text-xs text-slate-500 mt-3">생성 모델: {report.model}{report.promptVersions && ` · 프롬프트: ${formatPromptVersions(report.promptVersions)}`}</p>}
                               </div>
 
                               <div className="bg-slate-900/50 p-5 rounded-xl border border-green-500/20">
@@ -312,8 +362,15 @@ const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                                ))}
                            </div>
 
+                           <BulkSummaryBar
+                             pendingCount={displayVideos.filter(v => !videoSummaries[v.id]).length}
+                             progress={summaryProgress}
+                             onStart={() => summarizeAll(displayVideos)}
+                             onCancel={cancelSummaries}
+                           />
+
                            <button 
-                             onClick={() => downloadCSV(displayVideos, `${keyword}_trend_analysis`)} 
+                             onClick={() => downloadCSV(displayVideos.map(v => ({ ...v, aiSummary: videoSummaries[v.id] || '' })), `${keyword}_trend_analysis`)} 
                              className="bg-slate-700 hover:bg-slate-600 text-white p-2 rounded-lg"
                              title="CSV 다운로드"
                            >
@@ -322,6 +379,8 @@ const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                        </div>
                   </div>
 
+                  <ScoringSettingsPanel scoring={scoring} onChange={setScoring} />
+
                   {/* Video Grid */}
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                        {displayVideos.map(video => (
@@ -361,6 +420,12 @@ const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
 
                                    {/* AI Summary Section */}
                                     <div className="mt-auto mb-3">
+                                        <div className="mb-2">
+                                            <TranscriptImportButton
+                                                videoId={video.id}
+                                                onChange={(transcript) => transcript ? handleSummarizeVideo(video, true) : forgetSummary(video.id)}
+                                            />
+                                        </div>
                                         {videoSummaries[video.id] ? (
                                             <div className="text-xs text-slate-300 bg-slate-700/50 p-2 rounded-lg border border-slate-600 animate-fade-in whitespace-pre-wrap max-h-32 overflow-y-auto custom-scrollbar">
                                                 <div className="font-bold text-yellow-300 mb-1 flex items-center gap-1"><Sparkles size={10}/> AI 요약</div>
@@ -381,12 +446,18 @@ const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                                                 )}
                                             </button>
                                         )}
+                                        <button
+                                            onClick={() => setOutlineVideo(video)}
+                                            className="w-full mt-2 text-xs py-1.5 bg-slate-700/50 hover:bg-slate-600 rounded-lg text-teal-300 flex items-center justify-center gap-1 transition-colors"
+                                        >
+                                            <ListOrdered size={12} /> 기획안 만들기
+                                        </button>
                                     </div>
                                    
                                    {/* Action Buttons */}
                                    <div className="grid grid-cols-2 gap-2 border-t border-slate-700 pt-3">
                                        <button 
-                                         onClick={() => onAnalyzeChannel(video.channelTitle)}
+                                         onClick={() => onAnalyzeChannel(video.channelId)}
                                          className="bg-red-600/10 hover:bg-red-600/20 text-red-400 hover:text-red-300 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 transition-colors border border-red-600/20"
                                        >
                                            <BarChart2 size={12} /> 채널 분석
@@ -407,6 +478,35 @@ const KeywordAnalysis: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
               </div>
           </div>
       )}
+
+      {report && !analyzing && (
+          <ThumbnailAnalysisSection
+              subject={keyword}
+              videos={videos}
+              result={report.thumbnails}
+              onResult={(thumbnails) => setReport(prev => prev && { ...prev, thumbnails })}
+          />
+      )}
+
+      {report && !analyzing && (
+          <ReportChatPanel
+              subject={keyword}
+              report={report}
+              videos={videos}
+              suggestions={CHAT_SUGGESTIONS}
+              exportFormats="TXT"
+              onChange={(chat) => setReport(prev => prev && { ...prev, chat })}
+          />
+      )}
+
+      {outlineVideo && (
+          <OutlineModal
+              title={outlineVideo.title}
+              reference={outlineVideo}
+              benchmarkVideos={videos}
+              onClose={() => setOutlineVideo(null)}
+          />
+      )}
     </div>
   );
 };
@@ -1,16 +1,33 @@
 
 import React, { useState, useEffect } from 'react';
-import { Telescope, TrendingUp, Star, AlertTriangle, ExternalLink, BarChart2, Anchor, Zap, Search, Brain, Sparkles, Download } from 'lucide-react';
+import { Telescope, TrendingUp, Star, AlertTriangle, ExternalLink, BarChart2, Anchor, Zap, Search, Brain, Sparkles, Download, RefreshCw, X, ListOrdered } from 'lucide-react';
 import { OpportunityReport, YouTubeCategory, RegionCode, YouTubeVideo, RisingChannelResult, RisingPeriod, VideoTypeFilter } from '../types';
 import { findRisingChannels, getVideoCategories } from '../services/youtubeService';
-import { analyzeTopicOpportunity, summarizeVideo } from '../services/geminiService';
-import { formatNumber, formatDate, downloadText, formatOpportunityReportToText } from '../utils';
+import { analyzeTopicOpportunity } from '../services/geminiService';
+import { confirmQuotaBudget, estimateQuotaCost } from '../services/quotaService';
+import { getReportLanguage } from '../services/reportLanguage';
+import { isAbortError } from '../services/requestExecutor';
+import { useAbortController } from '../hooks/useAbortController';
+import { useVideoSummaries } from '../hooks/useVideoSummaries';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import RetryIndicator from '../components/RetryIndicator';
+import DefaultedFieldsNotice from '../components/DefaultedFieldsNotice';
+import MetricGauge from '../components/MetricGauge';
+import OutlineModal from '../components/OutlineModal';
+import BulkSummaryBar from '../components/BulkSummaryBar';
+import TranscriptImportButton from '../components/TranscriptImportButton';
+import { formatNumber, formatDate, downloadText, formatOpportunityReportToText, formatPromptVersions } from '../utils';
 
 interface Props {
   apiKey: string;
-  onAnalyzeChannel: (channelName: string) => void;
+  onAnalyzeChannel: (channelId: string) => void;
 }
 
+// Gauge full-scale values: the 2500 high-concentration line of the HHI bands sits at two thirds and
+// 1500 at 40%; a lifetime average of one upload a day fills the upload gauge
+const HHI_GAUGE_MAX = 3750;
+const UPLOADS_GAUGE_MAX = 7;
+
 const OpportunityFinder: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
   const [topic, setTopic] = useState('');
   
@@ -20,86 +37,102 @@ const OpportunityFinder: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
   const [selectedPeriod, setSelectedPeriod] = useState<RisingPeriod>('1y');
   const [selectedRegion, setSelectedRegion] = useState<RegionCode>('KR');
   const [videoType, setVideoType] = useState<VideoTypeFilter>('all');
+  const [forceRefresh, setForceRefresh] = useState(false);
 
   const [loading, setLoading] = useState(false);
   const [channels, setChannels] = useState<RisingChannelResult[]>([]);
   const [report, setReport] = useState<OpportunityReport | null>(null);
   const [hasSearched, setHasSearched] = useState(false);
+  const [failedVideoCount, setFailedVideoCount] = useState(0);
+  const [fetchError, setFetchError] = useState<unknown>(null);
 
   // Video Summaries
-  const [videoSummaries, setVideoSummaries] = useState<Record<string, string>>({});
-  const [loadingSummaries, setLoadingSummaries] = useState<Record<string, boolean>>({});
+  const topVideos = channels.map(item => item.topVideo);
+  const {
+    summaries: videoSummaries,
+    loading: loadingSummaries,
+    progress: summaryProgress,
+    summarize: handleSummarizeVideo,
+    summarizeAll,
+    forget: forgetSummary,
+    cancel: cancelSummaries,
+    reset: resetSummaries,
+  } = useVideoSummaries(topVideos);
+  const [outlineVideo, setOutlineVideo] = useState<YouTubeVideo | null>(null);
+
+  const searchTask = useAbortController();
 
   // Fetch Categories
   useEffect(() => {
+    const controller = new AbortController();
     const fetchCategories = async () => {
         if (!apiKey) return;
         try {
-            const cats = await getVideoCategories(apiKey, selectedRegion === 'Global' ? 'US' : selectedRegion);
+            const cats = await getVideoCategories(apiKey, selectedRegion === 'Global' ? 'US' : selectedRegion, { signal: controller.signal });
             setCategories(cats);
         } catch (e) {
+            if (isAbortError(e)) return;
             console.error("Failed to fetch categories", e);
+            setFetchError(e);
         }
     };
     fetchCategories();
+    return () => controller.abort();
   }, [apiKey, selectedRegion]);
 
   const handleSearch = async (e: React.FormEvent | React.KeyboardEvent) => {
     e.preventDefault();
     if (!topic.trim() || !apiKey) return;
+    if (!confirmQuotaBudget(estimateQuotaCost({ search: 1, channels: 1, videos: 1 }))) return;
+
+    const controller = searchTask.start();
+    const { signal } = controller;
+    resetSummaries();
 
     setLoading(true);
     setChannels([]);
     setReport(null);
     setHasSearched(true);
-    setVideoSummaries({});
+    setFailedVideoCount(0);
+    setFetchError(null);
 
     try {
       // 1. Find Rising Channels with Filters (Data collection)
-      const results = await findRisingChannels(
+      const { items: results, failedIds, marketVideos, marketChannels } = await findRisingChannels(
           apiKey, 
           topic, 
           selectedCategory, 
           selectedPeriod, 
           selectedRegion,
-          videoType
+          videoType,
+          { forceRefresh, signal }
       );
       setChannels(results);
+      setFailedVideoCount(failedIds.length);
 
       // 2. AI Market Opportunity Analysis
-      // Map RisingChannelResult to a structure compatible with the analyzer (needs viewCount, channelTitle)
-      const videosForAnalysis = results.map(r => r.topVideo);
-      
-      // Only run analysis if we have enough data
-      if (videosForAnalysis.length > 0) {
-          const analysis = await analyzeTopicOpportunity(topic, videosForAnalysis);
+      // Metrics cover every searched video and channel, established ones included; rising channels are only the cards
+      if (marketVideos.length > 0) {
+          const analysis = await analyzeTopicOpportunity(topic, marketVideos, marketChannels, { signal });
           setReport(analysis);
       }
 
     } catch (error) {
+      if (!searchTask.isCurrent(controller) || isAbortError(error)) return;
       console.error(error);
-      alert('검색 및 분석 중 오류가 발생했습니다.');
+      setFetchError(error);
     } finally {
-      setLoading(false);
+      if (searchTask.isCurrent(controller)) setLoading(false);
     }
   };
 
-  const handleSummarizeVideo = async (video: YouTubeVideo) => {
-    if (videoSummaries[video.id] || loadingSummaries[video.id]) return;
-
-    setLoadingSummaries(prev => ({ ...prev, [video.id]: true }));
-    try {
-        const summary = await summarizeVideo(video);
-        setVideoSummaries(prev => ({ ...prev, [video.id]: summary }));
-    } catch (e) {
-        alert('요약 생성 실패');
-    } finally {
-        setLoadingSummaries(prev => ({ ...prev, [video.id]: false }));
-    }
+  const handleCancelAnalysis = () => {
+    searchTask.abort();
+    setLoading(false);
   };
 
   const handleDownload = () => {
-      const text = formatOpportunityReportToText(report, channels, topic);
+      const text = formatOpportunityReportToText(report, channels, topic, report?.language || getReportLanguage(), videoSummaries);
       downloadText(text, `${topic}_opportunity_report`);
   };
 
@@ -165,6 +198,11 @@ const OpportunityFinder: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                     </button>
                 ))}
             </div>
+
+            <label className="flex items-center gap-1.5 text-xs text-slate-400 whitespace-nowrap cursor-pointer select-none px-2" title="저장된 응답을 무시하고 API에서 새로 가져옵니다">
+              <input type="checkbox" checked={forceRefresh} onChange={(e) => setForceRefresh(e.target.checked)} className="accent-purple-500" />
+              <RefreshCw size={12} /> 새로고침
+            </label>
           </div>
 
           <div className="flex gap-2">
@@ -199,10 +237,23 @@ const OpportunityFinder: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
               <div className="animate-spin w-12 h-12 border-4 border-purple-500 border-t-transparent rounded-full mx-auto mb-4"></div>
               <p className="text-slate-300 font-medium text-lg">데이터를 분석하여 숨겨진 보석을 찾는 중입니다...</p>
               <p className="text-slate-500 text-sm mt-2">채널 발굴 및 시장 AI 분석이 진행됩니다.</p>
+              <button onClick={handleCancelAnalysis} className="mt-6 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-white inline-flex items-center gap-2 transition-colors">
+                  <X size={14} /> 분석 취소
+              </button>
           </div>
       )}
 
-      {!loading && (report || channels.length > 0 || hasSearched) && (
+      <RetryIndicator />
+      {fetchError && <ApiErrorNotice error={fetchError} onDismiss={() => setFetchError(null)} />}
+
+      {!loading && failedVideoCount > 0 && (
+          <div className="bg-yellow-900/20 border border-yellow-500/30 text-yellow-300 text-sm p-3 rounded-lg flex items-center gap-2">
+              <AlertTriangle size={16} className="shrink-0" />
+              대표 영상 {failedVideoCount}개의 상세 정보를 불러오지 못해 일부 채널이 목록에서 제외되었습니다.
+          </div>
+      )}
+
+      {!loading && (report || channels.length > 0 || (hasSearched && !fetchError)) && (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               {/* AI Analysis Card */}
               {report && (
@@ -223,8 +274,11 @@ const OpportunityFinder: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                         <div className="w-full h-2 bg-slate-700 rounded-full mt-3 overflow-hidden">
                             <div className={`h-full rounded-full ${report.score >= 70 ? 'bg-blue-500' : 'bg-red-500'}`} style={{ width: `${report.score}%` }}></div>
                         </div>
+                        {report.model && <p className="text-xs text-slate-500 mt-2">생성 모델: {report.model}{report.promptVersions && ` · 프롬프트: ${formatPromptVersions(report.promptVersions)}`}</p>}
                     </div>
 
+                    <DefaultedFieldsNotice fields={report.defaultedFields} />
+
                     <div className="space-y-4 flex-1">
                         <div>
                             <h4 className="font-bold text-white mb-2 flex items-center gap-2"><Zap size={16} className="text-yellow-400"/> 요약 분석</h4>
@@ -235,6 +289,36 @@ const OpportunityFinder: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                             <p className="text-slate-400 text-sm leading-relaxed">{report.reason}</p>
                         </div>
                         
+                        {/* Market Metrics */}
+                        {report.metrics && (
+                            <div className="grid grid-cols-2 gap-2">
+                                <MetricGauge
+                                    label="조회수 지니계수"
+                                    value={report.metrics.viewGini.toFixed(2)}
+                                    ratio={report.metrics.viewGini}
+                                    hint="0 분산 · 1 독식"
+                                />
+                                <MetricGauge
+                                    label="상위 10% 점유율"
+                                    value={`${Math.round(report.metrics.top10ViewShare * 100)}%`}
+                                    ratio={report.metrics.top10ViewShare}
+                                    hint="상위 영상의 조회수 비중"
+                                />
+                                <MetricGauge
+                                    label="채널 HHI"
+                                    value={formatNumber(Math.round(report.metrics.channelHHI))}
+                                    ratio={report.metrics.channelHHI / HHI_GAUGE_MAX}
+                                    hint="1500↓ 분산 · 2500↑ 고집중"
+                                />
+                                <MetricGauge
+                                    label="상위 채널 업로드 (개설 후 평균)"
+                                    value={`주 ${report.metrics.topChannelLifetimeUploadsPerWeek.toFixed(1)}회`}
+                                    ratio={report.metrics.topChannelLifetimeUploadsPerWeek / UPLOADS_GAUGE_MAX}
+                                    hint="전체 영상 수 ÷ 운영 기간, 최근 빈도 아님"
+                                />
+                            </div>
+                        )}
+
                         {/* 3-Point Analysis */}
                         <div className="grid gap-2">
                             <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50">
@@ -278,13 +362,21 @@ const OpportunityFinder: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                               {selectedPeriod === 'all' ? '전체 기간' : `${selectedPeriod} 내 개설`} ({channels.length}개)
                           </span>
                       </div>
-                      <button 
-                         onClick={handleDownload}
-                         disabled={!report && channels.length === 0}
-                         className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-slate-200 px-4 py-2 rounded-lg text-sm font-bold transition-colors disabled:opacity-50"
-                      >
-                         <Download size={16} /> TXT 다운로드
-                      </button>
+                      <div className="flex items-center gap-2 flex-wrap justify-end">
+                        <BulkSummaryBar
+                           pendingCount={topVideos.filter(v => !videoSummaries[v.id]).length}
+                           progress={summaryProgress}
+                           onStart={() => summarizeAll(topVideos)}
+                           onCancel={cancelSummaries}
+                        />
+                        <button 
+                           onClick={handleDownload}
+                           disabled={!report && channels.length === 0}
+                           className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-slate-200 px-4 py-2 rounded-lg text-sm font-bold transition-colors disabled:opacity-50"
+                        >
+                           <Download size={16} /> TXT 다운로드
+                        </button>
+                      </div>
                   </div>
 
                   {channels.length === 0 ? (
@@ -320,6 +412,11 @@ const OpportunityFinder: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                                   </div>
                                   
                                   <div className="mt-auto space-y-3">
+                                      <TranscriptImportButton
+                                        key={item.topVideo.id}
+                                        videoId={item.topVideo.id}
+                                        onChange={(transcript) => transcript ? handleSummarizeVideo(item.topVideo, true) : forgetSummary(item.topVideo.id)}
+                                      />
                                       {videoSummaries[item.topVideo.id] ? (
                                             <div className="text-xs text-slate-300 bg-slate-700/50 p-2 rounded-lg border border-slate-600 animate-fade-in whitespace-pre-wrap max-h-32 overflow-y-auto custom-scrollbar">
                                                 <div className="font-bold text-yellow-300 mb-1 flex items-center gap-1"><Sparkles size={10}/> AI 요약</div>
@@ -341,6 +438,13 @@ const OpportunityFinder: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                                             </button>
                                         )}
 
+                                      <button
+                                        onClick={() => setOutlineVideo(item.topVideo)}
+                                        className="w-full text-xs py-1.5 bg-slate-700/50 hover:bg-slate-600 rounded-lg text-teal-300 flex items-center justify-center gap-1 transition-colors"
+                                      >
+                                          <ListOrdered size={12} /> 기획안 만들기
+                                      </button>
+
                                       <div className="flex gap-2">
                                           <a 
                                             href={`https://www.youtube.com/channel/${item.details.id}`} 
@@ -351,7 +455,7 @@ const OpportunityFinder: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
                                               <ExternalLink size={12} /> 바로가기
                                           </a>
                                           <button 
-                                            onClick={() => onAnalyzeChannel(item.details.title)}
+                                            onClick={() => onAnalyzeChannel(item.details.id)}
                                             className="flex-1 bg-purple-600 hover:bg-purple-700 text-white py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 transition-colors"
                                           >
                                               <BarChart2 size={12} /> 채널 분석
@@ -365,6 +469,15 @@ const OpportunityFinder: React.FC<Props> = ({ apiKey, onAnalyzeChannel }) => {
               </div>
           </div>
       )}
+
+      {outlineVideo && (
+        <OutlineModal
+          title={outlineVideo.title}
+          reference={outlineVideo}
+          benchmarkVideos={topVideos}
+          onClose={() => setOutlineVideo(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { FileCode, Save, RotateCcw, Eye, History, CheckCircle, AlertTriangle } from 'lucide-react';
+import { PromptTemplateId, PromptTemplateVersion } from '../types';
+import { PROMPT_TEMPLATES, getTemplateVersions, saveTemplateVersion, resetTemplate, renderPreview } from '../services/promptTemplates';
+
+const PromptSettings: React.FC = () => {
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('system');
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [draft, setDraft] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+
+  const definition = PROMPT_TEMPLATES[selectedId];
+  const active = versions[versions.length - 1];
+
+  useEffect(() => {
+    const loaded = getTemplateVersions(selectedId);
+    setVersions(loaded);
+    setDraft(loaded[loaded.length - 1].body);
+    setSaved(false);
+  }, [selectedId]);
+
+  // Placeholders in the draft that this template does not provide; they would reach the model verbatim
+  const unknownVariables = useMemo(() => {
+    const known = new Set(definition.variables.map(v => v.name));
+    const used = Array.from(draft.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+    return Array.from(new Set(used.filter(name => !known.has(name))));
+  }, [draft, definition]);
+
+  const isDirty = active ? draft !== active.body : false;
+
+  const insertVariable = (name: string) => {
+    const editor = editorRef.current;
+    const placeholder = `{{${name}}}`;
+    if (!editor) {
+      setDraft(prev => prev + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd } = editor;
+    setDraft(prev => prev.slice(0, selectionStart) + placeholder + prev.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      editor.focus();
+      editor.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  const applyVersion = (version: PromptTemplateVersion) => {
+    setVersions(getTemplateVersions(selectedId));
+    setDraft(version.body);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 1500);
+  };
+
+  const handleSave = () => {
+    if (!draft.trim()) return;
+    applyVersion(saveTemplateVersion(selectedId, draft));
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(`'${definition.label}' 템플릿을 기본값으로 되돌릴까요? 기본 내용이 새 버전으로 저장됩니다.`)) return;
+    applyVersion(resetTemplate(selectedId));
+  };
+
+  const formatVersionLabel = (version: PromptTemplateVersion) => {
+    if (!version.savedAt) return `v${version.version} (기본)`;
+    return `v${version.version} · ${new Date(version.savedAt).toLocaleString('ko-KR')}`;
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 shadow-xl">
+        <h2 className="text-2xl font-bold flex items-center gap-2 text-white">
+          <FileCode className="text-slate-300" /> 프롬프트 템플릿 설정
+        </h2>
+        <p className="text-slate-400 text-sm mt-2">
+          AI 분석에 쓰이는 페르소나와 분석별 프롬프트를 수정합니다. 저장할 때마다 새 버전이 만들어지고, 생성된 리포트에는 사용한 버전이 기록됩니다.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Template List */}
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-3 space-y-1 h-fit">
+          {(Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[]).map(id => (
+            <button
+              key={id}
+              onClick={() => setSelectedId(id)}
+              className={`w-full text-left px-4 py-3 rounded-lg text-sm font-medium transition-colors ${
+                selectedId === id ? 'bg-slate-600 text-white' : 'text-slate-400 hover:bg-slate-700 hover:text-white'
+              }`}
+            >
+              {PROMPT_TEMPLATES[id].label}
+            </button>
+          ))}
+        </div>
+
+        {/* Editor */}
+        <div className="lg:col-span-3 space-y-4">
+          <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 space-y-4">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div>
+                <h3 className="text-lg font-bold text-white">{definition.label}</h3>
+                <p className="text-xs text-slate-500 mt-1">
+                  현재 사용 중: {active ? formatVersionLabel(active) : '-'}
+                  {isDirty && <span className="text-yellow-400 ml-2">· 저장되지 않은 변경 사항</span>}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <History size={14} className="text-slate-500" />
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const version = versions.find(v => v.version === Number(e.target.value));
+                    if (version) setDraft(version.body);
+                  }}
+                  className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-300 outline-none"
+                >
+                  <option value="" disabled>이전 버전 불러오기</option>
+                  {[...versions].reverse().map(version => (
+                    <option key={version.version} value={version.version}>{formatVersionLabel(version)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {definition.variables.length > 0 && (
+              <div>
+                <div className="text-xs text-slate-500 font-bold mb-2">사용 가능한 변수 (클릭하여 삽입)</div>
+                <div className="flex flex-wrap gap-2">
+                  {definition.variables.map(variable => (
+                    <button
+                      key={variable.name}
+                      onClick={() => insertVariable(variable.name)}
+                      title={variable.description}
+                      className="text-xs font-mono px-2 py-1 rounded bg-slate-900 border border-slate-600 text-blue-300 hover:border-blue-500 transition-colors"
+                    >
+                      {`{{${variable.name}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <textarea
+              ref={editorRef}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={16}
+              spellCheck={false}
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg p-4 text-sm text-slate-200 font-mono leading-relaxed focus:ring-2 focus:ring-slate-500 outline-none custom-scrollbar"
+            />
+
+            {unknownVariables.length > 0 && (
+              <div className="text-yellow-400 text-xs flex items-center gap-1">
+                <AlertTriangle size={12} /> 이 템플릿에 없는 변수: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+              </div>
+            )}
+            {saved && (
+              <div className="text-green-400 text-xs flex items-center gap-1"><CheckCircle size={12}/> 저장되었습니다.</div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={handleSave}
+                disabled={!isDirty || !draft.trim()}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save size={14} /> 새 버전으로 저장
+              </button>
+              <button
+                onClick={() => setShowPreview(prev => !prev)}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm flex items-center gap-2"
+              >
+                <Eye size={14} /> {showPreview ? '미리보기 닫기' : '미리보기'}
+              </button>
+              <button
+                onClick={handleReset}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-red-400 rounded-lg text-sm flex items-center gap-2 ml-auto"
+              >
+                <RotateCcw size={14} /> 기본값으로 초기화
+              </button>
+            </div>
+          </div>
+
+          {showPreview && (
+            <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 animate-fade-in">
+              <h4 className="font-bold text-slate-200 mb-1">미리보기</h4>
+              <p className="text-xs text-slate-500 mb-3">변수에 예시 값을 채운 결과입니다.</p>
+              <pre className="bg-slate-900 rounded-lg p-4 text-sm text-slate-300 whitespace-pre-wrap font-sans leading-relaxed">
+                {renderPreview(selectedId, draft)}
+              </pre>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptSettings;
@@ -0,0 +1,322 @@
+import React, { useState } from 'react';
+import { FlaskConical, Sparkles, Pin, PinOff, Copy, Download, X, Loader2, Hash, RefreshCw } from 'lucide-react';
+import { RegionCode, ScoredTitle, PinnedTitle, TitleBenchmark, TitleScores, TitleVariantSet } from '../types';
+import { searchVideosByKeyword } from '../services/youtubeService';
+import { generateTitleVariants } from '../services/geminiService';
+import { confirmQuotaBudget, estimateQuotaCost } from '../services/quotaService';
+import { buildTitleBenchmark, scoreTitle, titleLength, getPinnedTitles, pinTitle, unpinTitle, TITLE_SCORE_WEIGHTS } from '../services/titleLab';
+import { isAbortError } from '../services/requestExecutor';
+import { useAbortController } from '../hooks/useAbortController';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import RetryIndicator from '../components/RetryIndicator';
+import DefaultedFieldsNotice from '../components/DefaultedFieldsNotice';
+import { downloadCSV, formatPromptVersions } from '../utils';
+
+interface Props {
+  apiKey: string;
+}
+
+type VariantCount = 5 | 10 | 15;
+
+const SCORE_LABELS: Record<Exclude<keyof TitleScores, 'total'>, string> = {
+  length: '길이',
+  style: '스타일',
+  keyword: '키워드',
+  appeal: '클릭 유도력',
+};
+
+const scoreColor = (score: number) => score >= 75 ? 'text-green-400' : score >= 50 ? 'text-yellow-400' : 'text-red-400';
+
+const TitleLab: React.FC<Props> = ({ apiKey }) => {
+  const [input, setInput] = useState('');
+  const [keyword, setKeyword] = useState('');
+  const [region, setRegion] = useState<RegionCode>('KR');
+  const [count, setCount] = useState<VariantCount>(10);
+  const [forceRefresh, setForceRefresh] = useState(false);
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [benchmark, setBenchmark] = useState<TitleBenchmark | null>(null);
+  const [results, setResults] = useState<ScoredTitle[]>([]);
+  const [meta, setMeta] = useState<Omit<TitleVariantSet, 'variants'> | null>(null);
+  const [topic, setTopic] = useState('');
+  const [pins, setPins] = useState<PinnedTitle[]>(getPinnedTitles);
+
+  const task = useAbortController();
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const subject = input.trim();
+    const searchKeyword = keyword.trim() || subject;
+    if (!subject || !apiKey) return;
+    if (!confirmQuotaBudget(estimateQuotaCost({ search: 1, videos: 1 }))) return;
+
+    const controller = task.start();
+    const { signal } = controller;
+    setLoading(true);
+    setError(null);
+    setResults([]);
+    setMeta(null);
+
+    try {
+      const { items: videos } = await searchVideosByKeyword(apiKey, searchKeyword, 50, region, false, undefined, { forceRefresh, signal });
+      if (videos.length === 0) throw new Error('검색 결과가 없어 비교할 상위 영상을 찾지 못했습니다. 키워드를 바꿔보세요.');
+      const market = buildTitleBenchmark(searchKeyword, videos);
+      setBenchmark(market);
+
+      const { variants, ...rest } = await generateTitleVariants(subject, market, videos, count, { signal });
+      if (!task.isCurrent(controller)) return;
+      const scored = variants
+        .filter(v => v.title?.trim())
+        .map(v => ({ title: v.title.trim(), rationale: v.rationale, ...scoreTitle(v.title.trim(), v.clickAppeal, market) }))
+        .sort((a, b) => b.scores.total - a.scores.total);
+      setResults(scored);
+      setMeta(rest);
+      setTopic(subject);
+    } catch (err) {
+      if (!task.isCurrent(controller) || isAbortError(err)) return;
+      console.error(err);
+      setError(err);
+    } finally {
+      if (task.isCurrent(controller)) setLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    task.abort();
+    setLoading(false);
+  };
+
+  const isPinned = (title: string) => pins.some(p => p.topic === topic && p.title === title);
+
+  const togglePin = (item: ScoredTitle) => {
+    const existing = pins.find(p => p.topic === topic && p.title === item.title);
+    setPins(existing ? unpinTitle(existing.id) : pinTitle(topic, item));
+  };
+
+  const handleCopy = (title: string) => {
+    navigator.clipboard.writeText(title);
+  };
+
+  const handleExportPins = () => {
+    downloadCSV(pins.map(p => ({
+      주제: p.topic,
+      제목: p.title,
+      총점: p.scores.total,
+      길이: p.scores.length,
+      스타일: p.scores.style,
+      키워드: p.scores.keyword,
+      클릭유도력: p.scores.appeal,
+      겹치는키워드: p.matchedKeywords.join(' '),
+      근거: p.rationale,
+      저장일시: new Date(p.pinnedAt).toLocaleString('ko-KR'),
+    })), 'title_lab_pins');
+  };
+
+  const formula = (Object.keys(SCORE_LABELS) as (keyof typeof SCORE_LABELS)[])
+    .map(key => `${SCORE_LABELS[key]} ${Math.round(TITLE_SCORE_WEIGHTS[key] * 100)}%`)
+    .join(' + ');
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-slate-800 p-6 rounded-2xl shadow-lg border border-slate-700">
+        <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+          <FlaskConical className="text-amber-400" /> 제목 실험실
+        </h2>
+        <p className="text-slate-400 text-sm mb-4">
+          주제나 초안 제목을 입력하면 AI가 제목 후보를 만들고, 실제 검색 상위 영상의 제목 패턴과 비교해 점수를 매깁니다.
+        </p>
+        <form onSubmit={handleGenerate} className="flex flex-col gap-3">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="주제 또는 초안 제목 (예: 초보 캠핑 장비 추천)"
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-amber-500 outline-none"
+          />
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              type="text"
+              value={keyword}
+              onChange={(e) => setKeyword(e.target.value)}
+              placeholder="비교할 검색 키워드 (비우면 주제로 검색)"
+              className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-sm text-white focus:ring-2 focus:ring-amber-500 outline-none"
+            />
+            <select
+              value={region}
+              onChange={(e) => setRegion(e.target.value as RegionCode)}
+              className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-amber-500 outline-none"
+            >
+              <option value="Global">전세계</option>
+              <option value="KR">한국</option>
+              <option value="US">미국</option>
+              <option value="JP">일본</option>
+            </select>
+            <div className="flex bg-slate-900 rounded-lg border border-slate-700 overflow-hidden">
+              {[5, 10, 15].map(num => (
+                <button
+                  key={num}
+                  type="button"
+                  onClick={() => setCount(num as VariantCount)}
+                  className={`px-3 py-2 text-xs font-bold border-r border-slate-700 last:border-0 ${count === num ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                >
+                  {num}개
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-1.5 text-xs text-slate-400 whitespace-nowrap cursor-pointer select-none px-1" title="저장된 응답을 무시하고 API에서 새로 가져옵니다">
+              <input type="checkbox" checked={forceRefresh} onChange={(e) => setForceRefresh(e.target.checked)} className="accent-amber-500" />
+              <RefreshCw size={12} /> 새로고침
+            </label>
+            {loading ? (
+              <button type="button" onClick={handleCancel} className="bg-slate-700 hover:bg-slate-600 text-white px-6 py-2 rounded-lg font-bold transition-colors flex items-center justify-center gap-2 whitespace-nowrap">
+                <X size={16} /> 취소
+              </button>
+            ) : (
+              <button type="submit" className="bg-amber-600 hover:bg-amber-700 text-white px-6 py-2 rounded-lg font-bold transition-colors shadow-lg shadow-amber-600/20 flex items-center justify-center gap-2 whitespace-nowrap">
+                <Sparkles size={16} /> 제목 생성
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      <RetryIndicator />
+      {error && <ApiErrorNotice error={error} onDismiss={() => setError(null)} />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          {benchmark && (
+            <div className="bg-slate-800 rounded-xl border border-slate-700 p-5">
+              <h3 className="font-bold text-slate-200 mb-3 flex items-center gap-2">
+                <Hash size={16} className="text-amber-400" /> '{benchmark.keyword}' 상위 {benchmark.sampleSize}개 영상 제목 패턴
+              </h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div className="bg-slate-900/50 p-3 rounded-lg">
+                  <div className="text-xs text-slate-500">제목 길이</div>
+                  <div className="text-white font-bold">{benchmark.lengthRange[0]}~{benchmark.lengthRange[1]}자</div>
+                </div>
+                <div className="bg-slate-900/50 p-3 rounded-lg">
+                  <div className="text-xs text-slate-500">숫자 사용</div>
+                  <div className="text-white font-bold">{Math.round(benchmark.numberShare * 100)}%</div>
+                </div>
+                <div className="bg-slate-900/50 p-3 rounded-lg">
+                  <div className="text-xs text-slate-500">괄호 사용</div>
+                  <div className="text-white font-bold">{Math.round(benchmark.bracketShare * 100)}%</div>
+                </div>
+                <div className="bg-slate-900/50 p-3 rounded-lg">
+                  <div className="text-xs text-slate-500">이모지 사용</div>
+                  <div className="text-white font-bold">{Math.round(benchmark.emojiShare * 100)}%</div>
+                </div>
+              </div>
+              {benchmark.topKeywords.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-3">
+                  {benchmark.topKeywords.map(k => (
+                    <span key={k} className="px-2 py-0.5 bg-slate-700 text-slate-300 text-xs rounded-md">#{k}</span>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-slate-500 mt-3">총점 = {formula}</p>
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex items-center justify-center gap-2 py-16 text-slate-400">
+              <Loader2 size={20} className="animate-spin" /> 상위 영상을 불러와 제목 후보를 만들고 있습니다...
+            </div>
+          )}
+
+          {!loading && meta && (
+            <>
+              <DefaultedFieldsNotice fields={meta.defaultedFields} />
+              {meta.model && <p className="text-xs text-slate-500">생성 모델: {meta.model}{meta.promptVersions && ` · 프롬프트: ${formatPromptVersions(meta.promptVersions)}`}</p>}
+            </>
+          )}
+
+          {!loading && results.map((item, i) => (
+            <div key={`${item.title}-${i}`} className="bg-slate-800 rounded-xl border border-slate-700 p-5 hover:border-amber-500/50 transition-colors">
+              <div className="flex items-start gap-4">
+                <div className={`text-3xl font-black w-14 text-center shrink-0 ${scoreColor(item.scores.total)}`}>{item.scores.total}</div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-bold text-white text-lg leading-snug">{item.title}</div>
+                  <div className="text-xs text-slate-500 mt-1">{titleLength(item.title)}자 · {item.rationale}</div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-3">
+                    {(Object.keys(SCORE_LABELS) as (keyof typeof SCORE_LABELS)[]).map(key => (
+                      <div key={key}>
+                        <div className="flex justify-between text-[10px] text-slate-500">
+                          <span>{SCORE_LABELS[key]}</span><span>{item.scores[key]}</span>
+                        </div>
+                        <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden mt-0.5">
+                          <div className="h-full bg-amber-500 rounded-full" style={{ width: `${item.scores[key]}%` }}></div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  {item.matchedKeywords.length > 0 && (
+                    <div className="text-xs text-slate-400 mt-2">겹치는 키워드: {item.matchedKeywords.join(', ')}</div>
+                  )}
+                </div>
+                <div className="flex flex-col gap-2 shrink-0">
+                  <button
+                    onClick={() => togglePin(item)}
+                    className={`p-2 rounded-lg transition-colors ${isPinned(item.title) ? 'bg-amber-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'}`}
+                    title={isPinned(item.title) ? '고정 해제' : '고정'}
+                  >
+                    {isPinned(item.title) ? <PinOff size={14} /> : <Pin size={14} />}
+                  </button>
+                  <button onClick={() => handleCopy(item.title)} className="p-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-300 transition-colors" title="복사">
+                    <Copy size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {!loading && !benchmark && (
+            <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-12 text-center text-slate-500">
+              <FlaskConical size={40} className="mx-auto mb-3 opacity-30" />
+              <p>주제를 입력하고 제목 후보를 생성해보세요.</p>
+            </div>
+          )}
+        </div>
+
+        {/* Pinned Titles */}
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-5 h-fit space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold text-slate-200 flex items-center gap-2"><Pin size={16} className="text-amber-400" /> 고정한 제목 ({pins.length})</h3>
+            <button
+              onClick={handleExportPins}
+              disabled={pins.length === 0}
+              className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded-lg text-xs text-white flex items-center gap-1 transition-colors disabled:opacity-50"
+            >
+              <Download size={12} /> CSV
+            </button>
+          </div>
+          {pins.length === 0 ? (
+            <p className="text-sm text-slate-500">마음에 드는 후보를 고정하면 여기에 모입니다.</p>
+          ) : (
+            <ul className="space-y-2 max-h-[600px] overflow-y-auto custom-scrollbar pr-1">
+              {pins.map(pin => (
+                <li key={pin.id} className="bg-slate-900/50 border border-slate-700/50 rounded-lg p-3 flex gap-2 items-start">
+                  <span className={`font-bold text-sm w-8 shrink-0 ${scoreColor(pin.scores.total)}`}>{pin.scores.total}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-slate-200 leading-snug">{pin.title}</div>
+                    <div className="text-[10px] text-slate-500 mt-1 truncate">{pin.topic}</div>
+                  </div>
+                  <button onClick={() => handleCopy(pin.title)} className="text-slate-500 hover:text-white" title="복사">
+                    <Copy size={12} />
+                  </button>
+                  <button onClick={() => setPins(unpinTitle(pin.id))} className="text-slate-500 hover:text-red-400" title="고정 해제">
+                    <X size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TitleLab;
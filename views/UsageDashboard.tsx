@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Coins, Download, Trash2, Save, RotateCcw, Plus, X, CheckCircle, RefreshCw } from 'lucide-react';
+import { AnalysisKind, ModelPrice, UsageEntry } from '../types';
+import { getUsageLog, clearUsageLog, subscribeUsage, getPriceTable, setPriceTable, repriceUsageLog, DEFAULT_PRICES } from '../services/usageService';
+import { ANALYSIS_KIND_LABELS, LLM_PROVIDER_LABELS } from '../services/llmProviders';
+import { downloadCSV, formatNumber } from '../utils';
+
+interface UsageGroup {
+  key: string;
+  label: string;
+  calls: number;
+  tokens: number;
+  cost: number;
+}
+
+interface PriceRow {
+  model: string;
+  input: string;
+  output: string;
+}
+
+const totalTokens = (entry: UsageEntry) => entry.promptTokens + entry.outputTokens + entry.thinkingTokens;
+
+const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+// Local calendar day, so late-night calls are not filed under the next UTC day
+const toDay = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const groupBy = (log: UsageEntry[], keyOf: (entry: UsageEntry) => string, labelOf: (key: string) => string = key => key): UsageGroup[] => {
+  const groups = new Map<string, UsageGroup>();
+  log.forEach(entry => {
+    const key = keyOf(entry);
+    const group = groups.get(key) || { key, label: labelOf(key), calls: 0, tokens: 0, cost: 0 };
+    group.calls += 1;
+    group.tokens += totalTokens(entry);
+    group.cost += entry.cost;
+    groups.set(key, group);
+  });
+  return Array.from(groups.values());
+};
+
+const toPriceRows = (prices: Record<string, ModelPrice>): PriceRow[] =>
+  Object.entries(prices).map(([model, price]) => ({ model, input: String(price.input), output: String(price.output) }));
+
+const UsageTable: React.FC<{ title: string; groups: UsageGroup[] }> = ({ title, groups }) => (
+  <div className="bg-slate-800 rounded-xl border border-slate-700 p-5">
+    <h3 className="font-bold text-slate-200 mb-3">{title}</h3>
+    {groups.length === 0 ? (
+      <p className="text-sm text-slate-500">기록이 없습니다.</p>
+    ) : (
+      <div className="max-h-72 overflow-y-auto custom-scrollbar">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-slate-500 sticky top-0 bg-slate-800">
+            <tr>
+              <th className="text-left py-2 font-medium">항목</th>
+              <th className="text-right py-2 font-medium">호출</th>
+              <th className="text-right py-2 font-medium">토큰</th>
+              <th className="text-right py-2 font-medium">비용</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700/50">
+            {groups.map(group => (
+              <tr key={group.key} className="text-slate-300">
+                <td className="py-2 pr-2 truncate max-w-[180px]" title={group.label}>{group.label}</td>
+                <td className="py-2 text-right">{group.calls}</td>
+                <td className="py-2 text-right">{formatNumber(group.tokens)}</td>
+                <td className="py-2 text-right text-emerald-300">{formatCost(group.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </div>
+);
+
+const UsageDashboard: React.FC = () => {
+  const [log, setLog] = useState<UsageEntry[]>(getUsageLog);
+  const [priceRows, setPriceRows] = useState<PriceRow[]>(() => toPriceRows(getPriceTable()));
+  const [pricesSaved, setPricesSaved] = useState(false);
+
+  useEffect(() => subscribeUsage(() => setLog(getUsageLog())), []);
+
+  const totals = useMemo(() => ({
+    calls: log.length,
+    promptTokens: log.reduce((sum, e) => sum + e.promptTokens, 0),
+    outputTokens: log.reduce((sum, e) => sum + e.outputTokens + e.thinkingTokens, 0),
+    cost: log.reduce((sum, e) => sum + e.cost, 0),
+  }), [log]);
+
+  const byDay = useMemo(() => groupBy(log, e => toDay(e.timestamp)).sort((a, b) => b.key.localeCompare(a.key)), [log]);
+  const byKind = useMemo(() => groupBy(log, e => e.kind, key => ANALYSIS_KIND_LABELS[key as AnalysisKind] || key).sort((a, b) => b.cost - a.cost), [log]);
+  const bySubject = useMemo(() => groupBy(log, e => e.subject || '-').sort((a, b) => b.cost - a.cost), [log]);
+
+  const unpricedModels = useMemo(() => {
+    const priced = new Set(priceRows.map(row => row.model.trim()));
+    return Array.from(new Set(log.map(e => e.model))).filter(model => !priced.has(model));
+  }, [log, priceRows]);
+
+  const parsePrices = (): Record<string, ModelPrice> => Object.fromEntries(
+    priceRows
+      .filter(row => row.model.trim())
+      .map(row => [row.model.trim(), { input: Number(row.input) || 0, output: Number(row.output) || 0 }])
+  );
+
+  const updateRow = (index: number, patch: Partial<PriceRow>) => {
+    setPriceRows(prev => prev.map((row, i) => i === index ? { ...row, ...patch } : row));
+  };
+
+  const handleSavePrices = () => {
+    setPriceTable(parsePrices());
+    setPricesSaved(true);
+    setTimeout(() => setPricesSaved(false), 1500);
+  };
+
+  const handleReprice = () => {
+    if (!window.confirm('현재 단가표로 지금까지의 모든 기록 비용을 다시 계산할까요?')) return;
+    const prices = parsePrices();
+    setPriceTable(prices);
+    repriceUsageLog(prices);
+  };
+
+  const handleResetPrices = () => {
+    setPriceRows(toPriceRows(DEFAULT_PRICES));
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('AI 사용 기록을 모두 삭제할까요? 이 작업은 되돌릴 수 없습니다.')) return;
+    clearUsageLog();
+  };
+
+  const handleExport = () => {
+    downloadCSV(log.map(e => ({
+      일시: new Date(e.timestamp).toLocaleString('ko-KR'),
+      분석유형: ANALYSIS_KIND_LABELS[e.kind] || e.kind,
+      대상: e.subject,
+      제공자: LLM_PROVIDER_LABELS[e.provider] || e.provider,
+      모델: e.model,
+      입력토큰: e.promptTokens,
+      출력토큰: e.outputTokens,
+      사고토큰: e.thinkingTokens,
+      비용USD: e.cost.toFixed(6),
+    })), `ai_usage_${toDay(new Date().toISOString())}`);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 shadow-xl flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2 text-white">
+            <Coins className="text-emerald-400" /> AI 사용량 및 비용
+          </h2>
+          <p className="text-slate-400 text-sm mt-2">
+            AI 호출마다 사용한 토큰을 이 브라우저에 기록합니다. 비용은 기록 시점의 단가표로 계산됩니다.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            disabled={log.length === 0}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={14} /> CSV
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={log.length === 0}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-red-400 rounded-lg text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 size={14} /> 기록 삭제
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-slate-800 p-5 rounded-xl border border-slate-700">
+          <div className="text-xs text-slate-500 font-bold">총 호출</div>
+          <div className="text-2xl font-bold text-white mt-1">{formatNumber(totals.calls)}</div>
+        </div>
+        <div className="bg-slate-800 p-5 rounded-xl border border-slate-700">
+          <div className="text-xs text-slate-500 font-bold">입력 토큰</div>
+          <div className="text-2xl font-bold text-white mt-1">{formatNumber(totals.promptTokens)}</div>
+        </div>
+        <div className="bg-slate-800 p-5 rounded-xl border border-slate-700">
+          <div className="text-xs text-slate-500 font-bold">출력 토큰 (사고 포함)</div>
+          <div className="text-2xl font-bold text-white mt-1">{formatNumber(totals.outputTokens)}</div>
+        </div>
+        <div className="bg-slate-800 p-5 rounded-xl border border-emerald-500/30">
+          <div className="text-xs text-slate-500 font-bold">총 비용 (USD)</div>
+          <div className="text-2xl font-bold text-emerald-300 mt-1">{formatCost(totals.cost)}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <UsageTable title="일별" groups={byDay} />
+        <UsageTable title="분석 유형별" groups={byKind} />
+        <UsageTable title="채널 · 키워드별" groups={bySubject} />
+      </div>
+
+      <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 space-y-4">
+        <div>
+          <h3 className="font-bold text-slate-200">모델 단가표</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            100만 토큰당 USD. 사고 토큰은 출력 단가로 계산되며, 단가표에 없는 모델(로컬 모델 등)은 0원으로 기록됩니다.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_100px_100px_32px] gap-2 text-xs text-slate-500 font-bold">
+            <span>모델</span><span>입력</span><span>출력</span><span />
+          </div>
+          {priceRows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[1fr_100px_100px_32px] gap-2">
+              <input
+                value={row.model}
+                onChange={(e) => updateRow(index, { model: e.target.value })}
+                placeholder="모델 이름"
+                className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-white font-mono outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              <input
+                type="number" min={0} step="0.01"
+                value={row.input}
+                onChange={(e) => updateRow(index, { input: e.target.value })}
+                className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              <input
+                type="number" min={0} step="0.01"
+                value={row.output}
+                onChange={(e) => updateRow(index, { output: e.target.value })}
+                className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              <button
+                onClick={() => setPriceRows(prev => prev.filter((_, i) => i !== index))}
+                className="text-slate-500 hover:text-red-400 flex items-center justify-center"
+                title="삭제"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {unpricedModels.length > 0 && (
+          <div className="text-xs text-yellow-400">
+            단가가 없는 사용 모델:{' '}
+            {unpricedModels.map(model => (
+              <button
+                key={model}
+                onClick={() => setPriceRows(prev => [...prev, { model, input: '0', output: '0' }])}
+                className="font-mono underline decoration-dotted hover:text-yellow-200 mr-2"
+              >
+                {model}
+              </button>
+            ))}
+          </div>
+        )}
+        {pricesSaved && (
+          <div className="text-green-400 text-xs flex items-center gap-1"><CheckCircle size={12}/> 저장되었습니다.</div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setPriceRows(prev => [...prev, { model: '', input: '0', output: '0' }])}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm flex items-center gap-2"
+          >
+            <Plus size={14} /> 모델 추가
+          </button>
+          <button
+            onClick={handleSavePrices}
+            className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg text-sm font-bold flex items-center gap-2"
+          >
+            <Save size={14} /> 단가 저장
+          </button>
+          <button
+            onClick={handleReprice}
+            disabled={log.length === 0}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw size={14} /> 저장 후 기존 기록 재계산
+          </button>
+          <button
+            onClick={handleResetPrices}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-lg text-sm flex items-center gap-2 ml-auto"
+          >
+            <RotateCcw size={14} /> 기본 단가 불러오기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;